@@ -1,29 +1,301 @@
 #!/usr/bin/env node
 
 import dotenv from 'dotenv';
-import { validateENV } from './utils/index.js';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { ScraperMCPServer } from './server/index.js';
+import { HttpServerHost, MCP_PATH, SSE_PATH } from './server/http.js';
+import { ResultCache } from './lib/result-cache.js';
+import { CredentialResolver } from './lib/credentials.js';
+import { PromptLibrary } from './lib/prompt-library.js';
+import { Logger } from './lib/logger.js';
+import { UsageLedger } from './lib/usage-ledger.js';
+import { RateLimit, RequestScheduler } from './lib/scheduler.js';
+import { JobTimings } from './lib/progress.js';
+import { WatchStore } from './lib/watch-store.js';
+import { ScrapeHistory } from './lib/history.js';
+import { PageWatcher } from './lib/watcher.js';
+import { ScraperAPI } from './lib/scraper-api.js';
+import { ResultExporter } from './lib/exporter.js';
+import { UrlPolicy } from './lib/url-policy.js';
+import { MOCK_API_KEY, MockScraperBackend } from './lib/mock-backend.js';
+import { ScraperError } from './lib/errors.js';
+import { ConfigError, configHelp, loadConfig, readPackageVersion, redactConfig } from './lib/config.js';
+import { ServerConfig } from './types/index.js';
 
 // Load environment variables
 dotenv.config();
 
-// Validate required environment variables
-validateENV('SCRAPERIS_API_KEY');
+/**
+ * Resources shared by every session of the process
+ */
+interface SharedResources {
+  config: ServerConfig;
+  version: string;
+  credentials: CredentialResolver;
+  cache: ResultCache;
+  prompts: PromptLibrary;
+  logger: Logger;
+  ledger: UsageLedger;
+  scheduler: RequestScheduler;
+  timings: JobTimings;
+  history?: ScrapeHistory;
+  urlPolicy: UrlPolicy;
+  watcher: PageWatcher;
+}
+
+/**
+ * Builds a rate limit that allows bursts of up to two seconds' worth of requests
+ * @param perSecond Requests per second; 0 for no limit
+ * @returns The rate limit, or undefined for no limit
+ */
+function rateLimit(perSecond: number): RateLimit | undefined {
+  return perSecond > 0 ? { perSecond, burst: Math.max(1, Math.ceil(perSecond * 2)) } : undefined;
+}
+
+/**
+ * Creates an MCP server with the configured credentials, cache and prompts
+ * @param shared The resources shared by all sessions
+ * @returns The server
+ */
+function createServer({
+  config,
+  version,
+  credentials,
+  cache,
+  prompts,
+  logger,
+  ledger,
+  scheduler,
+  timings,
+  history,
+  urlPolicy,
+  watcher
+}: SharedResources): ScraperMCPServer {
+  return new ScraperMCPServer(credentials, config.apiBase, version, {
+    ...(config.timeout ? { timeout: config.timeout } : {}),
+    ...(config.maxPolls ? { maxAttempts: config.maxPolls } : {}),
+    pollInterval: config.pollInterval,
+    defaultFormat: config.defaultFormat,
+    logLevel: config.logLevel,
+    logger,
+    enabledTools: config.enableTools,
+    toolDescriptions: config.toolDescriptions,
+    cache,
+    prompts,
+    ledger,
+    sessionBudget: config.sessionBudget,
+    scheduler,
+    timings,
+    history,
+    urlPolicy,
+    watcher,
+    exporter: new ResultExporter(config.exportDir)
+  });
+}
 
-// Get API key from environment
-const SCRAPER_API_KEY = process.env.SCRAPERIS_API_KEY as string;
-const SCRAPER_API_BASE = process.env.SCRAPER_API_BASE || 'https://scraper.is/api';
+/**
+ * Creates the watcher of the process, whose checks are billed to each watch's profile or the default key. Changes are
+ * logged here once; sessions only tell their own clients about the watches of their key.
+ * @param store The watches
+ * @param shared The resources the API clients of the checks share with the sessions
+ * @returns The watcher
+ */
+function createWatcher(store: WatchStore, shared: Omit<SharedResources, 'watcher'>): PageWatcher {
+  const { config, credentials, cache, ledger, scheduler, timings, history, urlPolicy, logger } = shared;
+  const apis = new Map<string, ScraperAPI>();
+  // Checks are recorded in the usage ledger as a session of their own
+  const usage = ledger.session('watcher');
+  const watcher = new PageWatcher(store, profile => {
+    const { apiKey } = credentials.resolve({ profile });
+    let api = apis.get(apiKey);
+    if (!api) {
+      api = new ScraperAPI(apiKey, config.apiBase, config.pollInterval, {
+        ...(config.timeout ? { timeout: config.timeout } : {}),
+        ...(config.maxPolls ? { maxAttempts: config.maxPolls } : {}),
+        cache,
+        usage,
+        scheduler,
+        timings,
+        history,
+        urlPolicy
+      });
+      apis.set(apiKey, api);
+    }
+    return api;
+  });
+  watcher.subscribe(event => {
+    if (event.type === 'changed') {
+      logger.log('info', `Watched page changed: ${event.change.summary}`, { watch: event.watch.id });
+    }
+  });
+  return watcher;
+}
+
+/**
+ * Serves MCP sessions over HTTP until the process is stopped
+ * @param shared The resources shared by all sessions
+ */
+async function serveHttp(shared: SharedResources): Promise<void> {
+  const { host: hostname, port, authToken } = shared.config;
+  if (!authToken && !['127.0.0.1', 'localhost', '::1'].includes(hostname)) {
+    shared.logger.log('warning', `Listening on ${hostname} without SCRAPERIS_AUTH_TOKEN; anyone who can reach it can use your API key`);
+  }
+
+  const host = new HttpServerHost({
+    host: hostname,
+    port,
+    authToken,
+    version: shared.version,
+    createServer: () => createServer(shared)
+  });
+  const address = await host.listen();
+  const base = `http://${address.family === 'IPv6' ? `[${address.address}]` : address.address}:${address.port}`;
+  shared.logger.log('info', `Scraperis MCP Server listening on ${base}${MCP_PATH} (Streamable HTTP) and ${base}${SSE_PATH} (SSE)`);
+
+  const shutdown = () => {
+    host.close()
+      .then(() => shared.ledger.flush())
+      .then(() => shared.watcher.flush())
+      .then(() => shared.history?.flush())
+      .then(() => shared.logger.close())
+      .finally(() => process.exit(0));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+/**
+ * Checks that Scraper.is is reachable and accepts the default API key
+ * @param shared The loaded resources
+ * @returns Promise with true if the check passed
+ */
+async function checkApi({ config, credentials }: SharedResources): Promise<boolean> {
+  if (!credentials.hasFallback) {
+    console.error('API: no default API key or default profile configured; requests must bring their own key');
+  }
+  const credential = credentials.hasFallback ? credentials.resolve() : { apiKey: '', source: 'none' };
+  const api = new ScraperAPI(credential.apiKey, config.apiBase, config.pollInterval, { maxRetries: 0 });
+
+  try {
+    const latency = await api.ping(AbortSignal.timeout(15000));
+    console.error(`API: ${config.apiBase} reachable in ${latency} ms, key from ${credential.source} accepted`);
+    return true;
+  } catch (error) {
+    if (error instanceof ScraperError && error.code === 'auth_failed' && !credentials.hasFallback) {
+      console.error(`API: ${config.apiBase} reachable`);
+      return true;
+    }
+    console.error(`API: check failed: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+/**
+ * Starts the mock Scraper.is API and points the configuration at it. Cached results, usage, watches and history go
+ * to a directory of their own, so mock results never mix with real ones.
+ * @param config The loaded configuration
+ * @returns Promise with the configuration to run with
+ */
+async function startMock(config: ServerConfig): Promise<ServerConfig> {
+  const backend = new MockScraperBackend();
+  const apiBase = await backend.listen();
+  // The process ends with its MCP transport, as without the mock
+  backend.unref();
+  const state = join(tmpdir(), 'scraperis-mcp-mock');
+  return {
+    ...config,
+    apiBase,
+    apiKey: config.apiKey ?? MOCK_API_KEY,
+    // Mock jobs finish in seconds
+    pollInterval: Math.min(config.pollInterval, 1000),
+    cacheDir: join(state, 'cache'),
+    keyFile: join(state, 'keys.json'),
+    usageFile: join(state, 'usage.jsonl'),
+    watchFile: join(state, 'watches.json'),
+    historyDir: join(state, 'history')
+  };
+}
 
 /**
  * Main function to start the server
  */
 async function main() {
   try {
-    // Create and start the server
-    const server = new ScraperMCPServer(SCRAPER_API_KEY, SCRAPER_API_BASE);
-    await server.start();
+    const { config: loaded, configPath, check, mock, help, version: printVersion } = await loadConfig();
+    const version = await readPackageVersion();
+
+    if (help) {
+      console.log(configHelp());
+      return;
+    }
+    if (printVersion) {
+      console.log(version);
+      return;
+    }
+
+    const config = mock ? await startMock(loaded) : loaded;
+    // stdout carries the MCP protocol over stdio, so logs go to stderr
+    const logger = new Logger({ level: config.logLevel, file: config.logFile });
+    logger.log('info', `Scraperis MCP Server ${version}`, { configPath, config: redactConfig(config) });
+    if (mock) {
+      logger.log('warning', `Mock mode: results are made up by a local stand-in for Scraper.is at ${config.apiBase}`);
+    }
+
+    const cache = new ResultCache(config.cacheDir, config.cacheTtl * 1000);
+    const credentials = await CredentialResolver.fromFile(config.keyFile, config.apiKey);
+    if (credentials.profiles.length) {
+      logger.log('info', `Loaded API key profiles: ${credentials.profiles.join(', ')}`);
+    }
+    const prompts = await PromptLibrary.load(config.promptsDir, (file, error) => {
+      logger.log('warning', `Skipping prompt template ${file}: ${error.message}`);
+    });
+    const ledger = await UsageLedger.open(config.usageFile, config.dailyBudget);
+    // One scheduler for all sessions, so the limits hold for the process as a whole
+    const scheduler = new RequestScheduler({
+      submit: rateLimit(config.submitRate),
+      poll: rateLimit(config.pollRate),
+      maxQueue: config.maxQueue
+    });
+    const history = config.historyLimit > 0 ? await ScrapeHistory.open(config.historyDir, config.historyLimit) : undefined;
+    const resources = {
+      config,
+      version,
+      credentials,
+      cache,
+      prompts,
+      logger,
+      ledger,
+      scheduler,
+      timings: new JobTimings(),
+      history,
+      urlPolicy: new UrlPolicy({
+        allowedDomains: config.allowedDomains,
+        blockedDomains: config.blockedDomains,
+        allowedSchemes: config.allowedSchemes,
+        allowPrivateNetworks: config.allowPrivateNetworks
+      })
+    };
+    const watches = await WatchStore.open(config.watchFile, error => logger.log('warning', error.message));
+    const shared = { ...resources, watcher: createWatcher(watches, resources) };
+
+    if (check) {
+      process.exit(await checkApi(shared) ? 0 : 1);
+    }
+
+    if (config.transport === 'http') {
+      await serveHttp(shared);
+    } else {
+      // Create and start the server
+      await createServer(shared).start();
+    }
   } catch (error) {
-    console.error('Fatal error running server:', error);
+    if (error instanceof ConfigError) {
+      console.error(error.message);
+      console.error('Run with --help to list the available settings.');
+    } else {
+      console.error('Fatal error running server:', error);
+    }
     process.exit(1);
   }
 }
@@ -34,4 +306,4 @@ main().catch((error) => {
   process.exit(1);
 });
 
-export {};
\ No newline at end of file
+export {};
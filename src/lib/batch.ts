@@ -0,0 +1,117 @@
+import {
+  BatchFormat,
+  BatchItem,
+  BatchItemResult,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_SIZE,
+  ScrapeFormat
+} from '../types/index.js';
+import { ScraperAPI } from './scraper-api.js';
+import { ScraperError } from './errors.js';
+import { toCsv, toRecords } from './records.js';
+import { mapWithConcurrency } from '../utils/index.js';
+
+/**
+ * The format each item is scraped in for a given merged batch format
+ */
+const ITEM_FORMATS: Record<BatchFormat, ScrapeFormat> = {
+  json: 'json',
+  csv: 'json',
+  markdown: 'markdown'
+};
+
+/**
+ * Builds batch items from either explicit prompts or a URL list with a shared instruction
+ * @param prompts Explicit prompts, each including its URL
+ * @param urls URLs to apply the instruction to
+ * @param instruction The shared instruction for the URL list
+ * @returns The batch items
+ * @throws Error if neither input is usable or the batch is too large
+ */
+export function buildBatchItems(prompts?: string[], urls?: string[], instruction?: string): BatchItem[] {
+  let items: BatchItem[];
+  
+  if (prompts && prompts.length > 0) {
+    items = prompts.map((prompt, index) => ({ index, prompt }));
+  } else if (urls && urls.length > 0) {
+    if (!instruction) {
+      throw new Error('An instruction is required when scraping a list of URLs');
+    }
+    items = urls.map((url, index) => ({ index, url, prompt: `${instruction.trim()} from ${url}` }));
+  } else {
+    throw new Error('Provide either prompts or urls to scrape');
+  }
+  
+  if (items.length > MAX_BATCH_SIZE) {
+    throw new Error(`A batch can contain at most ${MAX_BATCH_SIZE} items, got ${items.length}`);
+  }
+  return items;
+}
+
+/**
+ * Runs every item of a batch through the scraper, collecting failures per item instead of failing the batch
+ * @param api The Scraper.is client
+ * @param items The batch items
+ * @param format The merged output format
+ * @param concurrency Maximum number of concurrent scrapes
+ * @param signal Optional AbortSignal that cancels the remaining items
+ * @param onItemDone Optional callback invoked as each item finishes, with the number of finished items
+ * @returns Promise with the per-item results, in input order
+ */
+export async function runBatch(
+  api: ScraperAPI,
+  items: BatchItem[],
+  format: BatchFormat,
+  concurrency: number,
+  signal?: AbortSignal,
+  onItemDone?: (done: number, item: BatchItemResult) => Promise<void>
+): Promise<BatchItemResult[]> {
+  let done = 0;
+  const limit = Math.min(Math.max(1, Math.floor(concurrency)), MAX_BATCH_CONCURRENCY);
+  
+  return mapWithConcurrency(items, limit, async (item) => {
+    let itemResult: BatchItemResult;
+    
+    try {
+      // Batch items queue behind interactive scrapes when requests are rate limited
+      const result = await api.scrape(item.prompt, ITEM_FORMATS[format], undefined, { signal, priority: -1 });
+      itemResult = { ...item, status: 'success', result };
+    } catch (error) {
+      itemResult = {
+        ...item,
+        status: 'error',
+        error: error instanceof ScraperError
+          ? { code: error.code, message: error.message, retryable: error.retryable }
+          : { code: 'unknown', message: error instanceof Error ? error.message : String(error), retryable: false }
+      };
+    }
+    
+    done++;
+    if (onItemDone) {
+      await onItemDone(done, itemResult);
+    }
+    return itemResult;
+  });
+}
+
+/**
+ * Merges successful batch results into one document
+ * @param results The per-item results
+ * @param format The merged output format
+ * @returns The merged JSON records, CSV text or markdown document
+ */
+export function mergeBatchResults(results: BatchItemResult[], format: BatchFormat): string | Record<string, unknown>[] {
+  const succeeded = results.filter(item => item.status === 'success' && item.result);
+  
+  if (format === 'markdown') {
+    return succeeded
+      .map(item => `## ${item.url ?? item.prompt}\n\n${item.result?.markdown ?? ''}`.trim())
+      .join('\n\n---\n\n');
+  }
+  
+  // Tag every record with the item it came from so merged rows stay attributable
+  const records = succeeded.flatMap(item =>
+    toRecords(item.result?.data).map(record => ({ _source: item.url ?? item.prompt, ...record }))
+  );
+  return format === 'csv' ? toCsv(records) : records;
+}
@@ -0,0 +1,134 @@
+import { generateChatId } from '../utils/index.js';
+
+/**
+ * URI scheme of chunk resources: scraperis_chunk://<document id>/<1-based chunk number>
+ */
+export const CHUNK_URI_PREFIX = 'scraperis_chunk://';
+
+export interface ChunkedDocument {
+  id: string;
+  /** The page the document was scraped from, if known */
+  source?: string;
+  /** The chunks, in document order */
+  chunks: string[];
+  /** Total length of the chunks in characters */
+  size: number;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+/**
+ * In-memory store of results split into chunks, so the chunks that did not fit a tool result can be read
+ * with a follow-up call or as MCP resources. Documents expire after a TTL and the least recently used are
+ * evicted beyond a total size.
+ */
+export class ChunkStore {
+  private documents: Map<string, ChunkedDocument>;
+  private maxChars: number;
+  private ttl: number;
+
+  /**
+   * Creates a new ChunkStore
+   * @param maxChars Maximum total size of stored documents in characters
+   * @param ttl Time in milliseconds after which a document expires
+   */
+  constructor(maxChars: number = 20 * 1024 * 1024, ttl: number = 60 * 60 * 1000) {
+    this.documents = new Map<string, ChunkedDocument>();
+    this.maxChars = maxChars;
+    this.ttl = ttl;
+  }
+
+  /**
+   * Adds a chunked document to the store
+   * @param chunks The chunks, in document order
+   * @param source The page the document was scraped from
+   * @returns The stored document
+   */
+  add(chunks: string[], source?: string): ChunkedDocument {
+    const now = Date.now();
+    const document: ChunkedDocument = {
+      id: generateChatId(),
+      source,
+      chunks,
+      size: chunks.reduce((sum, chunk) => sum + chunk.length, 0),
+      createdAt: now,
+      lastAccessedAt: now
+    };
+
+    this.documents.set(document.id, document);
+    this.evict();
+    return document;
+  }
+
+  /**
+   * Gets a document by its id
+   * @param id The document id
+   * @returns The document, or undefined if it is unknown or expired
+   */
+  get(id: string): ChunkedDocument | undefined {
+    this.evict();
+    const document = this.documents.get(id);
+    if (document) {
+      document.lastAccessedAt = Date.now();
+    }
+    return document;
+  }
+
+  /**
+   * Gets a chunk by its resource URI
+   * @param uri The resource URI
+   * @returns The document and the 1-based chunk number, or undefined if the chunk is unknown or expired
+   */
+  resolve(uri: string): { document: ChunkedDocument; chunk: number } | undefined {
+    const match = uri.startsWith(CHUNK_URI_PREFIX) && uri.substring(CHUNK_URI_PREFIX.length).match(/^([^/]+)\/(\d+)$/);
+    if (!match) {
+      return undefined;
+    }
+    const document = this.get(match[1]);
+    const chunk = Number(match[2]);
+    return document && chunk >= 1 && chunk <= document.chunks.length ? { document, chunk } : undefined;
+  }
+
+  /**
+   * Lists the stored documents, newest first
+   * @returns The documents
+   */
+  list(): ChunkedDocument[] {
+    this.evict();
+    return [...this.documents.values()].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Builds the resource URI of a chunk
+   * @param id The document id
+   * @param chunk The 1-based chunk number
+   * @returns The URI
+   */
+  static uri(id: string, chunk: number): string {
+    return `${CHUNK_URI_PREFIX}${id}/${chunk}`;
+  }
+
+  /**
+   * Drops expired documents, then the least recently used ones until the store fits its size limit
+   */
+  private evict(): void {
+    const now = Date.now();
+    let total = 0;
+
+    for (const [id, document] of this.documents) {
+      if (now - document.createdAt > this.ttl) {
+        this.documents.delete(id);
+      } else {
+        total += document.size;
+      }
+    }
+
+    const byAccess = [...this.documents.values()].sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+    // Always keep the most recent document, even if it alone exceeds the limit
+    while (total > this.maxChars && byAccess.length > 1) {
+      const victim = byAccess.shift() as ChunkedDocument;
+      this.documents.delete(victim.id);
+      total -= victim.size;
+    }
+  }
+}
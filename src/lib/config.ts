@@ -0,0 +1,302 @@
+import { access, readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { parse as parseYaml } from 'yaml';
+
+import { ServerConfig, ServerConfigSchema } from '../types/index.js';
+
+type ConfigKey = keyof ServerConfig;
+
+/**
+ * Environment variables of each setting, checked in order
+ */
+export const CONFIG_ENV_VARS: Partial<Record<ConfigKey, string[]>> = {
+  apiKey: ['SCRAPERIS_API_KEY'],
+  apiBase: ['SCRAPERIS_API_BASE', 'SCRAPER_API_BASE'],
+  pollInterval: ['SCRAPERIS_POLL_INTERVAL'],
+  timeout: ['SCRAPERIS_TIMEOUT'],
+  maxPolls: ['SCRAPERIS_MAX_POLLS'],
+  defaultFormat: ['SCRAPERIS_DEFAULT_FORMAT'],
+  transport: ['SCRAPERIS_TRANSPORT'],
+  host: ['SCRAPERIS_HOST'],
+  port: ['SCRAPERIS_PORT'],
+  authToken: ['SCRAPERIS_AUTH_TOKEN'],
+  logLevel: ['SCRAPERIS_LOG_LEVEL'],
+  logFile: ['SCRAPERIS_LOG_FILE'],
+  enableTools: ['SCRAPERIS_ENABLE_TOOLS'],
+  cacheDir: ['SCRAPERIS_CACHE_DIR'],
+  cacheTtl: ['SCRAPERIS_CACHE_TTL'],
+  keyFile: ['SCRAPERIS_KEY_FILE'],
+  promptsDir: ['SCRAPERIS_PROMPTS_DIR'],
+  usageFile: ['SCRAPERIS_USAGE_FILE'],
+  watchFile: ['SCRAPERIS_WATCH_FILE'],
+  historyDir: ['SCRAPERIS_HISTORY_DIR'],
+  historyLimit: ['SCRAPERIS_HISTORY_LIMIT'],
+  exportDir: ['SCRAPERIS_EXPORT_DIR'],
+  dailyBudget: ['SCRAPERIS_DAILY_BUDGET'],
+  sessionBudget: ['SCRAPERIS_SESSION_BUDGET'],
+  submitRate: ['SCRAPERIS_SUBMIT_RATE'],
+  pollRate: ['SCRAPERIS_POLL_RATE'],
+  maxQueue: ['SCRAPERIS_MAX_QUEUE'],
+  allowedDomains: ['SCRAPERIS_ALLOWED_DOMAINS'],
+  blockedDomains: ['SCRAPERIS_BLOCKED_DOMAINS'],
+  allowedSchemes: ['SCRAPERIS_ALLOWED_SCHEMES'],
+  allowPrivateNetworks: ['SCRAPERIS_ALLOW_PRIVATE_NETWORKS'],
+};
+
+/**
+ * CLI flag of each setting. Secrets have no flag so they do not show up in process listings.
+ */
+export const CONFIG_FLAGS: Partial<Record<ConfigKey, string>> = {
+  apiBase: 'api-base',
+  pollInterval: 'poll-interval',
+  timeout: 'timeout',
+  maxPolls: 'max-polls',
+  defaultFormat: 'default-format',
+  transport: 'transport',
+  host: 'host',
+  port: 'port',
+  logLevel: 'log-level',
+  logFile: 'log-file',
+  enableTools: 'enable-tools',
+  cacheDir: 'cache-dir',
+  cacheTtl: 'cache-ttl',
+  keyFile: 'key-file',
+  promptsDir: 'prompts-dir',
+  usageFile: 'usage-file',
+  watchFile: 'watch-file',
+  historyDir: 'history-dir',
+  historyLimit: 'history-limit',
+  exportDir: 'export-dir',
+  dailyBudget: 'daily-budget',
+  sessionBudget: 'session-budget',
+  submitRate: 'submit-rate',
+  pollRate: 'poll-rate',
+  maxQueue: 'max-queue',
+  allowedDomains: 'allowed-domains',
+  blockedDomains: 'blocked-domains',
+  allowedSchemes: 'allowed-schemes',
+  allowPrivateNetworks: 'allow-private-networks',
+};
+
+/** Settings that are masked when the configuration is printed */
+const SECRET_KEYS: ConfigKey[] = ['apiKey', 'authToken'];
+
+/** Settings given as comma separated lists in env vars and flags */
+const LIST_KEYS: ConfigKey[] = ['enableTools', 'allowedDomains', 'blockedDomains', 'allowedSchemes'];
+
+/**
+ * Raised when the configuration is invalid; the process should report it and exit
+ */
+export class ConfigError extends Error {
+  /**
+   * Creates a new ConfigError
+   * @param message Human-readable error message
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export interface LoadedConfig {
+  config: ServerConfig;
+  /** The config file that was read, if any */
+  configPath?: string;
+  /** Validate the configuration and API reachability, then exit */
+  check: boolean;
+  /** Serve results from a local mock of the Scraper.is API instead of the real one */
+  mock: boolean;
+  help: boolean;
+  version: boolean;
+}
+
+/**
+ * Default config file locations, used when no --config or SCRAPERIS_CONFIG is given
+ * @returns The candidate paths in order
+ */
+function defaultConfigPaths(): string[] {
+  const dir = join(homedir(), '.config', 'scraperis-mcp');
+  return ['config.json', 'config.yaml', 'config.yml'].map(file => join(dir, file));
+}
+
+/**
+ * Builds the configuration from defaults, a config file, env vars and CLI flags, in increasing precedence
+ * @param argv The CLI arguments, without the node and script paths
+ * @param env The environment
+ * @returns Promise with the validated configuration
+ * @throws ConfigError if a flag, the config file or a setting is invalid
+ */
+export async function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): Promise<LoadedConfig> {
+  let flags: Record<string, string | boolean | undefined>;
+  try {
+    flags = parseArgs({
+      args: argv,
+      options: {
+        ...Object.fromEntries(Object.values(CONFIG_FLAGS).map(flag => [flag, { type: 'string' as const }])),
+        config: { type: 'string' },
+        check: { type: 'boolean' },
+        mock: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+        version: { type: 'boolean', short: 'v' }
+      }
+    }).values;
+  } catch (error) {
+    throw new ConfigError(error instanceof Error ? error.message : String(error));
+  }
+
+  const explicitPath = (flags.config as string | undefined) || env.SCRAPERIS_CONFIG;
+  const configPath = explicitPath ?? await firstExisting(defaultConfigPaths());
+  const fromFile = configPath ? await readConfigFile(configPath) : {};
+
+  const fromEnv: Record<string, unknown> = {};
+  for (const [key, names] of Object.entries(CONFIG_ENV_VARS)) {
+    const value = names.map(name => env[name]).find(value => value !== undefined && value !== '');
+    if (value !== undefined) {
+      fromEnv[key] = fromString(key as ConfigKey, value);
+    }
+  }
+
+  const fromFlags: Record<string, unknown> = {};
+  for (const [key, flag] of Object.entries(CONFIG_FLAGS)) {
+    const value = flags[flag];
+    if (typeof value === 'string') {
+      fromFlags[key] = fromString(key as ConfigKey, value);
+    }
+  }
+
+  const parsed = ServerConfigSchema.safeParse({
+    cacheDir: join(homedir(), '.cache', 'scraperis-mcp'),
+    keyFile: join(homedir(), '.config', 'scraperis-mcp', 'keys.json'),
+    promptsDir: join(homedir(), '.config', 'scraperis-mcp', 'prompts'),
+    usageFile: join(homedir(), '.local', 'state', 'scraperis-mcp', 'usage.jsonl'),
+    watchFile: join(homedir(), '.local', 'state', 'scraperis-mcp', 'watches.json'),
+    historyDir: join(homedir(), '.local', 'state', 'scraperis-mcp', 'history'),
+    exportDir: join(homedir(), 'scraperis-exports'),
+    ...fromFile,
+    ...fromEnv,
+    ...fromFlags
+  });
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`);
+    throw new ConfigError(`Invalid configuration: ${issues.join('; ')}`);
+  }
+
+  return {
+    config: parsed.data,
+    configPath,
+    check: flags.check === true,
+    mock: flags.mock === true,
+    help: flags.help === true,
+    version: flags.version === true
+  };
+}
+
+/**
+ * Masks secrets so the configuration can be printed
+ * @param config The configuration
+ * @returns A copy with every secret reduced to its last four characters
+ */
+export function redactConfig(config: ServerConfig): Record<string, unknown> {
+  const redacted: Record<string, unknown> = { ...config };
+  for (const key of SECRET_KEYS) {
+    const value = config[key];
+    if (typeof value === 'string') {
+      redacted[key] = `***${value.slice(-4)}`;
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Reads the version of this package
+ * @returns Promise with the version from package.json
+ */
+export async function readPackageVersion(): Promise<string> {
+  // Both src/lib and build/lib sit two levels below the package root
+  const raw = await readFile(new URL('../../package.json', import.meta.url), 'utf8');
+  return (JSON.parse(raw) as { version: string }).version;
+}
+
+/**
+ * Builds the help text listing every flag and env var
+ * @returns The help text
+ */
+export function configHelp(): string {
+  const lines = Object.entries(CONFIG_ENV_VARS).map(([key, names]) => {
+    const flag = CONFIG_FLAGS[key as ConfigKey];
+    return `  ${(flag ? `--${flag} <value>` : '').padEnd(26)} ${(names ?? []).join(', ')}`;
+  });
+  return [
+    'Usage: scraperis-mcp [options]',
+    '',
+    'Settings are read from the config file, then env vars, then flags; later sources win.',
+    '',
+    '  --config <path>            SCRAPERIS_CONFIG (JSON or YAML)',
+    ...lines,
+    '  --check                    Validate the configuration and API reachability, then exit',
+    '  --mock                     Answer from a local mock of the Scraper.is API; needs no API key',
+    '  -v, --version              Print the version',
+    '  -h, --help                 Print this help'
+  ].join('\n');
+}
+
+/**
+ * Converts an env var or flag value to the shape the schema expects
+ * @param key The setting
+ * @param value The raw value
+ * @returns The value, split into a list for list settings
+ */
+function fromString(key: ConfigKey, value: string): unknown {
+  return LIST_KEYS.includes(key) ? value.split(',').map(item => item.trim()).filter(Boolean) : value;
+}
+
+/**
+ * Reads a JSON or YAML config file
+ * @param path The file path
+ * @returns Promise with the settings in the file
+ * @throws ConfigError if the file cannot be read or parsed
+ */
+async function readConfigFile(path: string): Promise<Record<string, unknown>> {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf8');
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = extname(path).toLowerCase() === '.json' ? JSON.parse(raw) : parseYaml(raw);
+  } catch (error) {
+    throw new ConfigError(`Cannot parse config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ConfigError(`Config file ${path} must contain an object`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Finds the first path that exists
+ * @param paths The candidate paths
+ * @returns Promise with the first existing path, or undefined
+ */
+async function firstExisting(paths: string[]): Promise<string | undefined> {
+  for (const path of paths) {
+    try {
+      await access(path);
+      return path;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,257 @@
+import {
+  BatchFormat,
+  CrawlOptions,
+  CrawlPage,
+  CrawlResult,
+  MAX_BATCH_CONCURRENCY,
+  ScraperResponse
+} from '../types/index.js';
+import { ScraperAPI } from './scraper-api.js';
+import { ScraperAbortedError, ScraperError } from './errors.js';
+import { ROBOTS_USER_AGENT, RobotsPolicy } from './robots.js';
+import { JsonSchema } from './json-schema.js';
+import { toRecords } from './records.js';
+import { mapWithConcurrency } from '../utils/index.js';
+
+/**
+ * What is extracted from each page when the crawl has no instruction
+ */
+const DEFAULT_INSTRUCTIONS: Record<BatchFormat, string> = {
+  markdown: 'Extract the main content of the page as markdown',
+  json: 'Extract the main items listed on the page as records',
+  csv: 'Extract the main items listed on the page as records'
+};
+
+/**
+ * Builds the schema each page is extracted with: its content or records, its links and, for paginated
+ * listings, the URL of the next page
+ * @param format The combined output format
+ * @param nextPage Describes the link to the next page
+ * @returns The JSON Schema
+ */
+function pageSchema(format: BatchFormat, nextPage?: string): JsonSchema {
+  const content = format === 'markdown'
+    ? { content: { type: 'string', description: 'The extracted content, as markdown' } }
+    : { records: { type: 'array', items: { type: 'object' }, description: 'The extracted records' } };
+  return {
+    type: 'object',
+    properties: {
+      ...content,
+      links: { type: 'array', items: { type: 'string' }, description: 'URLs of all links on the page' },
+      ...(nextPage && {
+        next_page: { type: ['string', 'null'], description: `URL of ${nextPage}, or null if there is none` }
+      })
+    },
+    required: [Object.keys(content)[0], 'links']
+  };
+}
+
+/**
+ * Normalizes a URL so the same page is only crawled once
+ * @param url The URL
+ * @param base The URL of the page the link was found on, to resolve relative links
+ * @returns The absolute URL without its fragment, or undefined if it is not an http(s) URL
+ */
+export function normalizeUrl(url: string, base?: string): string | undefined {
+  try {
+    const parsed = new URL(url, base);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return undefined;
+    }
+    parsed.hash = '';
+    return parsed.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Finds the link targets in markdown: inline links, autolinks and bare URLs (without trailing punctuation)
+ * @param markdown The markdown
+ * @returns The link targets, possibly relative
+ */
+export function extractLinks(markdown: string): string[] {
+  const links = [
+    ...[...markdown.matchAll(/\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"']*["'])?\s*\)/g)].map(match => match[1]),
+    ...[...markdown.matchAll(/<(https?:\/\/[^>\s]+)>/g)].map(match => match[1]),
+    ...[...markdown.matchAll(/(?<![(<])\bhttps?:\/\/[^\s<>()"'[\]]+/g)].map(match => match[0].replace(/[.,;:!?]+$/, ''))
+  ];
+  return [...new Set(links)];
+}
+
+/**
+ * Checks a URL against a glob pattern, where * matches any characters
+ * @param url The absolute URL
+ * @param pattern The pattern; patterns starting with / are matched against the path and query
+ * @returns True if the whole URL (or path) matches
+ */
+export function matchesPattern(url: string, pattern: string): boolean {
+  const parsed = new URL(url);
+  const subject = pattern.startsWith('/') ? `${parsed.pathname}${parsed.search}` : url;
+  const body = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}$`, 'i').test(subject);
+}
+
+/**
+ * Compares hosts, treating www.example.com and example.com as the same site
+ * @param a The first URL
+ * @param b The second URL
+ * @returns True if both URLs are on the same host
+ */
+function sameHost(a: string, b: string): boolean {
+  const host = (url: string) => new URL(url).hostname.replace(/^www\./, '');
+  return host(a) === host(b);
+}
+
+/**
+ * Crawls a site from a start URL: every page is scraped through the API, and the links it reports are followed
+ * breadth-first while they pass the filters, robots.txt and the depth and page limits
+ * @param api The Scraper.is client
+ * @param options The start URL, extraction, link filters and limits
+ * @param signal Optional AbortSignal that stops the crawl
+ * @param onPageDone Optional callback invoked as each page finishes, with the number of finished pages
+ * @returns Promise with the scraped pages, the URLs robots.txt blocked and the URLs left unvisited
+ * @throws UrlPolicyError if the API client's URL policy refuses the start URL
+ * @throws ScraperAbortedError if the signal is aborted
+ */
+export async function runCrawl(
+  api: ScraperAPI,
+  options: CrawlOptions,
+  signal?: AbortSignal,
+  onPageDone?: (done: number, page: CrawlPage) => Promise<void>
+): Promise<CrawlResult> {
+  const start = normalizeUrl(options.url);
+  if (!start) {
+    throw new Error(`Cannot crawl ${options.url}: only http(s) URLs are supported`);
+  }
+
+  const { format, nextPage, maxDepth, maxPages } = options;
+  const instruction = (options.instruction ?? DEFAULT_INSTRUCTIONS[format]).trim();
+  const schema = pageSchema(format, nextPage);
+  const limit = Math.min(Math.max(1, Math.floor(options.concurrency)), MAX_BATCH_CONCURRENCY);
+  // A start URL the URL policy refuses fails the crawl before anything is fetched
+  await api.urlPolicy?.check(start);
+  const robots = new RobotsPolicy(ROBOTS_USER_AGENT, api.urlPolicy);
+
+  const pages: CrawlPage[] = [];
+  const blocked: string[] = [];
+  const seen = new Set([start]);
+  const queue: Array<{ url: string; depth: number }> = [{ url: start, depth: 0 }];
+
+  const follow = (url: string | undefined, depth: number) => {
+    if (url && !seen.has(url)) {
+      seen.add(url);
+      queue.push({ url, depth });
+    }
+  };
+
+  // Each wave scrapes as many queued pages as the page limit still allows
+  while (queue.length > 0 && pages.length < maxPages) {
+    const wave = queue.splice(0, maxPages - pages.length);
+
+    const visited = await mapWithConcurrency(wave, limit, async ({ url, depth }) => {
+      if (!await robots.allows(url, signal)) {
+        blocked.push(url);
+        return undefined;
+      }
+
+      const prompt = `${instruction} from ${url}`;
+      let page: CrawlPage;
+      let data: Record<string, unknown> | undefined;
+      try {
+        // Crawl pages queue behind interactive scrapes when requests are rate limited
+        const response = await api.scrape(prompt, 'json', undefined, { signal, schema, priority: -1 });
+        data = response.data && !Array.isArray(response.data) ? response.data : {};
+        page = { index: 0, prompt, url, depth, status: 'success', result: pageResult(response, data, format) };
+      } catch (error) {
+        page = {
+          index: 0,
+          prompt,
+          url,
+          depth,
+          status: 'error',
+          error: error instanceof ScraperError
+            ? { code: error.code, message: error.message, retryable: error.retryable }
+            : { code: 'unknown', message: error instanceof Error ? error.message : String(error), retryable: false }
+        };
+      }
+
+      page.index = pages.length;
+      pages.push(page);
+      if (onPageDone) {
+        await onPageDone(pages.length, page);
+      }
+      return { page, links: data && pageLinks(data) };
+    });
+
+    if (signal?.aborted) {
+      throw new ScraperAbortedError('Crawl was cancelled');
+    }
+
+    for (const { page, links } of visited.filter(entry => entry !== undefined)) {
+      if (!links) {
+        continue;
+      }
+      if (nextPage && links.nextPage) {
+        follow(normalizeUrl(links.nextPage, page.url), page.depth);
+      }
+      if (page.depth >= maxDepth) {
+        continue;
+      }
+      for (const link of links.links) {
+        const url = normalizeUrl(link, page.url);
+        if (url && isFollowed(url, start, options)) {
+          follow(url, page.depth + 1);
+        }
+      }
+    }
+  }
+
+  return { pages, blocked, unvisited: queue.map(entry => entry.url) };
+}
+
+/**
+ * Checks a link against the crawl's domain and pattern filters
+ * @param url The absolute URL of the link
+ * @param start The start URL of the crawl
+ * @param options The crawl options
+ * @returns True if the link should be followed
+ */
+function isFollowed(url: string, start: string, options: CrawlOptions): boolean {
+  if (options.sameDomain && !sameHost(url, start)) {
+    return false;
+  }
+  if (options.include?.length && !options.include.some(pattern => matchesPattern(url, pattern))) {
+    return false;
+  }
+  return !options.exclude?.some(pattern => matchesPattern(url, pattern));
+}
+
+/**
+ * Reads the links and next page of an extracted page, including links found in its markdown content
+ * @param data The extracted object
+ * @returns The link targets and the next page URL, if any
+ */
+function pageLinks(data: Record<string, unknown>): { links: string[]; nextPage?: string } {
+  const links = Array.isArray(data.links) ? data.links.filter((link): link is string => typeof link === 'string') : [];
+  if (typeof data.content === 'string') {
+    links.push(...extractLinks(data.content));
+  }
+  return { links, nextPage: typeof data.next_page === 'string' && data.next_page ? data.next_page : undefined };
+}
+
+/**
+ * Shapes the response of a page like a batch item result, so pages merge like batch items
+ * @param response The json response of the page
+ * @param data The object the page was extracted into
+ * @param format The combined output format
+ * @returns The response with the page content as markdown or its records as data
+ */
+function pageResult(response: ScraperResponse, data: Record<string, unknown>, format: BatchFormat): ScraperResponse {
+  return format === 'markdown'
+    ? { ...response, markdown: typeof data.content === 'string' ? data.content : '' }
+    : { ...response, data: toRecords(data.records ?? response.data) };
+}
@@ -0,0 +1,161 @@
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+
+import { ScraperCredentialsError } from './errors.js';
+import { KeyFile, KeyFileSchema } from '../types/index.js';
+import { registerRequestSecret, registerSecret } from '../utils/index.js';
+
+/**
+ * Where a request may carry or select its API key
+ */
+export interface CredentialRequest {
+  /** Profile named in the tool arguments */
+  profile?: string;
+  /** API key sent in the request's _meta */
+  metaKey?: string;
+  /** API key sent in the X-Scraperis-Api-Key HTTP header */
+  headerKey?: string;
+  /** Profile selected by the X-Scraperis-Profile HTTP header */
+  headerProfile?: string;
+}
+
+export interface ResolvedCredential {
+  apiKey: string;
+  /** Where the key came from, e.g. profile:team-a, meta, header or default; safe to log */
+  source: string;
+}
+
+/**
+ * Identifies the owner of results, watches and cache entries stored for an API key, without keeping the key itself
+ * @param apiKey The API key
+ * @returns A short hash of the key
+ */
+export function keyOwner(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex').substring(0, 16);
+}
+
+/**
+ * Resolves the Scraper.is API key of each request, so one server can serve several tenants
+ */
+export class CredentialResolver {
+  private defaultKey?: string;
+  private keyFile: KeyFile;
+
+  /**
+   * Creates a new CredentialResolver
+   * @param defaultKey The key used when a request carries or selects none, usually SCRAPERIS_API_KEY
+   * @param keyFile Named key profiles
+   */
+  constructor(defaultKey?: string, keyFile: KeyFile = { profiles: {} }) {
+    this.defaultKey = defaultKey || undefined;
+    this.keyFile = keyFile;
+
+    for (const key of [defaultKey, ...Object.values(keyFile.profiles)]) {
+      if (key) {
+        registerSecret(key);
+      }
+    }
+  }
+
+  /**
+   * Creates a resolver with the profiles of a key file
+   * @param path Path of the JSON key file; a missing file means no profiles
+   * @param defaultKey The key used when a request carries or selects none
+   * @returns Promise with the resolver
+   * @throws Error if the key file cannot be read or is invalid
+   */
+  static async fromFile(path: string, defaultKey?: string): Promise<CredentialResolver> {
+    let raw: string;
+    try {
+      raw = await readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new CredentialResolver(defaultKey);
+      }
+      throw error;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      throw new Error(`Key file ${path} is not valid JSON`);
+    }
+    const parsed = KeyFileSchema.safeParse(json);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`);
+      throw new Error(`Key file ${path} is invalid: ${issues.join('; ')}`);
+    }
+    return new CredentialResolver(defaultKey, parsed.data);
+  }
+
+  /**
+   * Names of the configured profiles
+   */
+  get profiles(): string[] {
+    return Object.keys(this.keyFile.profiles);
+  }
+
+  /**
+   * Whether requests without credentials of their own can still be served
+   */
+  get hasFallback(): boolean {
+    return Boolean(this.keyFile.default || this.defaultKey);
+  }
+
+  /**
+   * Resolves the API key of a request. An explicit profile argument wins, then a key sent by the
+   * client (request metadata, then HTTP header), then a profile selected by header, then the key
+   * file's default profile and finally the default key.
+   * @param request Where the request carries or selects its key
+   * @returns The key and where it came from
+   * @throws ScraperCredentialsError if a named profile is unknown or no key is available
+   */
+  resolve(request: CredentialRequest = {}): ResolvedCredential {
+    if (request.profile) {
+      return this.fromProfile(request.profile);
+    }
+    if (request.metaKey) {
+      registerRequestSecret(request.metaKey);
+      return { apiKey: request.metaKey, source: 'meta' };
+    }
+    if (request.headerKey) {
+      registerRequestSecret(request.headerKey);
+      return { apiKey: request.headerKey, source: 'header' };
+    }
+    if (request.headerProfile) {
+      return this.fromProfile(request.headerProfile);
+    }
+    if (this.keyFile.default) {
+      return this.fromProfile(this.keyFile.default);
+    }
+    if (this.defaultKey) {
+      return { apiKey: this.defaultKey, source: 'default' };
+    }
+
+    throw new ScraperCredentialsError(
+      'No Scraper.is API key is configured for this request. Set SCRAPERIS_API_KEY on the server ' +
+      'or send a key with the request (X-Scraperis-Api-Key header or scraperis/apiKey in _meta)' +
+      (this.profiles.length ? `, or pass profile (one of: ${this.profiles.join(', ')})` : '')
+    );
+  }
+
+  /**
+   * Looks up the key of a named profile
+   * @param name The profile name
+   * @returns The profile's key
+   * @throws ScraperCredentialsError if the profile is unknown
+   */
+  private fromProfile(name: string): ResolvedCredential {
+    const apiKey = Object.prototype.hasOwnProperty.call(this.keyFile.profiles, name)
+      ? this.keyFile.profiles[name]
+      : undefined;
+    if (!apiKey) {
+      throw new ScraperCredentialsError(
+        `Unknown API key profile "${name}"` +
+        (this.profiles.length ? ` (available: ${this.profiles.join(', ')})` : ' (no profiles are configured)')
+      );
+    }
+    return { apiKey, source: `profile:${name}` };
+  }
+}
@@ -0,0 +1,180 @@
+import { FieldChange } from '../types/index.js';
+
+/**
+ * Above this many line pairs the changed region is not aligned line by line but reported as replaced whole,
+ * which keeps the diff of two unrelated pages cheap
+ */
+const MAX_ALIGNED_PAIRS = 4_000_000;
+
+/**
+ * A line of a diff: kept (' '), removed ('-') or added ('+')
+ */
+interface DiffLine {
+  kind: ' ' | '-' | '+';
+  text: string;
+}
+
+export interface TextDiff {
+  /** Number of added lines */
+  added: number;
+  /** Number of removed lines */
+  removed: number;
+  /** Unified diff with the given context, empty if nothing changed */
+  diff: string;
+}
+
+/**
+ * Compares two texts line by line
+ * @param before The earlier text
+ * @param after The later text
+ * @param context Unchanged lines shown around each change
+ * @returns The counts of added and removed lines and the unified diff
+ */
+export function diffText(before: string, after: string, context: number = 2): TextDiff {
+  const lines = diffLines(before.split('\n'), after.split('\n'));
+  return {
+    added: lines.filter(line => line.kind === '+').length,
+    removed: lines.filter(line => line.kind === '-').length,
+    diff: formatHunks(lines, context)
+  };
+}
+
+/**
+ * Aligns two lists of lines along their longest common subsequence, after trimming the common start and end
+ * @param a The earlier lines
+ * @param b The later lines
+ * @returns The diff lines in order
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head = a.slice(0, start).map(text => ({ kind: ' ' as const, text }));
+  const tail = a.slice(endA).map(text => ({ kind: ' ' as const, text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_ALIGNED_PAIRS) {
+    return [
+      ...head,
+      ...midA.map(text => ({ kind: '-' as const, text })),
+      ...midB.map(text => ({ kind: '+' as const, text })),
+      ...tail
+    ];
+  }
+
+  // lengths[i * (m + 1) + j] is the length of the LCS of midA[i..] and midB[j..]
+  const n = midA.length;
+  const m = midB.length;
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = midA[i] === midB[j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      middle.push({ kind: ' ', text: midA[i++] });
+      j++;
+    } else if (j >= m || (i < n && lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+      middle.push({ kind: '-', text: midA[i++] });
+    } else {
+      middle.push({ kind: '+', text: midB[j++] });
+    }
+  }
+  return [...head, ...middle, ...tail];
+}
+
+/**
+ * Formats diff lines as unified diff hunks
+ * @param lines The diff lines
+ * @param context Unchanged lines shown around each change
+ * @returns The hunks, each starting with an @@ -start,count +start,count @@ header
+ */
+function formatHunks(lines: DiffLine[], context: number): string {
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    const first = lines.findIndex((line, at) => at >= index && line.kind !== ' ');
+    if (first === -1) {
+      break;
+    }
+
+    // Extend the hunk while the next change is close enough for the contexts to touch
+    let last = first;
+    for (let at = first + 1; at < lines.length && at <= last + context * 2 + 1; at++) {
+      if (lines[at].kind !== ' ') {
+        last = at;
+      }
+    }
+    const from = Math.max(0, first - context);
+    const to = Math.min(lines.length, last + context + 1);
+
+    const before = lines.slice(0, from);
+    const startA = before.filter(line => line.kind !== '+').length + 1;
+    const startB = before.filter(line => line.kind !== '-').length + 1;
+    const body = lines.slice(from, to);
+    const countA = body.filter(line => line.kind !== '+').length;
+    const countB = body.filter(line => line.kind !== '-').length;
+
+    hunks.push([
+      `@@ -${startA},${countA} +${startB},${countB} @@`,
+      ...body.map(line => `${line.kind}${line.text}`)
+    ].join('\n'));
+    index = to;
+  }
+  return hunks.join('\n');
+}
+
+/**
+ * Compares two extracted values field by field, descending into objects and arrays
+ * @param before The earlier value
+ * @param after The later value
+ * @param path The path of the values
+ * @returns The added, removed and changed fields
+ */
+export function diffFields(before: unknown, after: unknown, path: string = ''): FieldChange[] {
+  if (isObject(before) && isObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap(key => diffFields(before[key], after[key], `${path}/${key}`));
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    return Array.from({ length }, (_, index) => diffFields(before[index], after[index], `${path}/${index}`)).flat();
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+
+  const at = path || '/';
+  if (before === undefined) {
+    return [{ path: at, type: 'added', after }];
+  }
+  if (after === undefined) {
+    return [{ path: at, type: 'removed', before }];
+  }
+  return [{ path: at, type: 'changed', before, after }];
+}
+
+/**
+ * Checks for a plain object
+ * @param value The value
+ * @returns True if the value is an object but not an array or null
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
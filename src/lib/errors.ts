@@ -0,0 +1,352 @@
+/**
+ * Error types raised by the Scraper.is client
+ */
+
+/**
+ * Base class for all errors produced by the ScraperAPI client
+ */
+export class ScraperError extends Error {
+  /** Machine-readable error code */
+  readonly code: string;
+
+  /**
+   * Creates a new ScraperError
+   * @param code Machine-readable error code
+   * @param message Human-readable error message
+   */
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'ScraperError';
+    this.code = code;
+  }
+
+  /**
+   * Whether the failed operation may succeed if retried
+   */
+  get retryable(): boolean {
+    return isRetryableError(this);
+  }
+
+  /**
+   * Structured representation of the error, including subclass-specific fields
+   * @returns Plain object safe to serialize as JSON
+   */
+  toJSON(): Record<string, unknown> {
+    const { name, ...fields } = Object.fromEntries(Object.entries(this));
+    return { error: name, message: this.message, retryable: this.retryable, ...fields };
+  }
+}
+
+/**
+ * Raised when a scrape job does not finish within its deadline or attempt budget
+ */
+export class ScraperTimeoutError extends ScraperError {
+  /** Milliseconds elapsed before giving up */
+  readonly elapsed: number;
+  /** Number of polls made before giving up */
+  readonly attempts: number;
+
+  /**
+   * Creates a new ScraperTimeoutError
+   * @param message Human-readable error message
+   * @param elapsed Milliseconds elapsed before giving up
+   * @param attempts Number of polls made before giving up
+   */
+  constructor(message: string, elapsed: number, attempts: number) {
+    super('timeout', message);
+    this.name = 'ScraperTimeoutError';
+    this.elapsed = elapsed;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Raised when a scrape is cancelled through its AbortSignal
+ */
+export class ScraperAbortedError extends ScraperError {
+  /**
+   * Creates a new ScraperAbortedError
+   * @param message Human-readable error message
+   */
+  constructor(message: string = 'Scrape was cancelled') {
+    super('aborted', message);
+    this.name = 'ScraperAbortedError';
+  }
+}
+
+/**
+ * Raised when no API key can be resolved for a request, before any API call is made
+ */
+export class ScraperCredentialsError extends ScraperError {
+  /**
+   * Creates a new ScraperCredentialsError
+   * @param message Human-readable error message
+   */
+  constructor(message: string) {
+    super('missing_credentials', message);
+    this.name = 'ScraperCredentialsError';
+  }
+}
+
+/**
+ * Raised when a call would exceed the daily or session credit budget, before any API call is made
+ */
+export class ScraperBudgetError extends ScraperError {
+  /** Which budget is used up */
+  readonly budget: 'daily' | 'session';
+  /** The budget in credits */
+  readonly limit: number;
+  /** Credits already spent against the budget */
+  readonly used: number;
+
+  /**
+   * Creates a new ScraperBudgetError
+   * @param budget Which budget is used up
+   * @param limit The budget in credits
+   * @param used Credits already spent against the budget
+   */
+  constructor(budget: 'daily' | 'session', limit: number, used: number) {
+    super(
+      'budget_exceeded',
+      `The ${budget} credit budget of ${limit} is used up (${used} spent${budget === 'daily' ? ' today, UTC' : ' in this session'})`
+    );
+    this.name = 'ScraperBudgetError';
+    this.budget = budget;
+    this.limit = limit;
+    this.used = used;
+  }
+}
+
+/**
+ * Raised when the API rejects the API key (401/403)
+ */
+export class ScraperAuthError extends ScraperError {
+  /** HTTP status returned by the API */
+  readonly status: number;
+
+  /**
+   * Creates a new ScraperAuthError
+   * @param message Human-readable error message
+   * @param status HTTP status returned by the API
+   */
+  constructor(message: string, status: number) {
+    super('auth_failed', message);
+    this.name = 'ScraperAuthError';
+    this.status = status;
+  }
+}
+
+/**
+ * Raised when the API does not know the requested job (404)
+ */
+export class ScraperJobNotFoundError extends ScraperError {
+  /**
+   * Creates a new ScraperJobNotFoundError
+   * @param message Human-readable error message
+   */
+  constructor(message: string) {
+    super('job_not_found', message);
+    this.name = 'ScraperJobNotFoundError';
+  }
+}
+
+/**
+ * Raised when the API throttles the client (429)
+ */
+export class ScraperRateLimitError extends ScraperError {
+  /** Suggested wait in milliseconds before retrying, from Retry-After */
+  readonly retryAfter?: number;
+
+  /**
+   * Creates a new ScraperRateLimitError
+   * @param message Human-readable error message
+   * @param retryAfter Suggested wait in milliseconds before retrying
+   */
+  constructor(message: string, retryAfter?: number) {
+    super('rate_limited', message);
+    this.name = 'ScraperRateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Raised when the client-side request queue is full, before the request is sent
+ */
+export class ScraperQueueFullError extends ScraperError {
+  /** Number of requests already waiting */
+  readonly queued: number;
+
+  /**
+   * Creates a new ScraperQueueFullError
+   * @param message Human-readable error message
+   * @param queued Number of requests already waiting
+   */
+  constructor(message: string, queued: number) {
+    super('queue_full', message);
+    this.name = 'ScraperQueueFullError';
+    this.queued = queued;
+  }
+}
+
+/**
+ * Raised when the API fails with a 5xx status or cannot be reached
+ */
+export class ScraperUpstreamError extends ScraperError {
+  /** HTTP status returned by the API, if a response was received */
+  readonly status?: number;
+
+  /**
+   * Creates a new ScraperUpstreamError
+   * @param message Human-readable error message
+   * @param status HTTP status returned by the API, if any
+   */
+  constructor(message: string, status?: number) {
+    super('upstream_error', message);
+    this.name = 'ScraperUpstreamError';
+    this.status = status;
+  }
+}
+
+/**
+ * Raised when the API answers with a body that cannot be parsed or is not the expected shape
+ */
+export class ScraperMalformedResponseError extends ScraperError {
+  /**
+   * Creates a new ScraperMalformedResponseError
+   * @param message Human-readable error message
+   */
+  constructor(message: string) {
+    super('malformed_response', message);
+    this.name = 'ScraperMalformedResponseError';
+  }
+}
+
+/**
+ * Raised when the scrape job itself reports failure
+ */
+export class ScraperJobFailedError extends ScraperError {
+  /** The job that failed */
+  readonly jobId?: string;
+
+  /**
+   * Creates a new ScraperJobFailedError
+   * @param message Human-readable error message
+   * @param jobId The job that failed
+   */
+  constructor(message: string, jobId?: string) {
+    super('job_failed', message);
+    this.name = 'ScraperJobFailedError';
+    this.jobId = jobId;
+  }
+}
+
+/**
+ * Whether an error is transient and the request may succeed if retried
+ * @param error The error to check
+ * @returns True for rate limiting, upstream failures and a full request queue
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof ScraperRateLimitError ||
+    error instanceof ScraperUpstreamError ||
+    error instanceof ScraperQueueFullError;
+}
+
+/**
+ * Builds the error matching an unsuccessful HTTP response
+ * @param status The HTTP status code
+ * @param endpoint The API endpoint that was called
+ * @param detail Optional error detail from the response body
+ * @param retryAfter Optional Retry-After delay in milliseconds
+ * @returns The matching ScraperError
+ */
+export function errorFromStatus(
+  status: number,
+  endpoint: string,
+  detail?: string,
+  retryAfter?: number
+): ScraperError {
+  const suffix = detail ? `: ${detail}` : '';
+
+  if (status === 401 || status === 403) {
+    return new ScraperAuthError(`Scraper.is rejected the API key (${status})${suffix}`, status);
+  }
+  if (status === 404) {
+    return new ScraperJobNotFoundError(`Scraper.is could not find the requested job at ${endpoint}${suffix}`);
+  }
+  if (status === 429) {
+    return new ScraperRateLimitError(`Scraper.is rate limit exceeded at ${endpoint}${suffix}`, retryAfter);
+  }
+  if (status >= 500) {
+    return new ScraperUpstreamError(`Scraper.is failed with ${status} at ${endpoint}${suffix}`, status);
+  }
+  return new ScraperError('request_failed', `Scraper.is request to ${endpoint} failed with ${status}${suffix}`);
+}
+
+/**
+ * Raised when tool arguments fail validation, before any API call is made
+ */
+export class ToolInputError extends ScraperError {
+  /** The offending fields and what is wrong with them */
+  readonly issues: Array<{ field: string; message: string }>;
+
+  /**
+   * Creates a new ToolInputError
+   * @param tool The tool that was called
+   * @param issues The offending fields and what is wrong with them
+   */
+  constructor(tool: string, issues: Array<{ field: string; message: string }>) {
+    super(
+      'invalid_arguments',
+      `Invalid arguments for ${tool}: ${issues.map(issue => `${issue.field}: ${issue.message}`).join('; ')}`
+    );
+    this.name = 'ToolInputError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Raised when an export would be written outside the export directory or over an existing file
+ */
+export class ExportPathError extends ScraperError {
+  /** The requested path */
+  readonly path: string;
+
+  /**
+   * Creates a new ExportPathError
+   * @param message Human-readable error message
+   * @param path The requested path
+   */
+  constructor(message: string, path: string) {
+    super('export_path', message);
+    this.name = 'ExportPathError';
+    this.path = path;
+  }
+}
+
+/**
+ * Why the URL policy refused a URL
+ */
+export type UrlPolicyReason = 'invalid_url' | 'missing_url' | 'scheme' | 'domain' | 'private_network';
+
+/**
+ * Raised when a URL is refused by the URL policy, before anything is requested from it or submitted to Scraper.is
+ */
+export class UrlPolicyError extends ScraperError {
+  /** The refused URL, or the prompt if it names no URL */
+  readonly url: string;
+  /** Why the URL was refused */
+  readonly reason: UrlPolicyReason;
+
+  /**
+   * Creates a new UrlPolicyError
+   * @param message Human-readable error message
+   * @param url The refused URL, or the prompt if it names no URL
+   * @param reason Why the URL was refused
+   */
+  constructor(message: string, url: string, reason: UrlPolicyReason) {
+    super('url_blocked', message);
+    this.name = 'UrlPolicyError';
+    this.url = url;
+    this.reason = reason;
+  }
+}
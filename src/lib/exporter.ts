@@ -0,0 +1,239 @@
+import { lstat, mkdir, realpath, rename, rm, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+
+import { ExportedFile, ExportFormat, ExportTarget, ScraperResponse } from '../types/index.js';
+import { ExportPathError } from './errors.js';
+import { columnsOf, flattenRecord, fromCsv, toCsv, toMarkdownTable, toRecords } from './records.js';
+import { toXlsx } from './xlsx.js';
+
+/** File extension of each export format */
+const EXTENSIONS: Record<ExportFormat, string> = {
+  csv: '.csv',
+  jsonl: '.jsonl',
+  xlsx: '.xlsx',
+  markdown: '.md'
+};
+
+/** Records shown in the preview of a tabular export */
+const PREVIEW_ROWS = 5;
+
+/** Characters shown in the preview of a markdown export */
+const PREVIEW_LENGTH = 1000;
+
+export interface ExportRequest extends ExportTarget {
+  /** Names the file when no path is given, e.g. the scrape prompt */
+  name?: string;
+}
+
+/**
+ * The bytes of an export and its preview
+ */
+interface ExportContent {
+  data: string | Buffer;
+  rows?: number;
+  preview: string;
+}
+
+/**
+ * Writes scrape results to files in an export directory. Paths are resolved against the directory and may not leave
+ * it, whether through '..', an absolute path or a symbolic link.
+ */
+export class ResultExporter {
+  private root: string;
+
+  /**
+   * Creates a new ResultExporter
+   * @param root The export directory; it is created with the first export
+   */
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  /**
+   * The export directory
+   */
+  get directory(): string {
+    return this.root;
+  }
+
+  /**
+   * Writes a result to a file
+   * @param response The scrape result
+   * @param request The format, the path relative to the export directory and whether to replace an existing file
+   * @returns Promise with the written file and a preview of its content
+   * @throws ExportPathError if the path leaves the export directory or the file exists
+   * @throws Error if the result has nothing to export in the format
+   */
+  async export(response: ScraperResponse, request: ExportRequest): Promise<ExportedFile> {
+    const content = exportContent(response, request.format);
+    const file = request.path
+      ? await this.target(request.path, request.format, request.overwrite)
+      : await this.defaultTarget(request.name, request.format);
+
+    // Renaming over the target replaces a file without writing through it
+    const tmp = join(dirname(file), `.${basename(file)}.${process.pid}.tmp`);
+    try {
+      await writeFile(tmp, content.data, { flag: 'wx' });
+      await rename(tmp, file);
+    } catch (error) {
+      await rm(tmp, { force: true });
+      throw error;
+    }
+
+    return {
+      path: file,
+      format: request.format,
+      bytes: typeof content.data === 'string' ? Buffer.byteLength(content.data) : content.data.length,
+      rows: content.rows,
+      preview: content.preview
+    };
+  }
+
+  /**
+   * Resolves a requested path inside the export directory, creating its parent directories
+   * @param path The path relative to the export directory
+   * @param format The export format, whose extension is added if the path lacks it
+   * @param overwrite Whether an existing file may be replaced
+   * @returns Promise with the absolute path of the file
+   * @throws ExportPathError if the path leaves the export directory or the file exists
+   */
+  private async target(path: string, format: ExportFormat, overwrite: boolean): Promise<string> {
+    if (path.includes('\0')) {
+      throw new ExportPathError(`Invalid export path: ${JSON.stringify(path)}`, path);
+    }
+    const withExtension = extname(path).toLowerCase() === EXTENSIONS[format] ? path : `${path}${EXTENSIONS[format]}`;
+    const file = resolve(this.root, withExtension);
+    if (!isInside(this.root, file) || file === this.root) {
+      throw new ExportPathError(`${path} is outside the export directory ${this.root}`, path);
+    }
+
+    const dir = await this.makeDirectory(relative(this.root, dirname(file)), path);
+    const target = join(dir, basename(file));
+    const existing = await lstat(target).catch(() => undefined);
+    if (existing && !existing.isFile()) {
+      throw new ExportPathError(`${path} exists and is not a regular file`, path);
+    }
+    if (existing && !overwrite) {
+      throw new ExportPathError(`${path} already exists in the export directory; set overwrite to replace it`, path);
+    }
+    return target;
+  }
+
+  /**
+   * Picks a file name from the result's name and the current time, numbered if the name is taken
+   * @param name The name the file is named after, e.g. the scrape prompt
+   * @param format The export format
+   * @returns Promise with the absolute path of the file
+   */
+  private async defaultTarget(name: string | undefined, format: ExportFormat): Promise<string> {
+    const dir = await this.makeDirectory('', '.');
+    const stem = `${slugify(name ?? '')}-${new Date().toISOString().substring(0, 19).replace(/[-:]/g, '').replace('T', '-')}`;
+    for (let number = 1; ; number++) {
+      const file = join(dir, `${stem}${number > 1 ? `-${number}` : ''}${EXTENSIONS[format]}`);
+      if (!(await lstat(file).catch(() => undefined))) {
+        return file;
+      }
+    }
+  }
+
+  /**
+   * Creates a directory inside the export directory one level at a time, so a symbolic link on the way that points
+   * outside of it is found before anything is created there
+   * @param path The directory relative to the export directory
+   * @param requested The requested path, for errors
+   * @returns Promise with the real path of the directory
+   * @throws ExportPathError if a directory on the way resolves outside the export directory
+   */
+  private async makeDirectory(path: string, requested: string): Promise<string> {
+    await mkdir(this.root, { recursive: true });
+    const root = await realpath(this.root);
+    let dir = root;
+    for (const part of path.split(sep).filter(Boolean)) {
+      await mkdir(join(dir, part)).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+      });
+      dir = await realpath(join(dir, part));
+      if (!isInside(root, dir)) {
+        throw new ExportPathError(`${requested} leads outside the export directory ${this.root} through a symbolic link`, requested);
+      }
+    }
+    return dir;
+  }
+}
+
+/**
+ * Serializes a result in an export format: structured data for csv, jsonl and xlsx, markdown text (or a table of the
+ * data) for markdown
+ * @param response The scrape result
+ * @param format The export format
+ * @returns The file content, the number of records and a preview
+ * @throws Error if the result has nothing to export in the format
+ */
+export function exportContent(response: ScraperResponse, format: ExportFormat): ExportContent {
+  if (format === 'markdown' && response.markdown !== undefined) {
+    const markdown = response.markdown;
+    return {
+      data: markdown,
+      preview: markdown.length > PREVIEW_LENGTH ? `${markdown.substring(0, PREVIEW_LENGTH)}…` : markdown
+    };
+  }
+
+  const records = response.data !== undefined ? toRecords(response.data) : response.csv !== undefined ? fromCsv(response.csv) : undefined;
+  if (!records) {
+    throw new Error(
+      format === 'markdown'
+        ? 'The result has no markdown or structured data to export'
+        : `The result has no structured data to export as ${format}; scrape it in the json or csv format, or export it as markdown`
+    );
+  }
+
+  // Every tabular format shares the columns of the flattened records, so the preview matches the file
+  const flat = records.map(record => flattenRecord(record));
+  const columns = columnsOf(flat);
+  const head = flat.slice(0, PREVIEW_ROWS).map(record => Object.fromEntries(columns.map(column => [column, record[column] ?? null])));
+  const table = toMarkdownTable(head) + (records.length > PREVIEW_ROWS ? `\n… ${records.length - PREVIEW_ROWS} more rows\n` : '');
+
+  if (format === 'jsonl') {
+    const lines = records.map(record => JSON.stringify(record));
+    return {
+      data: lines.length ? `${lines.join('\n')}\n` : '',
+      rows: records.length,
+      preview: lines.slice(0, PREVIEW_ROWS).join('\n') + (records.length > PREVIEW_ROWS ? `\n… ${records.length - PREVIEW_ROWS} more rows` : '')
+    };
+  }
+  if (format === 'xlsx') {
+    return { data: toXlsx(columns, flat), rows: records.length, preview: table };
+  }
+  if (format === 'csv') {
+    return { data: toCsv(records), rows: records.length, preview: table };
+  }
+  return { data: toMarkdownTable(records), rows: records.length, preview: table };
+}
+
+/**
+ * Whether a path is the directory itself or inside it
+ * @param dir The directory
+ * @param path The path
+ * @returns True unless the path leaves the directory
+ */
+function isInside(dir: string, path: string): boolean {
+  const rest = relative(dir, path);
+  return rest !== '..' && !rest.startsWith(`..${sep}`) && !isAbsolute(rest);
+}
+
+/**
+ * Turns a prompt or URL into a short file name
+ * @param text The text
+ * @returns Lowercase words joined with dashes, or 'export' if none are left
+ */
+function slugify(text: string): string {
+  const slug = text
+    .replace(/^https?:\/\//i, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .substring(0, 50)
+    .replace(/^-+|-+$/g, '');
+  return slug || 'export';
+}
@@ -0,0 +1,318 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { ScrapeFormat, ScraperResponse } from '../types/index.js';
+
+/**
+ * URI scheme of history resources: scraperis://history/<chat id>
+ */
+export const HISTORY_URI_PREFIX = 'scraperis://history/';
+
+/** Jobs started in the background whose prompt is remembered until their result is collected */
+const MAX_PENDING = 500;
+
+export interface HistoryEntry {
+  /** The chat ID the job was started with */
+  chatId: string;
+  /** The scrape prompt; unknown for jobs started before a restart */
+  prompt?: string;
+  format: ScrapeFormat;
+  /** The scraped page, when known */
+  url?: string;
+  /** Epoch milliseconds when the job was submitted */
+  submittedAt?: number;
+  /** Epoch milliseconds when the result was received */
+  completedAt: number;
+  /** Size of the stored result in characters */
+  size: number;
+  /** Owner of the API key the result was scraped with; results recorded without one are not shown to anyone */
+  owner?: string;
+}
+
+/**
+ * A completed scrape to record
+ */
+export interface HistoryRecord {
+  /** Owner of the API key the result was scraped with */
+  owner: string;
+  chatId: string;
+  prompt?: string;
+  format: ScrapeFormat;
+  submittedAt?: number;
+  response: ScraperResponse;
+}
+
+export interface HistoryQuery {
+  /** Words that must all appear in the prompt, URL or result, ignoring case */
+  text?: string;
+  format?: ScrapeFormat;
+  /** Only results received at or after this epoch millisecond */
+  since?: number;
+  /** Maximum number of matches */
+  limit: number;
+}
+
+export interface HistoryMatch {
+  entry: HistoryEntry;
+  /** Text around the first word found in the result */
+  snippet?: string;
+}
+
+/**
+ * Completed scrapes with their prompt, format and result, so earlier results can be read again without another
+ * scrape. The index is kept in memory and in index.json; each result is stored in its own file. Every read is scoped
+ * to the owner of the API key a result was scraped with, so tenants sharing a server never see each other's results.
+ */
+export class ScrapeHistory {
+  private dir?: string;
+  private maxEntries: number;
+  private entries: Map<string, HistoryEntry>;
+  /** Results of an in-memory history, by chat ID */
+  private results: Map<string, ScraperResponse> = new Map();
+  /** Prompts of background jobs by chat ID, until their result is recorded */
+  private pending: Map<string, { prompt: string; submittedAt: number }> = new Map();
+  /** Writes are chained so the index on disk never goes back to an older state */
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new ScrapeHistory
+   * @param dir The directory holding the index and results; results are only kept in memory when omitted
+   * @param maxEntries Maximum number of results kept; the oldest are dropped first
+   * @param entries The index loaded from an earlier run
+   */
+  constructor(dir?: string, maxEntries: number = 1000, entries: HistoryEntry[] = []) {
+    this.dir = dir;
+    this.maxEntries = maxEntries;
+    this.entries = new Map(entries.map(entry => [entry.chatId, entry]));
+  }
+
+  /**
+   * Creates a history with the index of its directory
+   * @param dir The history directory; a missing or unreadable index means no results yet
+   * @param maxEntries Maximum number of results kept
+   * @returns Promise with the history
+   */
+  static async open(dir: string, maxEntries?: number): Promise<ScrapeHistory> {
+    try {
+      const parsed = JSON.parse(await readFile(join(dir, 'index.json'), 'utf8')) as { entries?: HistoryEntry[] };
+      return new ScrapeHistory(dir, maxEntries, Array.isArray(parsed.entries) ? parsed.entries : []);
+    } catch {
+      return new ScrapeHistory(dir, maxEntries);
+    }
+  }
+
+  /**
+   * Remembers the prompt of a job started in the background, to record with its result
+   * @param chatId The chat ID of the job
+   * @param prompt The scrape prompt
+   */
+  started(chatId: string, prompt: string): void {
+    this.pending.set(chatId, { prompt, submittedAt: Date.now() });
+    if (this.pending.size > MAX_PENDING) {
+      this.pending.delete(this.pending.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Records a completed scrape, replacing an earlier result of the same job
+   * @param record The job and its result
+   */
+  record(record: HistoryRecord): void {
+    // Whether the result came from the cache says nothing about it once it is history
+    const response = { ...record.response };
+    delete response.cache;
+    const pending = this.pending.get(record.chatId);
+    const previous = this.entries.get(record.chatId);
+    this.pending.delete(record.chatId);
+
+    const payload = JSON.stringify(response);
+    const prompt = record.prompt ?? pending?.prompt ?? previous?.prompt;
+    const entry: HistoryEntry = {
+      chatId: record.chatId,
+      prompt,
+      format: record.format,
+      url: response.url ?? prompt?.match(/https?:\/\/[^\s"'<>]+/)?.[0],
+      submittedAt: record.submittedAt ?? pending?.submittedAt ?? previous?.submittedAt,
+      completedAt: Date.now(),
+      size: payload.length,
+      owner: record.owner
+    };
+    // Re-inserting moves the entry to the end, which keeps the map ordered by completion
+    this.entries.delete(entry.chatId);
+    this.entries.set(entry.chatId, entry);
+
+    const dropped: string[] = [];
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.results.delete(oldest);
+      dropped.push(oldest);
+    }
+
+    const dir = this.dir;
+    if (!dir) {
+      this.results.set(entry.chatId, response);
+      return;
+    }
+    this.write(async () => {
+      await mkdir(dir, { recursive: true });
+      await writeFile(this.file(entry.chatId), payload, 'utf8');
+      await Promise.all(dropped.map(chatId => rm(this.file(chatId), { force: true })));
+    });
+  }
+
+  /**
+   * Gets an entry of the index
+   * @param owner The owner of the caller's API key
+   * @param chatId The chat ID
+   * @returns The entry, or undefined if the result is not in the history or was scraped with another key
+   */
+  entry(owner: string, chatId: string): HistoryEntry | undefined {
+    const entry = this.entries.get(chatId);
+    return entry?.owner === owner ? entry : undefined;
+  }
+
+  /**
+   * Gets an entry by its resource URI
+   * @param owner The owner of the caller's API key
+   * @param uri The resource URI
+   * @returns The entry, or undefined if the URI is not a history URI or the result is not one of the owner's
+   */
+  resolve(owner: string, uri: string): HistoryEntry | undefined {
+    return uri.startsWith(HISTORY_URI_PREFIX)
+      ? this.entry(owner, decodeURIComponent(uri.substring(HISTORY_URI_PREFIX.length)))
+      : undefined;
+  }
+
+  /**
+   * Reads a stored result
+   * @param owner The owner of the caller's API key
+   * @param chatId The chat ID
+   * @returns Promise with the result, or undefined if it is not in the history or was scraped with another key
+   */
+  async get(owner: string, chatId: string): Promise<ScraperResponse | undefined> {
+    if (!this.entry(owner, chatId)) {
+      return undefined;
+    }
+    if (!this.dir) {
+      return this.results.get(chatId);
+    }
+    await this.writes;
+    try {
+      return JSON.parse(await readFile(this.file(chatId), 'utf8')) as ScraperResponse;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Lists the entries of an owner, most recent first
+   * @param owner The owner of the caller's API key
+   * @returns The entries
+   */
+  list(owner: string): HistoryEntry[] {
+    return [...this.entries.values()].filter(entry => entry.owner === owner).reverse();
+  }
+
+  /**
+   * Finds an owner's results by the words in their prompt, URL or content, most recent first
+   * @param owner The owner of the caller's API key
+   * @param query The words, filters and limit
+   * @returns Promise with the matching entries, with a snippet of the content around the first word found
+   */
+  async search(owner: string, query: HistoryQuery): Promise<HistoryMatch[]> {
+    const words = (query.text ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+    const matches: HistoryMatch[] = [];
+
+    for (const entry of this.list(owner)) {
+      if (matches.length >= query.limit) {
+        break;
+      }
+      if ((query.format && entry.format !== query.format) || (query.since !== undefined && entry.completedAt < query.since)) {
+        continue;
+      }
+      const label = `${entry.prompt ?? ''} ${entry.url ?? ''}`.toLowerCase();
+      if (words.every(word => label.includes(word))) {
+        matches.push({ entry });
+        continue;
+      }
+
+      // Only results whose prompt does not match are read
+      const content = searchableText(await this.get(owner, entry.chatId));
+      const lower = content.toLowerCase();
+      if (words.every(word => label.includes(word) || lower.includes(word))) {
+        const at = Math.min(...words.map(word => lower.indexOf(word)).filter(index => index >= 0));
+        matches.push({ entry, snippet: snippet(content, at) });
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Builds the resource URI of a result
+   * @param chatId The chat ID
+   * @returns The URI
+   */
+  static uri(chatId: string): string {
+    return `${HISTORY_URI_PREFIX}${encodeURIComponent(chatId)}`;
+  }
+
+  /**
+   * Waits until pending writes are done
+   * @returns Promise that resolves once the directory is up to date
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  /**
+   * Gets the file of a stored result
+   * @param chatId The chat ID
+   * @returns The file path
+   */
+  private file(chatId: string): string {
+    return join(this.dir as string, `${chatId.replace(/[^\w-]/g, '_')}.json`);
+  }
+
+  /**
+   * Runs a write after the earlier ones, then saves the index through a temporary file
+   * @param run The write
+   */
+  private write(run: () => Promise<void>): void {
+    const dir = this.dir as string;
+    this.writes = this.writes
+      .then(async () => {
+        await run();
+        const tmp = join(dir, `index.json.${process.pid}.tmp`);
+        await writeFile(tmp, JSON.stringify({ entries: [...this.entries.values()] }), 'utf8');
+        await rename(tmp, join(dir, 'index.json'));
+      })
+      // A history that cannot be written must not fail the scrape it records
+      .catch(() => undefined);
+  }
+}
+
+/**
+ * Gets the text of a result that search looks in
+ * @param response The stored result
+ * @returns The text content, or the serialized data
+ */
+function searchableText(response?: ScraperResponse): string {
+  if (!response) {
+    return '';
+  }
+  return response.markdown ?? response.csv ?? response.xml ?? response.html ?? (response.data ? JSON.stringify(response.data) : '');
+}
+
+/**
+ * Cuts the text around a position, on word boundaries where possible
+ * @param text The text
+ * @param at The position to center on
+ * @returns The snippet, with ellipses where it was cut
+ */
+function snippet(text: string, at: number): string {
+  const start = Math.max(0, at - 80);
+  const end = Math.min(text.length, at + 160);
+  const body = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${body}${end < text.length ? '…' : ''}`;
+}
@@ -0,0 +1,138 @@
+import { ScrapeFormat, ScrapeJob, ScrapeJobStatus } from '../types/index.js';
+
+/**
+ * Statuses after which a job no longer changes
+ */
+const TERMINAL_STATUSES: ScrapeJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * In-memory registry of asynchronous scrape jobs, keyed by chat ID
+ */
+export class JobRegistry {
+  private jobs: Map<string, ScrapeJob>;
+  private controllers: Map<string, AbortController>;
+  private maxJobs: number;
+
+  /**
+   * Creates a new JobRegistry
+   * @param maxJobs Maximum number of jobs to remember; the oldest finished jobs are evicted first
+   */
+  constructor(maxJobs: number = 100) {
+    this.jobs = new Map<string, ScrapeJob>();
+    this.controllers = new Map<string, AbortController>();
+    this.maxJobs = maxJobs;
+  }
+
+  /**
+   * Registers a newly started job
+   * @param chatId The chat ID the job was started with
+   * @param prompt The scrape prompt
+   * @param format The requested format
+   * @param jobId The job ID returned by the API
+   * @returns The registered job
+   */
+  add(chatId: string, prompt: string, format: ScrapeFormat, jobId?: string): ScrapeJob {
+    const now = Date.now();
+    const job: ScrapeJob = {
+      chatId,
+      jobId,
+      prompt,
+      format,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+      polls: 0
+    };
+    
+    this.jobs.set(chatId, job);
+    this.controllers.set(chatId, new AbortController());
+    this.evict();
+    return job;
+  }
+
+  /**
+   * Gets a job by chat ID
+   * @param chatId The chat ID of the job
+   * @returns The job, or undefined if it is unknown
+   */
+  get(chatId: string): ScrapeJob | undefined {
+    return this.jobs.get(chatId);
+  }
+
+  /**
+   * Lists all known jobs, newest first
+   * @returns The jobs
+   */
+  list(): ScrapeJob[] {
+    return [...this.jobs.values()].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Updates a job, ignoring updates to jobs that were already cancelled
+   * @param chatId The chat ID of the job
+   * @param update The fields to change
+   * @returns The updated job, or undefined if it is unknown
+   */
+  update(chatId: string, update: Partial<Omit<ScrapeJob, 'chatId' | 'createdAt'>>): ScrapeJob | undefined {
+    const job = this.jobs.get(chatId);
+    if (!job || job.status === 'cancelled') {
+      return job;
+    }
+    
+    Object.assign(job, update, { updatedAt: Date.now() });
+    if (TERMINAL_STATUSES.includes(job.status)) {
+      this.controllers.delete(chatId);
+    }
+    return job;
+  }
+
+  /**
+   * Gets the signal that is aborted when the job is cancelled
+   * @param chatId The chat ID of the job
+   * @returns The signal, or undefined if the job is unknown or finished
+   */
+  signal(chatId: string): AbortSignal | undefined {
+    return this.controllers.get(chatId)?.signal;
+  }
+
+  /**
+   * Cancels a job, aborting any request still waiting on it
+   * @param chatId The chat ID of the job
+   * @returns The cancelled job, or undefined if it is unknown
+   */
+  cancel(chatId: string): ScrapeJob | undefined {
+    const job = this.jobs.get(chatId);
+    if (!job) {
+      return undefined;
+    }
+    
+    if (!TERMINAL_STATUSES.includes(job.status)) {
+      job.status = 'cancelled';
+      job.updatedAt = Date.now();
+    }
+    this.controllers.get(chatId)?.abort();
+    this.controllers.delete(chatId);
+    return job;
+  }
+
+  /**
+   * Whether a job has reached a status after which it no longer changes
+   * @param job The job to check
+   * @returns True for completed, failed and cancelled jobs
+   */
+  static isTerminal(job: ScrapeJob): boolean {
+    return TERMINAL_STATUSES.includes(job.status);
+  }
+
+  /**
+   * Drops the oldest jobs once the registry is over capacity, preferring finished ones
+   */
+  private evict(): void {
+    while (this.jobs.size > this.maxJobs) {
+      const jobs = [...this.jobs.values()].sort((a, b) => a.createdAt - b.createdAt);
+      const victim = jobs.find(job => JobRegistry.isTerminal(job)) ?? jobs[0];
+      this.cancel(victim.chatId);
+      this.jobs.delete(victim.chatId);
+    }
+  }
+}
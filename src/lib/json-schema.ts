@@ -0,0 +1,247 @@
+/**
+ * Minimal JSON Schema validator for caller-supplied output schemas.
+ * Supports type, properties, required, additionalProperties, items, enum, const,
+ * minimum/maximum, minLength/maxLength and minItems/maxItems, with optional coercion
+ * of the loosely typed values scrapers tend to produce ("12.99" for a number, a single
+ * object for an array, ...).
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface SchemaIssue {
+  /** JSON Pointer-style path of the offending value, e.g. /products/0/price */
+  path: string;
+  message: string;
+}
+
+export interface SchemaValidation {
+  valid: boolean;
+  /** The validated value, after coercion if enabled */
+  value: unknown;
+  issues: SchemaIssue[];
+  /** Paths of values that were coerced to match the schema */
+  coerced: string[];
+}
+
+/**
+ * Validates a value against a JSON Schema
+ * @param value The value to validate
+ * @param schema The JSON Schema
+ * @param coerce Whether to coerce mismatching primitives and wrap single values into arrays
+ * @returns The validation outcome
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, coerce: boolean = true): SchemaValidation {
+  const issues: SchemaIssue[] = [];
+  const coerced: string[] = [];
+  const result = validateNode(value, schema, '', coerce, issues, coerced);
+  return { valid: issues.length === 0, value: result, issues, coerced };
+}
+
+/**
+ * Validates one node of the value tree
+ * @param value The value at this path
+ * @param schema The schema for this path
+ * @param path The path of the value
+ * @param coerce Whether to coerce mismatching values
+ * @param issues Collected issues
+ * @param coerced Collected coerced paths
+ * @returns The (possibly coerced) value
+ */
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  coerce: boolean,
+  issues: SchemaIssue[],
+  coerced: string[]
+): unknown {
+  const at = path || '/';
+  const types = schemaTypes(schema);
+  
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    const converted = coerce ? coerceValue(value, types) : undefined;
+    if (converted === undefined) {
+      issues.push({ path: at, message: `expected ${types.join(' or ')}, got ${typeOf(value)}` });
+      return value;
+    }
+    coerced.push(at);
+    value = converted.value;
+  }
+  
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => deepEqual(option, value))) {
+    issues.push({ path: at, message: `must be one of ${JSON.stringify(schema.enum)}` });
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    issues.push({ path: at, message: `must equal ${JSON.stringify(schema.const)}` });
+  }
+  
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      issues.push({ path: at, message: `must be >= ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      issues.push({ path: at, message: `must be <= ${schema.maximum}` });
+    }
+  }
+  
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      issues.push({ path: at, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      issues.push({ path: at, message: `must be at most ${schema.maxLength} characters` });
+    }
+  }
+  
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      issues.push({ path: at, message: `must have at least ${schema.minItems} items` });
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      issues.push({ path: at, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (isSchema(schema.items)) {
+      const items = schema.items;
+      return value.map((item, index) => validateNode(item, items, `${path}/${index}`, coerce, issues, coerced));
+    }
+    return value;
+  }
+  
+  if (isObject(value)) {
+    const properties = isObject(schema.properties) ? schema.properties : {};
+    const required = Array.isArray(schema.required) ? schema.required as string[] : [];
+    const output: Record<string, unknown> = {};
+    
+    for (const key of required) {
+      if (!(key in value)) {
+        issues.push({ path: `${path}/${key}`, message: 'is required' });
+      }
+    }
+    
+    for (const [key, child] of Object.entries(value)) {
+      const childSchema = properties[key];
+      if (isSchema(childSchema)) {
+        output[key] = validateNode(child, childSchema, `${path}/${key}`, coerce, issues, coerced);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: `${path}/${key}`, message: 'is not allowed' });
+      } else {
+        output[key] = isSchema(schema.additionalProperties)
+          ? validateNode(child, schema.additionalProperties, `${path}/${key}`, coerce, issues, coerced)
+          : child;
+      }
+    }
+    return output;
+  }
+  
+  return value;
+}
+
+/**
+ * Tries to convert a value to one of the expected types
+ * @param value The mismatching value
+ * @param types The expected types
+ * @returns The converted value, or undefined if no conversion applies
+ */
+function coerceValue(value: unknown, types: string[]): { value: unknown } | undefined {
+  for (const type of types) {
+    if ((type === 'number' || type === 'integer') && typeof value === 'string') {
+      // Tolerate currency symbols, thousands separators and units: "$1,299.00" -> 1299
+      const cleaned = value.replace(/[^0-9.eE+-]/g, '');
+      const parsed = cleaned ? Number(cleaned) : NaN;
+      if (Number.isFinite(parsed) && (type === 'number' || Number.isInteger(parsed))) {
+        return { value: parsed };
+      }
+    }
+    if (type === 'boolean' && typeof value === 'string' && /^(true|false|yes|no)$/i.test(value.trim())) {
+      return { value: /^(true|yes)$/i.test(value.trim()) };
+    }
+    if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+      return { value: String(value) };
+    }
+    if (type === 'array' && value !== undefined && value !== null) {
+      return { value: [value] };
+    }
+    if (type === 'null' && value === '') {
+      return { value: null };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Gets the types allowed by a schema
+ * @param schema The schema
+ * @returns The allowed types, or an empty list if unconstrained
+ */
+function schemaTypes(schema: JsonSchema): string[] {
+  if (typeof schema.type === 'string') {
+    return [schema.type];
+  }
+  return Array.isArray(schema.type) ? schema.type.filter((type): type is string => typeof type === 'string') : [];
+}
+
+/**
+ * Whether a value matches a JSON Schema type
+ * @param value The value
+ * @param type The JSON Schema type name
+ * @returns True if the value has the type
+ */
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+  case 'integer':
+    return typeof value === 'number' && Number.isInteger(value);
+  case 'number':
+    return typeof value === 'number' && Number.isFinite(value);
+  case 'array':
+    return Array.isArray(value);
+  case 'object':
+    return isObject(value);
+  case 'null':
+    return value === null;
+  default:
+    return typeof value === type;
+  }
+}
+
+/**
+ * Describes the JSON type of a value
+ * @param value The value
+ * @returns The JSON Schema type name
+ */
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return value === undefined ? 'nothing' : typeof value;
+}
+
+/**
+ * Compares two JSON values structurally
+ * @param a The first value
+ * @param b The second value
+ * @returns True if both values are equal
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Whether a value can be used as a (sub)schema
+ * @param value The value
+ * @returns True for objects
+ */
+function isSchema(value: unknown): value is JsonSchema {
+  return isObject(value);
+}
+
+/**
+ * Whether a value is a plain (non-array) object
+ * @param value The value
+ * @returns True for plain objects
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,156 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createWriteStream, WriteStream } from 'node:fs';
+
+import { LogLevel, LogLevelSchema } from '../types/index.js';
+import { redactSecrets } from '../utils/index.js';
+
+/**
+ * Log levels in increasing severity, as defined by MCP (RFC 5424 syslog levels)
+ */
+export const LOG_LEVELS: readonly LogLevel[] = LogLevelSchema.options;
+
+/**
+ * Fields describing the request a log record belongs to
+ */
+export interface LogContext {
+  /** MCP session id, when served over HTTP */
+  session?: string;
+  /** JSON-RPC id of the request */
+  requestId?: string | number;
+  /** Name of the tool being called */
+  tool?: string;
+}
+
+/**
+ * A structured log record, written as one JSON line
+ */
+export interface LogRecord extends LogContext {
+  time: string;
+  level: LogLevel;
+  message: string;
+  /** Time the request took, on records that complete one */
+  durationMs?: number;
+  [field: string]: unknown;
+}
+
+export interface LoggerOptions {
+  /** Least severe level written to stderr and the log file (default info) */
+  level?: LogLevel;
+  /** File log records are appended to, in addition to stderr */
+  file?: string;
+  /** Where records are written instead of stderr; used by tests */
+  write?: (line: string) => void;
+}
+
+/**
+ * Checks whether a level is at least as severe as a threshold
+ * @param level The level of a record
+ * @param threshold The least severe level that passes
+ * @returns True if the record passes
+ */
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Writes redacted JSON log records to stderr and an optional log file, tagging each with the
+ * context of the request it was written in
+ */
+export class Logger {
+  private level: LogLevel;
+  private write: (line: string) => void;
+  private file?: WriteStream;
+  private context = new AsyncLocalStorage<LogContext>();
+
+  /**
+   * Creates a new Logger
+   * @param options The level, log file and output of the logger
+   */
+  constructor(options: LoggerOptions = {}) {
+    this.level = options.level ?? 'info';
+    this.write = options.write ?? (line => process.stderr.write(line));
+
+    if (options.file) {
+      const path = options.file;
+      this.file = createWriteStream(path, { flags: 'a' });
+      this.file.on('error', error => {
+        // Keep logging to stderr when the file cannot be written
+        this.file = undefined;
+        this.write(`${JSON.stringify(this.record('error', `Cannot write log file ${path}: ${error.message}`))}\n`);
+      });
+    }
+  }
+
+  /**
+   * Checks whether records of a level are written
+   * @param level The log level
+   * @returns True if the level is at least the configured level
+   */
+  enabled(level: LogLevel): boolean {
+    return isLevelEnabled(level, this.level);
+  }
+
+  /**
+   * Runs a function with a context that is added to every record it writes, including
+   * records written by async work it starts
+   * @param context The fields to add, merged over the current context
+   * @param fn The function to run
+   * @returns The function's result
+   */
+  run<T>(context: LogContext, fn: () => T): T {
+    return this.context.run({ ...this.context.getStore(), ...context }, fn);
+  }
+
+  /**
+   * Builds a redacted record in the current context
+   * @param level The log level
+   * @param message The message
+   * @param fields Additional fields, such as durationMs
+   * @returns The record
+   */
+  record(level: LogLevel, message: string, fields: Record<string, unknown> = {}): LogRecord {
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      message,
+      ...this.context.getStore(),
+      ...fields
+    };
+    // Redact the serialized record so secrets in any field are caught
+    return JSON.parse(redactSecrets(JSON.stringify(record))) as LogRecord;
+  }
+
+  /**
+   * Writes a record to stderr and the log file if its level is enabled
+   * @param record The record
+   */
+  emit(record: LogRecord): void {
+    if (!this.enabled(record.level)) {
+      return;
+    }
+    const line = `${JSON.stringify(record)}\n`;
+    this.write(line);
+    this.file?.write(line);
+  }
+
+  /**
+   * Builds and writes a record
+   * @param level The log level
+   * @param message The message
+   * @param fields Additional fields
+   */
+  log(level: LogLevel, message: string, fields?: Record<string, unknown>): void {
+    if (this.enabled(level)) {
+      this.emit(this.record(level, message, fields));
+    }
+  }
+
+  /**
+   * Flushes and closes the log file
+   */
+  close(): Promise<void> {
+    const file = this.file;
+    this.file = undefined;
+    return new Promise(resolve => (file ? file.end(resolve) : resolve()));
+  }
+}
@@ -0,0 +1,306 @@
+import { MarkdownOptions } from '../types/index.js';
+
+/**
+ * Rough number of characters per LLM token in English prose and markdown
+ */
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Query parameters that only track clicks and are dropped from links
+ */
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|_hsenc|_hsmi)$/i;
+
+/**
+ * Short blocks that are site chrome rather than content
+ */
+const BOILERPLATE_PATTERNS = [
+  /^skip to (main )?content/i,
+  /\b(we|this (site|website)) uses? cookies\b/i,
+  /\baccept (all )?cookies\b/i,
+  /\ball rights reserved\b/i,
+  /^(©|\(c\)|copyright)\s/i,
+  /^subscribe to (our|the) newsletter/i,
+  /^share (this|on)\b/i,
+  /^(sign|log) ?in( or (sign|register) ?up)?$/i,
+  /^back to top$/i
+];
+
+/**
+ * Blocks at most this long are checked against the boilerplate patterns
+ */
+const BOILERPLATE_MAX_LENGTH = 200;
+
+/**
+ * Inline links and images: [text](url "title") and ![alt](url), where the URL may hold balanced parentheses
+ */
+const LINK_PATTERN = /(!?)\[([^\]]*)\]\(\s*<?((?:[^()\s>]|\([^()\s]*\))*)>?(?:\s+["'][^"']*["'])?\s*\)/g;
+
+interface Heading {
+  /** Index of the heading line */
+  line: number;
+  level: number;
+  text: string;
+}
+
+/**
+ * Estimates the number of tokens a text takes up in an LLM's context
+ * @param text The text
+ * @returns The estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Runs scraped markdown through the post-processing pipeline: boilerplate stripping, link and image
+ * normalization, then the section filter
+ * @param markdown The scraped markdown
+ * @param options The page URL, whether to clean up and the section selector
+ * @returns The processed markdown, or undefined if the selector matched no section
+ */
+export function processMarkdown(markdown: string, options: MarkdownOptions = {}): string | undefined {
+  let result = markdown;
+  if (options.clean !== false) {
+    result = normalizeLinks(stripBoilerplate(result), options.baseUrl);
+  }
+  return options.selector ? selectSections(result, options.selector) : result;
+}
+
+/**
+ * Splits markdown into blocks separated by blank lines, keeping fenced code blocks whole
+ * @param markdown The markdown
+ * @returns The blocks
+ */
+function blocks(markdown: string): string[] {
+  const result: string[] = [];
+  let current: string[] = [];
+  let fence: string | undefined;
+
+  for (const line of markdown.split('\n')) {
+    const marker = line.match(/^\s*(`{3,}|~{3,})/)?.[1];
+    if (marker && (!fence || marker.startsWith(fence))) {
+      fence = fence ? undefined : marker;
+    }
+    if (!fence && !marker && line.trim() === '') {
+      if (current.length) {
+        result.push(current.join('\n'));
+        current = [];
+      }
+      continue;
+    }
+    current.push(line);
+  }
+  if (current.length) {
+    result.push(current.join('\n'));
+  }
+  return result;
+}
+
+/**
+ * Drops navigation menus and site chrome: blocks that are mostly links, and short blocks matching
+ * common boilerplate such as cookie banners and copyright lines
+ * @param markdown The markdown
+ * @returns The markdown without boilerplate, with runs of blank lines collapsed
+ */
+export function stripBoilerplate(markdown: string): string {
+  return blocks(markdown)
+    .filter(block => {
+      if (/^\s*(`{3,}|~{3,})/.test(block)) {
+        return true;
+      }
+      const text = block.replace(/^\s*([-*+]|\d+\.)\s+/gm, '').trim();
+      if (text.length <= BOILERPLATE_MAX_LENGTH && BOILERPLATE_PATTERNS.some(pattern => pattern.test(text))) {
+        return false;
+      }
+      // A menu is mostly links, with little more than separators between them
+      const links = [...text.matchAll(LINK_PATTERN)];
+      const rest = text.replace(LINK_PATTERN, '').replace(/[\s|·•/>»,-]+/g, '');
+      return links.length < 3 || rest.length > text.length * 0.1;
+    })
+    .map(block => block.replace(/[ \t]+$/gm, ''))
+    .join('\n\n');
+}
+
+/**
+ * Resolves relative links and images, drops tracking parameters and script links, and replaces inline
+ * data URI images with their alt text
+ * @param markdown The markdown
+ * @param baseUrl The URL of the page, to resolve relative URLs against
+ * @returns The normalized markdown
+ */
+export function normalizeLinks(markdown: string, baseUrl?: string): string {
+  return markdown.replace(LINK_PATTERN, (match, bang: string, text: string, target: string) => {
+    if (bang) {
+      if (target.startsWith('data:')) {
+        return text ? `[image: ${text}]` : '';
+      }
+      return `![${text}](${resolveUrl(target, baseUrl)})`;
+    }
+    if (!target || target.startsWith('#') || /^javascript:/i.test(target)) {
+      return text;
+    }
+    const url = resolveUrl(target, baseUrl);
+    return text.trim() ? `[${text}](${url})` : `<${url}>`;
+  });
+}
+
+/**
+ * Resolves a link target against the page URL and drops its tracking parameters
+ * @param target The link target
+ * @param baseUrl The URL of the page
+ * @returns The absolute URL, or the target unchanged if it cannot be resolved
+ */
+function resolveUrl(target: string, baseUrl?: string): string {
+  try {
+    const url = new URL(target, baseUrl);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return target;
+    }
+    for (const name of [...url.searchParams.keys()]) {
+      if (TRACKING_PARAMS.test(name)) {
+        url.searchParams.delete(name);
+      }
+    }
+    return url.toString();
+  } catch {
+    return target;
+  }
+}
+
+/**
+ * Finds the ATX headings of markdown, skipping fenced code blocks
+ * @param lines The markdown lines
+ * @returns The headings, in document order
+ */
+function headings(lines: string[]): Heading[] {
+  const result: Heading[] = [];
+  let fence = false;
+  lines.forEach((line, index) => {
+    if (/^\s*(`{3,}|~{3,})/.test(line)) {
+      fence = !fence;
+    }
+    const match = !fence && line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (match) {
+      result.push({ line: index, level: match[1].length, text: match[2] });
+    }
+  });
+  return result;
+}
+
+/**
+ * Lists the headings of markdown, to suggest selectors
+ * @param markdown The markdown
+ * @returns The headings, prefixed with # marks of their level
+ */
+export function listHeadings(markdown: string): string[] {
+  return headings(markdown.split('\n')).map(heading => `${'#'.repeat(heading.level)} ${heading.text}`);
+}
+
+/**
+ * Keeps only the sections whose heading matches a selector, each with its subsections
+ * @param markdown The markdown
+ * @param selector Heading text to match case-insensitively, or a /regular expression/; leading # marks
+ * restrict the heading level, e.g. '## Pricing'
+ * @returns The matching sections, or undefined if none matched
+ */
+export function selectSections(markdown: string, selector: string): string | undefined {
+  const match = selector.trim().match(/^(#{1,6})?\s*(.*)$/) as RegExpMatchArray;
+  const level = match[1]?.length;
+  const pattern = match[2].match(/^\/(.+)\/([a-z]*)$/);
+  const test = pattern
+    ? (text: string) => new RegExp(pattern[1], pattern[2].includes('i') ? pattern[2] : `${pattern[2]}i`).test(text)
+    : (text: string) => text.toLowerCase().includes(match[2].toLowerCase());
+
+  const lines = markdown.split('\n');
+  const all = headings(lines);
+  const sections: string[] = [];
+  let keptUntil = -1;
+
+  all.forEach((heading, index) => {
+    if (heading.line < keptUntil || (level !== undefined && heading.level !== level) || !test(heading.text)) {
+      return;
+    }
+    const end = all.slice(index + 1).find(next => next.level <= heading.level)?.line ?? lines.length;
+    sections.push(lines.slice(heading.line, end).join('\n').trim());
+    keptUntil = end;
+  });
+  return sections.length ? sections.join('\n\n') : undefined;
+}
+
+/**
+ * Splits markdown into ordered chunks that each fit a token budget, breaking at headings, then at
+ * paragraphs, then at lines, and only cutting lines as a last resort
+ * @param markdown The markdown
+ * @param maxTokens The token budget of each chunk
+ * @returns The chunks, in document order
+ */
+export function chunkMarkdown(markdown: string, maxTokens: number): string[] {
+  const limit = Math.max(1, Math.floor(maxTokens)) * CHARS_PER_TOKEN;
+  if (markdown.length <= limit) {
+    return [markdown];
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of splitToFit(markdown, limit, 0, '')) {
+    const joined = current ? `${current}${piece.joiner}${piece.text}` : piece.text;
+    if (joined.length <= limit) {
+      current = joined;
+    } else {
+      chunks.push(current);
+      current = piece.text;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Splitters tried in order, each with the text that rejoins its pieces
+ */
+const SPLITTERS: Array<{ split: (text: string) => string[]; joiner: string }> = [
+  { split: text => splitAtHeadings(text), joiner: '\n\n' },
+  { split: text => blocks(text), joiner: '\n\n' },
+  { split: text => text.split('\n'), joiner: '\n' }
+];
+
+/**
+ * Recursively splits text until every piece fits the limit
+ * @param text The text to split
+ * @param limit Maximum piece length in characters
+ * @param level The splitter to try first
+ * @param joiner The text that joins this piece to the previous one
+ * @returns The pieces, with the text that joins each to the previous one
+ */
+function splitToFit(text: string, limit: number, level: number, joiner: string): Array<{ text: string; joiner: string }> {
+  if (text.length <= limit) {
+    return [{ text, joiner }];
+  }
+  if (level >= SPLITTERS.length) {
+    const slices: Array<{ text: string; joiner: string }> = [];
+    for (let start = 0; start < text.length; start += limit) {
+      slices.push({ text: text.slice(start, start + limit), joiner: start === 0 ? joiner : '' });
+    }
+    return slices;
+  }
+
+  const { split, joiner: inner } = SPLITTERS[level];
+  const parts = split(text).filter(part => part.trim() !== '');
+  if (parts.length <= 1) {
+    return splitToFit(text, limit, level + 1, joiner);
+  }
+  return parts.flatMap((part, index) => splitToFit(part, limit, level + 1, index === 0 ? joiner : inner));
+}
+
+/**
+ * Splits markdown before each heading
+ * @param markdown The markdown
+ * @returns The sections, the first holding any text before the first heading
+ */
+function splitAtHeadings(markdown: string): string[] {
+  const lines = markdown.split('\n');
+  const starts = [0, ...headings(lines).map(heading => heading.line).filter(line => line > 0), lines.length];
+  return starts.slice(0, -1).map((start, index) => lines.slice(start, starts[index + 1]).join('\n').trim());
+}
@@ -0,0 +1,539 @@
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+import { JsonSchema } from './json-schema.js';
+import { toCsv, toRecords } from './records.js';
+import { generateChatId, sleep } from '../utils/index.js';
+
+/** API key the server uses in mock mode when none is configured */
+export const MOCK_API_KEY = 'mock-api-key';
+
+/** Prompts containing this marker start jobs that fail */
+export const MOCK_FAIL_MARKER = '[fail]';
+
+/** A 1x1 PNG served for every screenshot */
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+);
+
+/** Number of items in generated lists, and of pages in a generated paginated listing */
+const SAMPLE_ITEMS = 3;
+
+/** Largest request body accepted, in bytes */
+const MAX_BODY_SIZE = 1024 * 1024;
+
+export interface MockBackendOptions {
+  /** Interface to listen on (default 127.0.0.1) */
+  host?: string;
+  /** Port to listen on; 0 picks a free one (default 0) */
+  port?: number;
+  /** The only API key accepted; any non-empty key is accepted when unset */
+  apiKey?: string;
+  /** Milliseconds from submission until a job completes (default 1500) */
+  jobDuration?: number;
+  /** Milliseconds added before every response, to simulate a slow network (default 0) */
+  latency?: number;
+}
+
+/**
+ * What a scraped page looks like; pages without one are generated from their URL and the requested schema
+ */
+export interface MockPage {
+  markdown?: string;
+  data?: Record<string, unknown> | unknown[];
+  /** Answer /extract_prompt with the result itself instead of a job ID */
+  immediate?: boolean;
+}
+
+/**
+ * A request received by the backend
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  chatId?: string;
+  format?: string;
+}
+
+interface MockJob {
+  chatId: string;
+  jobId: string;
+  prompt: string;
+  url: string;
+  schema?: JsonSchema;
+  submittedAt: number;
+  /** Error the job fails with once its duration has passed */
+  error?: string;
+}
+
+interface InjectedError {
+  path: string;
+  status: number;
+  remaining: number;
+  retryAfter?: number;
+  body: string;
+}
+
+/**
+ * A local stand-in for the Scraper.is API: /extract_prompt starts jobs that report their stages through
+ * /get_data?format=quick until they complete, /get_data serves the result in every format and /screenshot answers
+ * with a screenshot URL. Content is generated from the URL in the prompt and the requested schema unless a page was
+ * set with setPage. Used by the end-to-end tests and the --mock mode.
+ */
+export class MockScraperBackend {
+  private options: MockBackendOptions;
+  private httpServer: HttpServer;
+  private jobs: Map<string, MockJob> = new Map();
+  private pages: Map<string, MockPage> = new Map();
+  private errors: InjectedError[] = [];
+  private base = '';
+  /** Every request received, oldest first */
+  readonly requests: MockRequest[] = [];
+
+  /**
+   * Creates a new MockScraperBackend
+   * @param options The address, accepted API key, job duration and latency
+   */
+  constructor(options: MockBackendOptions = {}) {
+    this.options = options;
+    this.httpServer = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        if (!res.headersSent) {
+          this.sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+        } else {
+          res.end();
+        }
+      });
+    });
+  }
+
+  /**
+   * The API base URL to point the server at, once listening
+   */
+  get url(): string {
+    return this.base;
+  }
+
+  /**
+   * Starts listening
+   * @returns Promise with the API base URL
+   */
+  listen(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', () => {
+        this.httpServer.off('error', reject);
+        const address = this.httpServer.address() as AddressInfo;
+        const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+        this.base = `http://${host}:${address.port}/api`;
+        resolve(this.base);
+      });
+    });
+  }
+
+  /**
+   * Stops listening and drops open connections
+   */
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.close(error => (error ? reject(error) : resolve()));
+      this.httpServer.closeAllConnections();
+    });
+  }
+
+  /**
+   * Lets the process exit while the backend is still listening, once nothing else keeps it running
+   */
+  unref(): void {
+    this.httpServer.unref();
+  }
+
+  /**
+   * Sets the content scraped from a page, replacing the generated content
+   * @param url The page URL, as it appears in prompts
+   * @param page The markdown and structured data of the page
+   */
+  setPage(url: string, page: MockPage): void {
+    this.pages.set(url, page);
+  }
+
+  /**
+   * Makes the next requests to an endpoint fail
+   * @param path The endpoint, e.g. '/extract_prompt'
+   * @param status The HTTP status to answer with
+   * @param options How many requests fail (default 1), the Retry-After seconds and the error message
+   */
+  failNext(path: string, status: number, options: { times?: number; retryAfter?: number; message?: string } = {}): void {
+    this.errors.push({
+      path,
+      status,
+      remaining: options.times ?? 1,
+      retryAfter: options.retryAfter,
+      body: JSON.stringify({ error: options.message ?? `Mock error ${status}` })
+    });
+  }
+
+  /**
+   * Routes one request
+   * @param req The request
+   * @param res The response
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const path = url.pathname.replace(/^\/api(?=\/)/, '');
+    const body = req.method === 'POST' ? await this.readBody(req) : undefined;
+    this.requests.push({
+      method: req.method ?? 'GET',
+      path,
+      chatId: url.searchParams.get('chat_id') ?? (typeof body?.chat_id === 'string' ? body.chat_id : undefined),
+      format: url.searchParams.get('format') ?? undefined
+    });
+
+    if (this.options.latency) {
+      await sleep(this.options.latency);
+    }
+
+    // Screenshot downloads stand in for signed storage URLs and need no key
+    const file = path.match(/^\/files\/([\w-]+)\.png$/);
+    if (file && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': PIXEL_PNG.length });
+      res.end(PIXEL_PNG);
+      return;
+    }
+
+    const injected = this.errors.find(error => error.path === path && error.remaining > 0);
+    if (injected) {
+      injected.remaining--;
+      res.writeHead(injected.status, {
+        'Content-Type': 'application/json',
+        ...(injected.retryAfter !== undefined && { 'Retry-After': String(injected.retryAfter) })
+      });
+      res.end(injected.body);
+      return;
+    }
+
+    const apiKey = req.headers['x-api-key'] ?? url.searchParams.get('api_key');
+    if (!apiKey || (this.options.apiKey && apiKey !== this.options.apiKey)) {
+      this.sendJson(res, 401, { error: 'Invalid API key' });
+      return;
+    }
+
+    if (path === '/extract_prompt' && req.method === 'POST') {
+      this.startJob(res, body);
+    } else if (path === '/get_data' && req.method === 'GET') {
+      this.getData(res, url.searchParams.get('chat_id'), url.searchParams.get('format') ?? 'json');
+    } else if (path === '/screenshot' && req.method === 'POST') {
+      this.takeScreenshot(res, body);
+    } else {
+      this.sendJson(res, 404, { error: 'Not found' });
+    }
+  }
+
+  /**
+   * Starts a job for /extract_prompt
+   * @param res The response
+   * @param body The request body
+   */
+  private startJob(res: ServerResponse, body?: Record<string, unknown>): void {
+    const prompt = body?.prompt;
+    const chatId = body?.chat_id;
+    if (typeof prompt !== 'string' || !prompt.trim() || typeof chatId !== 'string' || !chatId) {
+      this.sendJson(res, 400, { error: 'prompt and chat_id are required' });
+      return;
+    }
+
+    const job: MockJob = {
+      chatId,
+      jobId: `job_${generateChatId()}`,
+      prompt,
+      url: promptUrl(prompt),
+      schema: typeof body?.schema === 'object' && body.schema !== null ? body.schema as JsonSchema : undefined,
+      submittedAt: Date.now(),
+      error: prompt.toLowerCase().includes(MOCK_FAIL_MARKER) ? 'The page could not be scraped (mock failure)' : undefined
+    };
+    if (this.pages.get(job.url)?.immediate && !job.error) {
+      const { markdown, data } = this.page(job);
+      this.sendJson(res, 200, { chat_id: chatId, status: 'completed', url: job.url, markdown, data });
+      return;
+    }
+    this.jobs.set(chatId, job);
+    this.sendJson(res, 200, { job_id: job.jobId, chat_id: chatId, status: 'queued' });
+  }
+
+  /**
+   * Answers /get_data: the status while a job runs, then its result in the requested format
+   * @param res The response
+   * @param chatId The chat ID of the job
+   * @param format The requested format
+   */
+  private getData(res: ServerResponse, chatId: string | null, format: string): void {
+    if (!chatId) {
+      this.sendJson(res, 400, { error: 'Missing chat_id' });
+      return;
+    }
+    const job = this.jobs.get(chatId);
+    if (!job) {
+      this.sendJson(res, 404, { error: 'Scraper not found' });
+      return;
+    }
+
+    const elapsed = Date.now() - job.submittedAt;
+    const duration = this.options.jobDuration ?? 1500;
+    if (elapsed < duration) {
+      if (format !== 'quick') {
+        this.sendJson(res, 404, { error: 'No data found' });
+        return;
+      }
+      const share = elapsed / Math.max(duration, 1);
+      const stage = share < 0.2 ? 'queued' : share < 0.5 ? 'loading' : share < 0.85 ? 'extracting' : 'rendering';
+      this.sendJson(res, 200, { status: 'processing', processing: true, stage, chat_id: chatId, job_id: job.jobId });
+      return;
+    }
+
+    if (job.error) {
+      this.sendJson(res, 200, { status: 'failed', error: job.error, chat_id: chatId, job_id: job.jobId });
+      return;
+    }
+
+    const page = this.page(job);
+    const screenshot = { url: `${this.origin}/files/${encodeURIComponent(chatId)}.png` };
+    switch (format) {
+    case 'quick':
+      this.sendJson(res, 200, {
+        markdown: page.markdown,
+        screenshot,
+        status: 'completed',
+        chat_id: chatId,
+        job_id: job.jobId,
+        url: job.url,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    case 'md':
+      this.send(res, 200, 'text/markdown; charset=utf-8', page.markdown ?? '');
+      return;
+    case 'csv':
+      this.send(res, 200, 'text/csv; charset=utf-8', toCsv(toRecords(page.data)));
+      return;
+    case 'xml':
+      this.send(res, 200, 'application/xml; charset=utf-8', `<?xml version="1.0"?>\n${toXml('result', page.data)}`);
+      return;
+    case 'screenshot':
+      res.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': PIXEL_PNG.length });
+      res.end(PIXEL_PNG);
+      return;
+    default:
+      this.sendJson(res, 200, page.data ?? {});
+    }
+  }
+
+  /**
+   * Answers /screenshot with the URL of a screenshot
+   * @param res The response
+   * @param body The request body
+   */
+  private takeScreenshot(res: ServerResponse, body?: Record<string, unknown>): void {
+    if (typeof body?.url !== 'string' || typeof body.chat_id !== 'string') {
+      this.sendJson(res, 400, { error: 'url and chat_id are required' });
+      return;
+    }
+    this.sendJson(res, 200, {
+      chat_id: body.chat_id,
+      status: 'completed',
+      screenshot: { url: `${this.origin}/files/${encodeURIComponent(body.chat_id)}.png` }
+    });
+  }
+
+  /**
+   * Gets the content of a job's page: the page set for its URL, or content generated from the URL and schema
+   * @param job The job
+   * @returns The markdown and structured data
+   */
+  private page(job: MockJob): MockPage {
+    const page = this.pages.get(job.url) ?? {};
+    const url = new URL(job.url);
+    const items = Array.from({ length: SAMPLE_ITEMS }, (_, index) => ({
+      name: `Item ${index + 1}`,
+      price: 10 * (index + 1) + 0.99,
+      url: new URL(`/items/${index + 1}`, url).href
+    }));
+    const markdown = page.markdown ?? [
+      `# ${url.hostname}${url.pathname === '/' ? '' : url.pathname}`,
+      '',
+      `Mock content for: ${job.prompt}`,
+      '',
+      '## Items',
+      '',
+      ...items.map(item => `- [${item.name}](${item.url}): $${item.price}`),
+      '',
+      ...(pageNumber(url) < SAMPLE_ITEMS ? [`[Next page](${nextPageUrl(url)})`, ''] : [])
+    ].join('\n');
+
+    const data = page.data ?? (job.schema ? sampleValue(job.schema, '', 0, url, markdown) : { items }) as MockPage['data'];
+    return { markdown, data };
+  }
+
+  /**
+   * The scheme, host and port the backend listens on
+   */
+  private get origin(): string {
+    return new URL(this.base).origin;
+  }
+
+  /**
+   * Reads a JSON request body
+   * @param req The request
+   * @returns Promise with the parsed body, or undefined if it is not a JSON object
+   */
+  private async readBody(req: IncomingMessage): Promise<Record<string, unknown> | undefined> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_BODY_SIZE) {
+        return undefined;
+      }
+      chunks.push(chunk as Buffer);
+    }
+    try {
+      const parsed = JSON.parse(Buffer.concat(chunks).toString('utf8')) as unknown;
+      return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed as Record<string, unknown> : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Sends a JSON response
+   * @param res The response
+   * @param status The HTTP status
+   * @param body The body
+   */
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    this.send(res, status, 'application/json', JSON.stringify(body));
+  }
+
+  /**
+   * Sends a text response
+   * @param res The response
+   * @param status The HTTP status
+   * @param contentType The Content-Type
+   * @param body The body
+   */
+  private send(res: ServerResponse, status: number, contentType: string, body: string): void {
+    res.writeHead(status, { 'Content-Type': contentType, 'Content-Length': Buffer.byteLength(body) });
+    res.end(body);
+  }
+}
+
+/**
+ * Finds the page a prompt is about
+ * @param prompt The prompt
+ * @returns The first http(s) URL in the prompt, or https://example.com/
+ */
+function promptUrl(prompt: string): string {
+  const match = prompt.match(/https?:\/\/[^\s"'<>)]+/);
+  try {
+    return new URL(match?.[0].replace(/[.,;:!?]+$/, '') ?? 'https://example.com/').href;
+  } catch {
+    return 'https://example.com/';
+  }
+}
+
+/**
+ * Gets the page number of a listing URL
+ * @param url The URL
+ * @returns The page query parameter, or 1
+ */
+function pageNumber(url: URL): number {
+  return Number(url.searchParams.get('page')) || 1;
+}
+
+/**
+ * Builds the URL of the next page of a listing
+ * @param url The URL
+ * @returns The URL with the page query parameter increased
+ */
+function nextPageUrl(url: URL): string {
+  const next = new URL(url.href);
+  next.searchParams.set('page', String(pageNumber(url) + 1));
+  return next.href;
+}
+
+/**
+ * Generates a plausible value for a JSON Schema, guided by the property names: URLs and links point into the
+ * scraped site, next_page continues a listing of a few pages and content is the page's markdown
+ * @param schema The schema
+ * @param key The name of the property
+ * @param index The position in the enclosing list
+ * @param url The scraped page
+ * @param markdown The page's markdown
+ * @returns The value
+ */
+function sampleValue(schema: JsonSchema, key: string, index: number, url: URL, markdown: string): unknown {
+  if ('const' in schema) {
+    return schema.const;
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length) {
+    return schema.enum[index % schema.enum.length];
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string | undefined];
+  const name = key.toLowerCase();
+  if (name === 'next_page' || name === 'nextpage') {
+    return pageNumber(url) < SAMPLE_ITEMS ? nextPageUrl(url) : (types.includes('null') ? null : '');
+  }
+  const type = types.find(candidate => candidate && candidate !== 'null') ??
+    (schema.properties ? 'object' : schema.items ? 'array' : 'string');
+
+  switch (type) {
+  case 'object': {
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    return Object.fromEntries(
+      Object.entries(properties).map(([property, child]) => [property, sampleValue(child, property, index, url, markdown)])
+    );
+  }
+  case 'array': {
+    const items = (schema.items ?? {}) as JsonSchema;
+    const count = Math.max(typeof schema.minItems === 'number' ? schema.minItems : 0, SAMPLE_ITEMS);
+    // Items of a list are named after the list, so a list of links holds URLs
+    return Array.from({ length: count }, (_, at) => sampleValue(items, key, at, url, markdown));
+  }
+  case 'integer':
+    return index + 1;
+  case 'number':
+    return /price|cost|amount/.test(name) ? 10 * (index + 1) + 0.99 : (index + 1) * 1.5;
+  case 'boolean':
+    return index % 2 === 0;
+  default:
+    if (/url|link|href/.test(name) || schema.format === 'uri') {
+      return new URL(`/items/${index + 1}`, url).href;
+    }
+    if (name === 'content' || name === 'markdown') {
+      return markdown;
+    }
+    if (schema.format === 'date-time' || /date|time/.test(name)) {
+      return new Date(Date.UTC(2026, 0, index + 1)).toISOString();
+    }
+    return `${key ? key.replace(/[_-]+/g, ' ').replace(/^./, first => first.toUpperCase()) : 'Value'} ${index + 1}`;
+  }
+}
+
+/**
+ * Serializes a value as XML, with list items as item elements
+ * @param tag The element name
+ * @param value The value
+ * @returns The XML
+ */
+function toXml(tag: string, value: unknown): string {
+  const name = /^[A-Za-z_][\w.-]*$/.test(tag) ? tag : 'field';
+  if (Array.isArray(value)) {
+    return `<${name}>${value.map(item => toXml('item', item)).join('')}</${name}>`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return `<${name}>${Object.entries(value).map(([key, child]) => toXml(key, child)).join('')}</${name}>`;
+  }
+  const text = value === undefined || value === null ? '' : String(value);
+  return `<${name}>${text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</${name}>`;
+}
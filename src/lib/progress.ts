@@ -0,0 +1,199 @@
+import { ProgressCallback, ScrapeFormat, ScraperResponse } from '../types/index.js';
+
+/**
+ * The stages a Scraper.is job goes through; 'processing' stands for a running job that does not say
+ * which stage it is in
+ */
+export type JobStage = 'queued' | 'processing' | 'loading' | 'extracting' | 'rendering';
+
+interface StageInfo {
+  /** Progress when the stage starts, out of 100 */
+  from: number;
+  /** Progress when the stage ends, out of 100 */
+  to: number;
+  label: string;
+  /** Duration in milliseconds assumed until the stage has been timed */
+  typical: number;
+}
+
+const STAGES: Record<JobStage, StageInfo> = {
+  queued: { from: 0, to: 10, label: 'Queued at Scraper.is', typical: 5000 },
+  processing: { from: 10, to: 95, label: 'Scraping', typical: 30000 },
+  loading: { from: 10, to: 40, label: 'Loading the page', typical: 10000 },
+  extracting: { from: 40, to: 80, label: 'Extracting the requested data', typical: 15000 },
+  rendering: { from: 80, to: 95, label: 'Rendering the result', typical: 5000 }
+};
+
+/**
+ * Status and stage names reported by /get_data, matched against the lowercased name
+ */
+const STAGE_PATTERNS: Array<[RegExp, JobStage]> = [
+  [/queue|pending|waiting|submitted/, 'queued'],
+  [/load|navigat|fetch|crawl|open/, 'loading'],
+  [/extract|pars|analy/, 'extracting'],
+  // A job reported completed before its result is stored is still finishing
+  [/render|format|generat|complet/, 'rendering']
+];
+
+/**
+ * Derives the stage of a running job from its quick status payload
+ * @param data The status payload, absent while the job has no record yet
+ * @returns The stage
+ */
+export function jobStage(data: ScraperResponse | undefined): JobStage {
+  if (!data) {
+    return 'queued';
+  }
+  const name = (data.stage ?? data.status ?? '').toLowerCase();
+  return STAGE_PATTERNS.find(([pattern]) => pattern.test(name))?.[1] ?? 'processing';
+}
+
+/**
+ * Formats a duration for a progress message
+ * @param ms The duration in milliseconds
+ * @returns The duration in seconds, or in minutes past 90 seconds
+ */
+function formatDuration(ms: number): string {
+  return ms > 90000 ? `${Math.round(ms / 60000)} min` : `${Math.max(1, Math.ceil(ms / 1000))}s`;
+}
+
+/**
+ * Remembers how long the stages of recent jobs took, by format, to estimate how long running jobs will take
+ */
+export class JobTimings {
+  private samples: Map<string, number[]> = new Map();
+  private limit: number;
+
+  /**
+   * Creates a new JobTimings
+   * @param limit Number of recent durations kept per format and stage
+   */
+  constructor(limit: number = 20) {
+    this.limit = limit;
+  }
+
+  /**
+   * Records how long a stage of a finished job took
+   * @param format The format of the job
+   * @param stage The stage
+   * @param durationMs The duration in milliseconds
+   */
+  record(format: ScrapeFormat, stage: JobStage, durationMs: number): void {
+    const key = `${format}:${stage}`;
+    const samples = [...(this.samples.get(key) ?? []), durationMs].slice(-this.limit);
+    this.samples.set(key, samples);
+  }
+
+  /**
+   * Average duration of a stage in recent jobs
+   * @param format The format of the job
+   * @param stage The stage
+   * @returns The duration in milliseconds, or undefined if no job of the format has been timed in the stage
+   */
+  expected(format: ScrapeFormat, stage: JobStage): number | undefined {
+    const samples = this.samples.get(`${format}:${stage}`);
+    return samples?.length ? samples.reduce((sum, sample) => sum + sample, 0) / samples.length : undefined;
+  }
+}
+
+/**
+ * Turns the status polls of one job into progress updates: each stage covers a share of the progress, which
+ * fills up as the time usually spent in the stage passes
+ */
+export class JobProgress {
+  private format: ScrapeFormat;
+  private timings: JobTimings;
+  private onProgress?: ProgressCallback;
+  private submittedAt?: number;
+  private stage?: JobStage;
+  private stageStartedAt = 0;
+  /** Whether the current stage was seen starting, so its duration can be timed */
+  private stageTimed = false;
+  private finished: Array<[JobStage, number]> = [];
+  private reported = 0;
+
+  /**
+   * Creates a new JobProgress
+   * @param format The format of the job
+   * @param timings Durations of earlier jobs, which learn the durations of this one once it completes
+   * @param onProgress Optional callback for progress updates
+   * @param submittedAt When the job was submitted, if it was submitted by this call
+   */
+  constructor(format: ScrapeFormat, timings: JobTimings, onProgress?: ProgressCallback, submittedAt?: number) {
+    this.format = format;
+    this.timings = timings;
+    this.onProgress = onProgress;
+    this.submittedAt = submittedAt;
+  }
+
+  /**
+   * Reports the progress of a running job
+   * @param data The status payload of the latest poll, absent while the job has no record yet
+   */
+  async update(data: ScraperResponse | undefined): Promise<void> {
+    const now = Date.now();
+    const stage = jobStage(data);
+
+    // A stage reported out of order does not move the job backwards
+    if (stage !== this.stage && (!this.stage || STAGES[stage].from >= STAGES[this.stage].from)) {
+      if (this.stage && this.stageTimed) {
+        this.finished.push([this.stage, now - this.stageStartedAt]);
+      }
+      this.stageTimed = this.stage !== undefined || this.submittedAt !== undefined;
+      this.stageStartedAt = this.stage ? now : this.submittedAt ?? now;
+      this.stage = stage;
+    }
+
+    if (!this.onProgress || !this.stage) {
+      return;
+    }
+    const info = STAGES[this.stage];
+    const elapsed = now - this.stageStartedAt;
+    const history = this.timings.expected(this.format, this.stage);
+    const expected = history ?? info.typical;
+    // Fill 90% of the stage in the expected time, then slow down so the next stage is never reached
+    const fraction = elapsed < expected ? 0.9 * (elapsed / expected) : 1 - 0.1 * (expected / elapsed);
+    this.reported = Math.max(this.reported, Math.round((info.from + (info.to - info.from) * fraction) * 10) / 10);
+
+    await this.onProgress(this.reported, `${info.label} (${this.estimate(elapsed, history)})`);
+  }
+
+  /**
+   * Reports a completed job and learns the durations of its stages
+   */
+  async complete(): Promise<void> {
+    if (this.stage && this.stageTimed) {
+      this.finished.push([this.stage, Date.now() - this.stageStartedAt]);
+      this.stageTimed = false;
+    }
+    for (const [stage, duration] of this.finished) {
+      this.timings.record(this.format, stage, duration);
+    }
+    this.finished = [];
+
+    if (this.onProgress) {
+      await this.onProgress(100, 'Scrape completed');
+    }
+  }
+
+  /**
+   * Describes the time the job still needs, from the durations of earlier jobs of the same format
+   * @param elapsed Time spent in the current stage so far
+   * @param history Average duration of the current stage, if it has been timed before
+   * @returns The estimate, or the time spent so far if there is no history yet
+   */
+  private estimate(elapsed: number, history: number | undefined): string {
+    if (history === undefined || !this.stage) {
+      return `${formatDuration(elapsed)} elapsed`;
+    }
+    if (elapsed > history) {
+      return 'taking longer than usual';
+    }
+    // Later stages count if earlier jobs of the format went through them
+    const end = STAGES[this.stage].to;
+    const later = (Object.keys(STAGES) as JobStage[])
+      .filter(stage => STAGES[stage].from >= end)
+      .reduce((sum, stage) => sum + (this.timings.expected(this.format, stage) ?? 0), 0);
+    return `about ${formatDuration(history - elapsed + later)} left`;
+  }
+}
@@ -0,0 +1,248 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+
+import { PromptArgument, PromptTemplate, PromptTemplateInput, PromptTemplateSchema } from '../types/index.js';
+
+/** File extensions loaded from a template directory */
+const TEMPLATE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * Built-in templates for common scraping tasks
+ */
+export const BUILTIN_PROMPTS: PromptTemplateInput[] = [
+  {
+    name: 'extract_products',
+    description: 'Extract the product listing of a shop or category page as structured data',
+    arguments: [
+      { name: 'url', description: 'The page listing the products', type: 'url', required: true },
+      { name: 'fields', description: 'Fields to extract for each product', type: 'list', default: 'name, price, url' },
+      { name: 'limit', description: 'Maximum number of products to extract' }
+    ],
+    format: 'json',
+    prompt: 'Extract {{#limit}}the first {{limit}} {{/limit}}products listed on {{url}}. ' +
+      'For each product return {{fields}}. Use null for missing values.'
+  },
+  {
+    name: 'summarize_article',
+    description: 'Scrape an article and summarize it',
+    arguments: [
+      { name: 'url', description: 'The article to summarize', type: 'url', required: true },
+      { name: 'focus', description: 'Aspect the summary should concentrate on' }
+    ],
+    format: 'markdown',
+    prompt: 'Get the title, author, publication date and full text of the article at {{url}}',
+    instructions: 'Summarize the article in a short paragraph followed by its key points as bullets' +
+      '{{#focus}}, concentrating on {{focus}}{{/focus}}. Mention the title, author and date.'
+  },
+  {
+    name: 'collect_contacts',
+    description: 'Collect the contact information published on a website',
+    arguments: [
+      { name: 'url', description: 'The website or contact page', type: 'url', required: true },
+      {
+        name: 'fields',
+        description: 'Kinds of contact information to collect',
+        type: 'list',
+        default: 'email addresses, phone numbers, postal addresses, social media profiles'
+      }
+    ],
+    format: 'json',
+    prompt: 'Collect the {{fields}} published on {{url}} and its contact or about pages. ' +
+      'Include the name or department each entry belongs to when it is given.'
+  },
+  {
+    name: 'compare_pricing',
+    description: 'Compare the pricing plans of several products',
+    arguments: [
+      { name: 'urls', description: 'The pricing pages to compare', type: 'url_list', required: true },
+      {
+        name: 'fields',
+        description: 'Fields to extract for each plan',
+        type: 'list',
+        default: 'plan name, monthly price, annual price, currency, included features, limits'
+      }
+    ],
+    tool: 'scrape_batch',
+    format: 'json',
+    prompt: 'Extract every pricing plan with its {{fields}}',
+    instructions: 'Compare the plans side by side in a markdown table and point out the cheapest option for typical use.'
+  }
+];
+
+export interface RenderedPrompt {
+  description: string;
+  /** The user message asking the assistant to run the scrape */
+  text: string;
+}
+
+/**
+ * A set of prompt templates that expand into well-formed scrape tool calls
+ */
+export class PromptLibrary {
+  private templates: Map<string, PromptTemplate> = new Map();
+
+  /**
+   * Creates a new PromptLibrary
+   * @param templates The templates, later ones replacing earlier ones with the same name
+   */
+  constructor(templates: PromptTemplateInput[] = BUILTIN_PROMPTS) {
+    for (const template of templates) {
+      this.add(template);
+    }
+  }
+
+  /**
+   * Creates a library of the built-in templates plus the templates in a directory
+   * @param dir Directory of .json, .yaml or .yml files, each holding one template or a list; a missing directory is ignored
+   * @param onInvalid Called for every file that cannot be loaded, which is then skipped
+   * @returns Promise with the library
+   */
+  static async load(dir: string, onInvalid?: (file: string, error: Error) => void): Promise<PromptLibrary> {
+    const library = new PromptLibrary();
+
+    let files: string[];
+    try {
+      files = (await readdir(dir)).filter(file => TEMPLATE_EXTENSIONS.includes(extname(file).toLowerCase())).sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return library;
+      }
+      throw error;
+    }
+
+    for (const file of files) {
+      try {
+        const raw = await readFile(join(dir, file), 'utf8');
+        const parsed: unknown = extname(file).toLowerCase() === '.json' ? JSON.parse(raw) : parseYaml(raw);
+        for (const template of Array.isArray(parsed) ? parsed : [parsed]) {
+          library.add(template);
+        }
+      } catch (error) {
+        onInvalid?.(file, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+    return library;
+  }
+
+  /**
+   * Validates and adds a template, replacing any template with the same name
+   * @param template The template
+   * @throws Error if the template is invalid
+   */
+  add(template: unknown): void {
+    const parsed = PromptTemplateSchema.safeParse(template);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'template'}: ${issue.message}`);
+      throw new Error(`Invalid prompt template: ${issues.join('; ')}`);
+    }
+    this.templates.set(parsed.data.name, parsed.data);
+  }
+
+  /**
+   * Lists the templates by name
+   * @returns The templates
+   */
+  list(): PromptTemplate[] {
+    return [...this.templates.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Gets a template by name
+   * @param name The template name
+   * @returns The template, or undefined if it is unknown
+   */
+  get(name: string): PromptTemplate | undefined {
+    return this.templates.get(name);
+  }
+
+  /**
+   * Expands a template into a message asking the assistant to call the scrape tool
+   * @param name The template name
+   * @param args The argument values
+   * @returns The rendered prompt
+   * @throws Error if the template is unknown or an argument is missing or invalid
+   */
+  render(name: string, args: Record<string, string> = {}): RenderedPrompt {
+    const template = this.templates.get(name);
+    if (!template) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const values: Record<string, string> = {};
+    let urls: string[] = [];
+    for (const argument of template.arguments) {
+      const raw = (args[argument.name] ?? '').trim() || argument.default;
+      if (!raw) {
+        if (argument.required) {
+          throw new Error(`Missing required argument: ${argument.name}`);
+        }
+        continue;
+      }
+      values[argument.name] = formatArgument(argument, raw);
+      if (argument.type === 'url_list' && argument.name === 'urls') {
+        urls = splitList(raw);
+      }
+    }
+
+    const prompt = expand(template.prompt, values);
+    const toolArguments = template.tool === 'scrape_batch'
+      ? { urls, instruction: prompt, format: template.format }
+      : { prompt, format: template.format };
+    const instructions = template.instructions ? expand(template.instructions, values) : undefined;
+
+    return {
+      description: template.description,
+      text: `Call the ${template.tool} tool with these arguments:\n` +
+        '```json\n' + JSON.stringify(toolArguments, null, 2) + '\n```' +
+        (instructions ? `\nThen: ${instructions}` : '')
+    };
+  }
+}
+
+/**
+ * Validates an argument value and formats it for the prompt text
+ * @param argument The argument definition
+ * @param raw The raw value
+ * @returns The formatted value
+ * @throws Error if a URL is invalid
+ */
+function formatArgument(argument: PromptArgument, raw: string): string {
+  if (argument.type === 'url' || argument.type === 'url_list') {
+    const urls = argument.type === 'url' ? [raw] : splitList(raw);
+    for (const url of urls) {
+      if (!/^https?:\/\/[^\s/$.?#][^\s]*$/i.test(url)) {
+        throw new Error(`Argument ${argument.name} must be an http(s) URL, got: ${url}`);
+      }
+    }
+    return urls.join(', ');
+  }
+  if (argument.type === 'list') {
+    const items = splitList(raw);
+    return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items.join('');
+  }
+  return raw;
+}
+
+/**
+ * Splits a comma or newline separated list
+ * @param raw The list
+ * @returns The trimmed, non-empty items
+ */
+function splitList(raw: string): string[] {
+  return raw.split(/[,\n]/).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Fills in {{name}} placeholders and keeps {{#name}}...{{/name}} sections only when the argument has a value
+ * @param text The template text
+ * @param values The formatted argument values
+ * @returns The expanded text
+ */
+function expand(text: string, values: Record<string, string>): string {
+  return text
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, section: string) => (values[name] ? section : ''))
+    .replace(/\{\{(\w+)\}\}/g, (_, name: string) => values[name] ?? '')
+    .replace(/ {2,}/g, ' ')
+    .trim();
+}
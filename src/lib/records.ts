@@ -0,0 +1,183 @@
+/**
+ * Helpers for turning scraped structured data into flat tabular records
+ */
+
+export type FlatRecord = Record<string, string | number | boolean | null>;
+
+/**
+ * Normalizes scraped data into a list of records
+ * @param data The scraped data: an array of records, a single record, or an object wrapping one array
+ * @returns The records
+ */
+export function toRecords(data: unknown): Record<string, unknown>[] {
+  if (Array.isArray(data)) {
+    return data.map(item => (isPlainObject(item) ? item : { value: item }));
+  }
+  if (!isPlainObject(data)) {
+    return data === undefined || data === null ? [] : [{ value: data }];
+  }
+  
+  // Unwrap payloads like { products: [...] } that hold a single list of records
+  const values = Object.values(data);
+  if (values.length === 1 && Array.isArray(values[0])) {
+    return toRecords(values[0]);
+  }
+  return [data];
+}
+
+/**
+ * Flattens a nested record into dotted column names, e.g. { price: { amount: 1 } } to { 'price.amount': 1 }
+ * @param record The record to flatten
+ * @param prefix The column prefix for nested values
+ * @returns The flat record; arrays of primitives are joined with '; ', other arrays are JSON-encoded
+ */
+export function flattenRecord(record: Record<string, unknown>, prefix: string = ''): FlatRecord {
+  const flat: FlatRecord = {};
+  
+  for (const [key, value] of Object.entries(record)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+    
+    if (isPlainObject(value)) {
+      Object.assign(flat, flattenRecord(value, column));
+    } else if (Array.isArray(value)) {
+      flat[column] = value.every(item => !isPlainObject(item) && !Array.isArray(item))
+        ? value.map(item => String(item)).join('; ')
+        : JSON.stringify(value);
+    } else if (value === undefined || value === null) {
+      flat[column] = null;
+    } else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      flat[column] = value;
+    } else {
+      flat[column] = String(value);
+    }
+  }
+  
+  return flat;
+}
+
+/**
+ * Collects the union of columns over flat records, in first-seen order
+ * @param records The flat records
+ * @returns The column names
+ */
+export function columnsOf(records: FlatRecord[]): string[] {
+  const columns = new Set<string>();
+  for (const record of records) {
+    Object.keys(record).forEach(column => columns.add(column));
+  }
+  return [...columns];
+}
+
+/**
+ * Serializes records as CSV (RFC 4180), flattening nested objects into columns
+ * @param records The records to serialize
+ * @returns The CSV text, with a header row
+ */
+export function toCsv(records: Record<string, unknown>[]): string {
+  const flat = records.map(record => flattenRecord(record));
+  const columns = columnsOf(flat);
+  const lines = [
+    columns.map(escapeCsv).join(','),
+    ...flat.map(record => columns.map(column => escapeCsv(record[column])).join(','))
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parses CSV text (RFC 4180) into records keyed by the header row
+ * @param text The CSV text
+ * @returns The records; fields missing from short rows are left out
+ */
+export function fromCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let at = 0; at < text.length; at++) {
+    const char = text[at];
+    if (quoted) {
+      if (char === '"' && text[at + 1] === '"') {
+        field += '"';
+        at++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[at + 1] === '\n') {
+        at++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header = [], ...body] = rows.filter(cells => cells.some(Boolean));
+  return body.map(cells => Object.fromEntries(cells.slice(0, header.length).map((cell, index) => [header[index], cell])));
+}
+
+/**
+ * Serializes records as a markdown table, flattening nested objects into columns like toCsv
+ * @param records The records to serialize
+ * @returns The table, with a header row
+ */
+export function toMarkdownTable(records: Record<string, unknown>[]): string {
+  const flat = records.map(record => flattenRecord(record));
+  const columns = columnsOf(flat);
+  const row = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  const lines = [
+    row(columns.map(escapeMarkdownCell)),
+    row(columns.map(() => '---')),
+    ...flat.map(record => row(columns.map(column => escapeMarkdownCell(record[column]))))
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Escapes a single markdown table cell, which must stay on one line
+ * @param value The cell value
+ * @returns The escaped cell
+ */
+function escapeMarkdownCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Escapes a single CSV field
+ * @param value The field value
+ * @returns The escaped field
+ */
+function escapeCsv(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Whether a value is a plain (non-array) object
+ * @param value The value to check
+ * @returns True for plain objects
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,199 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ScrapeFormat, ScraperResponse } from '../types/index.js';
+
+export interface CacheEntry {
+  key: string;
+  /** Owner of the API key the result was scraped with; only that owner gets it back */
+  owner: string;
+  prompt: string;
+  format: ScrapeFormat;
+  /** Epoch milliseconds when the entry was written */
+  storedAt: number;
+  response: ScraperResponse;
+}
+
+export interface CacheEntrySummary {
+  key: string;
+  prompt: string;
+  format: ScrapeFormat;
+  storedAt: number;
+  size: number;
+}
+
+/**
+ * File-based cache of scrape results, one JSON file per owner, normalized prompt and format
+ */
+export class ResultCache {
+  private dir: string;
+  private ttl: number;
+
+  /**
+   * Creates a new ResultCache
+   * @param dir The directory holding the cache files
+   * @param ttl Default maximum age in milliseconds of entries returned by get
+   */
+  constructor(dir: string, ttl: number = 60 * 60 * 1000) {
+    this.dir = dir;
+    this.ttl = ttl;
+  }
+
+  /**
+   * Computes the cache key of a prompt and format
+   * @param owner The owner of the API key, so tenants never share results
+   * @param prompt The scrape prompt; case and whitespace are ignored
+   * @param format The scrape format
+   * @param variant Optional extra input that changes the result, such as an output schema
+   * @returns The cache key
+   */
+  static key(owner: string, prompt: string, format: ScrapeFormat, variant?: string): string {
+    const normalized = prompt.trim().replace(/\s+/g, ' ').toLowerCase();
+    const input = `${owner}\n${format}\n${normalized}${variant ? `\n${variant}` : ''}`;
+    return createHash('sha256').update(input).digest('hex').substring(0, 32);
+  }
+
+  /**
+   * Looks up a fresh cached result
+   * @param owner The owner of the API key asking for it
+   * @param prompt The scrape prompt
+   * @param format The scrape format
+   * @param maxAge Maximum age in milliseconds, defaulting to the cache TTL
+   * @param variant Optional extra input that changes the result
+   * @returns Promise with the entry, or undefined on a miss or if the entry is too old
+   */
+  async get(
+    owner: string,
+    prompt: string,
+    format: ScrapeFormat,
+    maxAge: number = this.ttl,
+    variant?: string
+  ): Promise<CacheEntry | undefined> {
+    const entry = await this.read(ResultCache.key(owner, prompt, format, variant));
+    if (!entry || entry.owner !== owner || Date.now() - entry.storedAt > maxAge) {
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * Stores a result, replacing any previous entry of the owner for the same prompt and format
+   * @param owner The owner of the API key the result was scraped with
+   * @param prompt The scrape prompt
+   * @param format The scrape format
+   * @param response The result to store
+   * @param variant Optional extra input that changes the result
+   * @returns Promise with the stored entry
+   */
+  async set(
+    owner: string,
+    prompt: string,
+    format: ScrapeFormat,
+    response: ScraperResponse,
+    variant?: string
+  ): Promise<CacheEntry> {
+    const entry: CacheEntry = {
+      key: ResultCache.key(owner, prompt, format, variant),
+      owner,
+      prompt,
+      format,
+      storedAt: Date.now(),
+      response
+    };
+    await mkdir(this.dir, { recursive: true });
+    
+    // Write to a temporary file first so readers never see a partial entry
+    const file = this.file(entry.key);
+    const tmp = `${file}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(entry), 'utf8');
+    await rename(tmp, file);
+    return entry;
+  }
+
+  /**
+   * Lists the cache entries of an owner, newest first
+   * @param owner The owner of the API key
+   * @returns Promise with summaries of the entries
+   */
+  async list(owner: string): Promise<CacheEntrySummary[]> {
+    const summaries: CacheEntrySummary[] = [];
+    
+    for (const key of await this.keys()) {
+      const entry = await this.read(key);
+      if (entry?.owner === owner) {
+        const { size } = await stat(this.file(key));
+        summaries.push({ key, prompt: entry.prompt, format: entry.format, storedAt: entry.storedAt, size });
+      }
+    }
+    return summaries.sort((a, b) => b.storedAt - a.storedAt);
+  }
+
+  /**
+   * Deletes cache entries of an owner
+   * @param owner The owner of the API key; entries of other owners are never deleted
+   * @param key The entry to delete; all of the owner's entries are deleted if omitted
+   * @param olderThan Only delete entries older than this many milliseconds
+   * @returns Promise with the number of deleted entries
+   */
+  async purge(owner: string, key?: string, olderThan?: number): Promise<number> {
+    let deleted = 0;
+    
+    for (const candidate of key ? [key] : await this.keys()) {
+      const entry = await this.read(candidate);
+      if (!entry || entry.owner !== owner || (olderThan !== undefined && Date.now() - entry.storedAt <= olderThan)) {
+        continue;
+      }
+      await rm(this.file(candidate), { force: true });
+      deleted++;
+    }
+    return deleted;
+  }
+
+  /**
+   * Reads an entry, discarding files that cannot be parsed
+   * @param key The cache key
+   * @returns Promise with the entry, or undefined if it does not exist
+   */
+  private async read(key: string): Promise<CacheEntry | undefined> {
+    if (!/^[a-f0-9]+$/.test(key)) {
+      return undefined;
+    }
+    
+    let contents: string;
+    try {
+      contents = await readFile(this.file(key), 'utf8');
+    } catch {
+      return undefined;
+    }
+    
+    try {
+      return JSON.parse(contents) as CacheEntry;
+    } catch {
+      await rm(this.file(key), { force: true });
+      return undefined;
+    }
+  }
+
+  /**
+   * Lists the keys of all cache files
+   * @returns Promise with the keys
+   */
+  private async keys(): Promise<string[]> {
+    try {
+      return (await readdir(this.dir))
+        .filter(name => /^[a-f0-9]+\.json$/.test(name))
+        .map(name => name.replace(/\.json$/, ''));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Gets the file path of an entry
+   * @param key The cache key
+   * @returns The file path
+   */
+  private file(key: string): string {
+    return join(this.dir, `${key}.json`);
+  }
+}
@@ -0,0 +1,195 @@
+import { anySignal, isRedirect } from '../utils/index.js';
+import { ScraperAbortedError } from './errors.js';
+import { UrlPolicy } from './url-policy.js';
+
+/**
+ * User agent whose robots.txt group is honored, falling back to the * group
+ */
+export const ROBOTS_USER_AGENT = 'scraperis-mcp';
+
+/**
+ * How long to wait for a robots.txt file, in milliseconds
+ */
+const ROBOTS_TIMEOUT = 10000;
+
+/**
+ * How many redirects of a robots.txt file are followed; a file behind more is treated as missing
+ */
+const MAX_REDIRECTS = 5;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  /** Length of the path pattern; the longest matching rule wins */
+  length: number;
+}
+
+/**
+ * Parsed rules of one robots.txt file
+ */
+export class RobotsRules {
+  private rules: RobotsRule[];
+
+  /**
+   * Creates a new RobotsRules
+   * @param rules The rules of the group that applies to us
+   */
+  constructor(rules: RobotsRule[] = []) {
+    this.rules = rules;
+  }
+
+  /**
+   * Parses a robots.txt file, keeping the rules of our user agent's group or else of the * group
+   * @param text The robots.txt contents
+   * @param userAgent The user agent to find rules for
+   * @returns The rules
+   */
+  static parse(text: string, userAgent: string = ROBOTS_USER_AGENT): RobotsRules {
+    const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = [];
+    let current: { agents: string[]; rules: RobotsRule[] } | undefined;
+
+    for (const raw of text.split(/\r?\n/)) {
+      const line = raw.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        continue;
+      }
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'user-agent') {
+        // Consecutive user-agent lines share one group
+        if (!current || current.rules.length > 0) {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+      } else if ((field === 'allow' || field === 'disallow') && current) {
+        // An empty Disallow allows everything
+        if (value) {
+          current.rules.push({ allow: field === 'allow', pattern: pathPattern(value), length: value.length });
+        }
+      }
+    }
+
+    const agent = userAgent.toLowerCase();
+    const group = groups.find(candidate => candidate.agents.some(name => name !== '*' && agent.includes(name))) ??
+      groups.find(candidate => candidate.agents.includes('*'));
+    return new RobotsRules(group?.rules ?? []);
+  }
+
+  /**
+   * Checks whether a path may be crawled
+   * @param path The path and query of the URL
+   * @returns True unless the longest matching rule disallows it; Allow wins ties
+   */
+  allows(path: string): boolean {
+    let match: RobotsRule | undefined;
+    for (const rule of this.rules) {
+      if (rule.pattern.test(path) &&
+        (!match || rule.length > match.length || (rule.length === match.length && rule.allow))) {
+        match = rule;
+      }
+    }
+    return match?.allow ?? true;
+  }
+}
+
+/**
+ * Converts a robots.txt path pattern, with * wildcards and an optional $ anchor, to a regular expression
+ * @param value The path pattern
+ * @returns The regular expression matching paths from their start
+ */
+function pathPattern(value: string): RegExp {
+  const anchored = value.endsWith('$');
+  const body = (anchored ? value.slice(0, -1) : value)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Fetches and caches the robots.txt rules of the sites a crawl visits
+ */
+export class RobotsPolicy {
+  private userAgent: string;
+  private urlPolicy?: UrlPolicy;
+  private sites: Map<string, Promise<RobotsRules>> = new Map();
+
+  /**
+   * Creates a new RobotsPolicy
+   * @param userAgent The user agent to find rules for
+   * @param urlPolicy Optional URL policy; robots.txt is not fetched from sites it refuses
+   */
+  constructor(userAgent: string = ROBOTS_USER_AGENT, urlPolicy?: UrlPolicy) {
+    this.userAgent = userAgent;
+    this.urlPolicy = urlPolicy;
+  }
+
+  /**
+   * Checks whether robots.txt allows crawling a URL
+   * @param url The URL to crawl
+   * @param signal Optional AbortSignal to cancel fetching robots.txt
+   * @returns Promise with true if the URL may be crawled
+   * @throws ScraperAbortedError if the signal is aborted
+   */
+  async allows(url: string, signal?: AbortSignal): Promise<boolean> {
+    const target = new URL(url);
+    let rules = this.sites.get(target.origin);
+    if (!rules) {
+      rules = this.fetchRules(target.origin, signal);
+      this.sites.set(target.origin, rules);
+    }
+    try {
+      return (await rules).allows(`${target.pathname}${target.search}`);
+    } catch (error) {
+      // A cancelled fetch is tried again by the next crawl
+      this.sites.delete(target.origin);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches the robots.txt of a site
+   * @param origin The site's origin
+   * @param signal Optional AbortSignal to cancel the request
+   * @returns Promise with the rules; a missing or unreachable file allows everything, a failing server nothing
+   */
+  private async fetchRules(origin: string, signal?: AbortSignal): Promise<RobotsRules> {
+    const timeout = anySignal(signal, AbortSignal.timeout(ROBOTS_TIMEOUT));
+    let target = `${origin}/robots.txt`;
+    try {
+      // Under a URL policy redirects are followed one at a time, so every hop is checked before it is requested
+      for (let redirects = 0; ; redirects++) {
+        // Pages of a refused site are refused by the scrape itself, with the policy's reason; a file behind a refused
+        // redirect is treated as unreachable
+        if (this.urlPolicy && !await this.urlPolicy.allows(target)) {
+          return new RobotsRules();
+        }
+        const response = await fetch(target, {
+          headers: { 'User-Agent': this.userAgent },
+          redirect: this.urlPolicy ? 'manual' : 'follow',
+          signal: timeout
+        });
+        const location = isRedirect(response.status) ? response.headers.get('location') : null;
+        if (location) {
+          if (redirects >= MAX_REDIRECTS) {
+            return new RobotsRules();
+          }
+          target = new URL(location, target).toString();
+          continue;
+        }
+        if (response.status >= 500) {
+          return RobotsRules.parse('User-agent: *\nDisallow: /', this.userAgent);
+        }
+        return response.ok ? RobotsRules.parse(await response.text(), this.userAgent) : new RobotsRules();
+      }
+    } catch {
+      if (signal?.aborted) {
+        throw new ScraperAbortedError();
+      }
+      return new RobotsRules();
+    }
+  }
+}
@@ -0,0 +1,284 @@
+import { ScraperAbortedError, ScraperQueueFullError } from './errors.js';
+import { ProgressCallback } from '../types/index.js';
+
+/**
+ * The kinds of Scraper.is requests that are rate limited separately
+ */
+export type RequestKind = 'submit' | 'poll';
+
+export interface RateLimit {
+  /** Sustained requests per second */
+  perSecond: number;
+  /** Requests that may be sent at once after a quiet period */
+  burst: number;
+}
+
+export interface SchedulerOptions {
+  /** Limit of requests that start jobs (/extract_prompt, /screenshot); unlimited when unset */
+  submit?: RateLimit;
+  /** Limit of status and result requests (/get_data); unlimited when unset */
+  poll?: RateLimit;
+  /** Maximum number of requests of each kind waiting for their turn (default 100) */
+  maxQueue?: number;
+}
+
+export interface QueueOptions {
+  /** Requests with a higher priority leave the queue first (default 0) */
+  priority?: number;
+  /** Called with the 1-based queue position whenever it changes while the request waits */
+  onQueued?: (position: number) => void;
+}
+
+export interface ScheduleOptions extends QueueOptions {
+  /** Signal that removes the request from the queue */
+  signal?: AbortSignal;
+}
+
+interface QueuedTask {
+  priority: number;
+  position: number;
+  onQueued?: (position: number) => void;
+  start: () => void;
+}
+
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+  listeners: Set<ProgressCallback>;
+}
+
+/**
+ * Token bucket refilled continuously at a fixed rate
+ */
+class TokenBucket {
+  private limit: RateLimit;
+  private tokens: number;
+  private updatedAt: number;
+
+  /**
+   * Creates a new TokenBucket, initially full
+   * @param limit The refill rate and capacity
+   */
+  constructor(limit: RateLimit) {
+    this.limit = limit;
+    this.tokens = limit.burst;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Takes a token if one is available
+   * @returns 0 if a token was taken, otherwise the milliseconds until one is available
+   */
+  take(): number {
+    const now = Date.now();
+    this.tokens = Math.min(this.limit.burst, this.tokens + ((now - this.updatedAt) / 1000) * this.limit.perSecond);
+    this.updatedAt = now;
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / this.limit.perSecond) * 1000);
+  }
+}
+
+/**
+ * Paces the requests of every ScraperAPI client of a process: token-bucket rate limits for
+ * submissions and polls, a bounded priority queue for requests over the limit, and coalescing
+ * of identical requests that are in flight at the same time
+ */
+export class RequestScheduler {
+  private buckets: Partial<Record<RequestKind, TokenBucket>>;
+  private queues: Record<RequestKind, QueuedTask[]> = { submit: [], poll: [] };
+  private timers: Partial<Record<RequestKind, NodeJS.Timeout>> = {};
+  private maxQueue: number;
+  private inFlight: Map<string, InFlight> = new Map();
+
+  /**
+   * Creates a new RequestScheduler
+   * @param options The rate limits and queue bound
+   */
+  constructor(options: SchedulerOptions = {}) {
+    this.buckets = {
+      submit: options.submit && new TokenBucket(options.submit),
+      poll: options.poll && new TokenBucket(options.poll)
+    };
+    this.maxQueue = options.maxQueue ?? 100;
+  }
+
+  /**
+   * Number of requests of a kind waiting for their turn
+   * @param kind The request kind
+   * @returns The queue length
+   */
+  queued(kind: RequestKind): number {
+    return this.queues[kind].length;
+  }
+
+  /**
+   * Runs a request as soon as the rate limit of its kind allows
+   * @param kind The request kind
+   * @param run Sends the request
+   * @param options The priority, queue position callback and abort signal
+   * @returns Promise with the request's result
+   * @throws ScraperQueueFullError if the queue of the kind is full
+   * @throws ScraperAbortedError if the signal is aborted while the request waits
+   */
+  schedule<T>(kind: RequestKind, run: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { priority = 0, onQueued, signal } = options;
+    const bucket = this.buckets[kind];
+    const queue = this.queues[kind];
+
+    if (signal?.aborted) {
+      return Promise.reject(new ScraperAbortedError());
+    }
+    if (!bucket || (queue.length === 0 && bucket.take() === 0)) {
+      return run();
+    }
+    if (queue.length >= this.maxQueue) {
+      return Promise.reject(new ScraperQueueFullError(
+        `Too many Scraper.is requests are waiting (${queue.length} queued ${kind} requests)`,
+        queue.length
+      ));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        queue.splice(queue.indexOf(task), 1);
+        this.reportPositions(kind);
+        reject(new ScraperAbortedError());
+      };
+      const task: QueuedTask = {
+        priority,
+        position: 0,
+        onQueued,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          run().then(resolve, reject);
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Behind every task of the same or a higher priority
+      const index = queue.findIndex(other => other.priority < priority);
+      queue.splice(index === -1 ? queue.length : index, 0, task);
+      this.reportPositions(kind);
+      this.pump(kind);
+    });
+  }
+
+  /**
+   * Runs a request once for all callers that ask for the same key while it is in flight. The shared
+   * request is only cancelled once every caller has cancelled, and its progress reaches every caller.
+   * @param key Identifies identical requests
+   * @param signal Signal of this caller
+   * @param run Sends the request, with the shared signal (if the request can be cancelled) and a progress
+   * callback reaching every caller
+   * @param onProgress Progress callback of this caller
+   * @returns Promise with the shared result
+   * @throws ScraperAbortedError if this caller's signal is aborted
+   */
+  coalesce<T>(
+    key: string,
+    signal: AbortSignal | undefined,
+    run: (signal: AbortSignal | undefined, onProgress: ProgressCallback) => Promise<T>,
+    onProgress?: ProgressCallback
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new ScraperAbortedError());
+    }
+
+    let entry = this.inFlight.get(key);
+    if (!entry) {
+      const created: InFlight = {
+        controller: new AbortController(),
+        subscribers: 0,
+        listeners: new Set(),
+        promise: Promise.resolve()
+      };
+      const notify: ProgressCallback = async (progress, message) => {
+        await Promise.all([...created.listeners].map(listener => listener(progress, message)));
+      };
+      // A first caller that cannot cancel keeps the request alive anyway, so it gets no signal
+      created.promise = run(signal && created.controller.signal, notify).finally(() => {
+        if (this.inFlight.get(key) === created) {
+          this.inFlight.delete(key);
+        }
+      });
+      this.inFlight.set(key, created);
+      entry = created;
+    }
+
+    const shared = entry;
+    shared.subscribers++;
+    if (onProgress) {
+      shared.listeners.add(onProgress);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const leave = () => {
+        signal?.removeEventListener('abort', onAbort);
+        if (onProgress) {
+          shared.listeners.delete(onProgress);
+        }
+      };
+      const onAbort = () => {
+        leave();
+        if (--shared.subscribers === 0) {
+          // Later callers start afresh instead of joining the cancelled request
+          if (this.inFlight.get(key) === shared) {
+            this.inFlight.delete(key);
+          }
+          shared.controller.abort();
+        }
+        reject(new ScraperAbortedError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      shared.promise.then(
+        value => {
+          leave();
+          resolve(value as T);
+        },
+        error => {
+          leave();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Starts queued requests while tokens are available, then waits for the next token
+   * @param kind The request kind
+   */
+  private pump(kind: RequestKind): void {
+    const queue = this.queues[kind];
+    const bucket = this.buckets[kind];
+    while (bucket && queue.length > 0 && !this.timers[kind]) {
+      const wait = bucket.take();
+      if (wait > 0) {
+        this.timers[kind] = setTimeout(() => {
+          this.timers[kind] = undefined;
+          this.pump(kind);
+        }, wait);
+        return;
+      }
+      queue.shift()?.start();
+      this.reportPositions(kind);
+    }
+  }
+
+  /**
+   * Tells every waiting request whose position changed where it stands
+   * @param kind The request kind
+   */
+  private reportPositions(kind: RequestKind): void {
+    this.queues[kind].forEach((task, index) => {
+      if (task.position !== index + 1) {
+        task.position = index + 1;
+        task.onQueued?.(index + 1);
+      }
+    });
+  }
+}
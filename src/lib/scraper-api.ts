@@ -1,142 +1,1082 @@
-import { generateChatId, sleep } from '../utils/index.js';
-import { ScraperResponse } from '../types/index.js';
-import fetch from 'node-fetch';
+import { backoffDelay, generateChatId, isRedirect, parseRetryAfter, sleep } from '../utils/index.js';
+import {
+  DevicePreset,
+  MeteredOperation,
+  PollingOptions,
+  ProgressCallback,
+  ScrapeFormat,
+  ScrapeJobStatus,
+  ScrapeOptions,
+  ScrapeStatus,
+  ScraperResponse,
+  ScreenshotOptions,
+  StartedScrape
+} from '../types/index.js';
+import {
+  ScraperAbortedError,
+  ScraperError,
+  ScraperJobFailedError,
+  ScraperJobNotFoundError,
+  ScraperMalformedResponseError,
+  ScraperRateLimitError,
+  ScraperTimeoutError,
+  ScraperUpstreamError,
+  errorFromStatus,
+  isRetryableError
+} from './errors.js';
+import { ResultCache } from './result-cache.js';
+import { HistoryRecord, ScrapeHistory } from './history.js';
+import { UsageMeter } from './usage-ledger.js';
+import { QueueOptions, RequestKind, RequestScheduler } from './scheduler.js';
+import { JobProgress, JobTimings } from './progress.js';
+import { keyOwner } from './credentials.js';
+import { UrlPolicy } from './url-policy.js';
+import nodeFetch from 'node-fetch';
 /**
  * ScraperAPI client for interacting with the Scraper.is API
  */
 
 // If fetch doesn't exist in global scope, add it
 if (!globalThis.fetch) {
-  globalThis.fetch = fetch as unknown as typeof global.fetch;
+  globalThis.fetch = nodeFetch as unknown as typeof global.fetch;
 }
+
+/**
+ * Default polling behaviour: give up after 10 minutes or 200 polls,
+ * backing off up to 30 seconds between polls
+ */
+export const DEFAULT_POLLING_OPTIONS: PollingOptions = {
+  timeout: 10 * 60 * 1000,
+  maxAttempts: 200,
+  maxInterval: 30000,
+  backoffFactor: 1.5,
+  jitter: 0.2,
+  maxRetries: 3
+};
+
+/**
+ * Viewport sizes of the device presets
+ */
+const DEVICE_VIEWPORTS: Record<DevicePreset, { width: number; height: number }> = {
+  desktop: { width: 1920, height: 1080 },
+  laptop: { width: 1366, height: 768 },
+  tablet: { width: 820, height: 1180 },
+  mobile: { width: 390, height: 844 }
+};
+
+/**
+ * Base delay in milliseconds before retrying a transient request failure
+ */
+const RETRY_BASE_DELAY = 1000;
+
+/**
+ * Redirects followed when downloading a screenshot under a URL policy
+ */
+const MAX_REDIRECTS = 5;
+
+/**
+ * The /get_data format used to fetch each scrape format
+ */
+const GET_DATA_FORMATS: Record<ScrapeFormat, string> = {
+  markdown: 'md',
+  html: 'md',
+  screenshot: 'screenshot',
+  json: 'json',
+  quick: 'quick',
+  csv: 'csv',
+  xml: 'xml'
+};
+
+/**
+ * Scrape formats whose payload is already contained in the quick polling response
+ */
+const QUICK_FORMATS: ScrapeFormat[] = ['markdown', 'html', 'screenshot', 'quick'];
+
+type PayloadKind = 'json' | 'image' | 'csv' | 'xml' | 'markdown';
+
+/**
+ * What a metered call did, filled in while it runs
+ */
+interface CallStats {
+  polls: number;
+  credits: number;
+  cached: boolean;
+  /** Releases the credit reserved with the usage meter when the call was submitted */
+  release?: () => void;
+}
+
+/**
+ * How to parse a /get_data body when the response carries no usable Content-Type
+ */
+const FORMAT_PAYLOADS: Record<ScrapeFormat, PayloadKind> = {
+  markdown: 'markdown',
+  html: 'markdown',
+  screenshot: 'image',
+  json: 'json',
+  quick: 'json',
+  csv: 'csv',
+  xml: 'xml'
+};
+
+export interface ScraperAPIOptions extends Partial<PollingOptions> {
+  /** Cache consulted before starting a scrape and filled with its result */
+  cache?: ResultCache;
+  /** Records every call and refuses new jobs once a credit budget is used up */
+  usage?: UsageMeter;
+  /** Rate limits, queues and coalesces requests; shared by the clients of a process */
+  scheduler?: RequestScheduler;
+  /** Durations of recent jobs, used to estimate progress; shared by the clients of a process */
+  timings?: JobTimings;
+  /** Records every completed scrape with its prompt and result */
+  history?: ScrapeHistory;
+  /** Refuses prompts, screenshots and downloads of URLs it does not allow */
+  urlPolicy?: UrlPolicy;
+}
+
 export class ScraperAPI {
   private apiKey: string;
+  /** Owner of the API key, which scopes the cached results */
+  private owner: string;
   private apiBase: string;
   private pollingInterval: number;
+  private pollingOptions: PollingOptions;
+  private cache?: ResultCache;
+  private usage?: UsageMeter;
+  private scheduler: RequestScheduler;
+  private timings: JobTimings;
+  private history?: ScrapeHistory;
+  private policy?: UrlPolicy;
 
   /**
    * Creates a new ScraperAPI client
    * @param apiKey The API key for Scraper.is
    * @param apiBase The base URL for the Scraper.is API
-   * @param pollingInterval The interval in milliseconds to poll for results
+   * @param pollingInterval The initial interval in milliseconds to poll for results
+   * @param options Overrides for the deadline, attempt budget and backoff, and an optional result cache, usage meter,
+   * request scheduler, job timings, scrape history and URL policy
    */
   constructor(
     apiKey: string, 
     apiBase: string = 'https://scraper.is/api',
-    pollingInterval: number = 5000
+    pollingInterval: number = 5000,
+    options: ScraperAPIOptions = {}
   ) {
+    const { cache, usage, scheduler, timings, history, urlPolicy, ...pollingOptions } = options;
     this.apiKey = apiKey;
+    this.owner = keyOwner(apiKey);
     this.apiBase = apiBase;
     this.pollingInterval = pollingInterval;
+    this.pollingOptions = { ...DEFAULT_POLLING_OPTIONS, ...pollingOptions };
+    this.cache = cache;
+    this.history = history;
+    this.usage = usage;
+    this.policy = urlPolicy;
+    // Without a shared scheduler requests are not rate limited, but identical scrapes are still coalesced
+    this.scheduler = scheduler ?? new RequestScheduler();
+    this.timings = timings ?? new JobTimings();
+  }
+
+  /**
+   * Owner of the API key, which scopes the cached results, history and watches of its callers
+   */
+  get keyOwner(): string {
+    return this.owner;
+  }
+
+  /**
+   * The URL policy prompts and screenshots are checked against, if any
+   */
+  get urlPolicy(): UrlPolicy | undefined {
+    return this.policy;
   }
 
   /**
    * Takes a screenshot of a URL
    * @param url The URL to screenshot
-   * @returns Promise with the screenshot data
+   * @param options Viewport, full page, device emulation and delay options, and a cancellation signal
+   * @returns Promise with the screenshot URL or bytes
+   * @throws UrlPolicyError if the URL policy refuses the URL
+   * @throws ScraperBudgetError if a credit budget is used up
+   * @throws ScraperError if the request fails or the response cannot be parsed
    */
-  async screenshot(url: string): Promise<Record<string, unknown>> {
+  async screenshot(url: string, options: ScreenshotOptions = {}): Promise<ScraperResponse> {
+    return this.metered('screenshot', '/screenshot', 'screenshot', stats => this.takeScreenshot(url, options, stats));
+  }
+
+  /**
+   * Takes a screenshot, counting the credit and polls in the call stats
+   * @param url The URL to screenshot
+   * @param options Viewport, full page, device emulation and delay options, and a cancellation signal
+   * @param stats The stats of the metered call
+   * @returns Promise with the screenshot URL or bytes
+   */
+  private async takeScreenshot(url: string, options: ScreenshotOptions, stats: CallStats): Promise<ScraperResponse> {
+    const { signal, viewport, fullPage, device, waitFor } = options;
     const chatId = generateChatId();
-    const response = await fetch(`${this.apiBase}/screenshot`, {
+    await this.policy?.check(url);
+    stats.release = this.usage?.reserve();
+    const submittedAt = Date.now();
+    const response = await this.request(`${this.apiBase}/screenshot`, {
       method: 'POST',
-      body: JSON.stringify({ url, chat_id: chatId }),
+      body: JSON.stringify({
+        url,
+        chat_id: chatId,
+        viewport: viewport ?? (device ? DEVICE_VIEWPORTS[device] : undefined),
+        full_page: fullPage,
+        device,
+        wait_for: waitFor
+      }),
       headers: {
         'Content-Type': 'application/json',
         'x-api-key': this.apiKey
+      },
+      signal
+    }, this.pollingOptions.maxRetries, 'submit');
+    stats.credits = 1;
+    
+    // The endpoint may answer with the image itself
+    const contentType = response.headers?.get('content-type') ?? '';
+    let result: ScraperResponse;
+    if (contentType.startsWith('image/')) {
+      result = { url, ...await this.parseResult(response, 'screenshot') };
+    } else {
+      const data = this.normalizeScreenshot(await this.parseJson<ScraperResponse>(response, 'screenshot'));
+      
+      // Asynchronous screenshots are polled like scrape jobs
+      if (data.job_id && !data.screenshot) {
+        const progress = new JobProgress('screenshot', this.timings, undefined, submittedAt);
+        result = { url, ...await this.pollUntilDone(chatId, data.job_id, 'screenshot', progress, { signal }, stats) };
+      } else {
+        result = { url, ...data };
       }
-    });
+    }
     
-    return response.json() as Promise<Record<string, unknown>>;
+    return this.recordHistory(
+      { owner: this.owner, chatId, prompt: `Screenshot of ${url}`, format: 'screenshot', submittedAt, response: result },
+      signal
+    );
   }
 
   /**
    * Scrapes content based on a prompt
    * @param prompt The prompt describing what to scrape
-   * @param format The format to return ('markdown', 'html', 'screenshot', 'json', 'quick')
+   * @param format The format to return ('markdown', 'html', 'screenshot', 'json', 'quick', 'csv', 'xml')
    * @param onProgress Optional callback for progress updates
+   * @param options Optional cancellation signal and per-call polling overrides
    * @returns Promise with the scraped data
+   * @throws ScraperTimeoutError if the job does not finish within the deadline or attempt budget
+   * @throws ScraperAbortedError if the signal is aborted
+   * @throws ScraperJobFailedError if the job reports failure
+   * @throws UrlPolicyError if the URL policy refuses a URL in the prompt
+   * @throws ScraperBudgetError if a credit budget is used up
+   * @throws ScraperError for authentication, not found, rate limit, upstream and malformed response failures
    */
   async scrape(
     prompt: string, 
-    format: string,
-    onProgress?: (progress: number) => Promise<void>
+    format: ScrapeFormat,
+    onProgress?: ProgressCallback,
+    options: ScrapeOptions = {}
   ): Promise<ScraperResponse> {
+    return this.metered('scrape', '/extract_prompt', format, stats => this.runScrape(prompt, format, onProgress, options, stats));
+  }
+
+  /**
+   * Scrapes content, serving it from the cache when possible and joining an identical scrape that is
+   * already in flight, and counts credits and polls in the call stats
+   * @param prompt The prompt describing what to scrape
+   * @param format The format to return
+   * @param onProgress Optional callback for progress updates
+   * @param options Optional cancellation signal, cache, priority and per-call polling overrides
+   * @param stats The stats of the metered call
+   * @returns Promise with the scraped data
+   */
+  private async runScrape(
+    prompt: string,
+    format: ScrapeFormat,
+    onProgress: ProgressCallback | undefined,
+    options: ScrapeOptions,
+    stats: CallStats
+  ): Promise<ScraperResponse> {
+    const { maxAge, forceRefresh, schema, priority, signal, ...pollingOverrides } = options;
+    // The same prompt extracted into a different shape is a different result
+    const variant = schema ? JSON.stringify(schema) : undefined;
+    // Cached results of prompts the policy refuses now are not served either
+    await this.policy?.checkPrompt(prompt);
+    
+    if (this.cache && !forceRefresh) {
+      const cached = await this.cache.get(this.owner, prompt, format, maxAge, variant);
+      if (cached) {
+        stats.cached = true;
+        return {
+          ...cached.response,
+          cache: { hit: true, key: cached.key, storedAt: new Date(cached.storedAt).toISOString() }
+        };
+      }
+    }
+    
+    // Concurrent callers share one job; it is only cancelled once all of them have cancelled
+    const key = ResultCache.key(this.owner, prompt, format, variant);
+    return this.scheduler.coalesce(key, signal, async (sharedSignal, sharedProgress) => {
+      const { queue, onProgress: tracked } = this.queueOptions(priority, sharedProgress);
+      const submittedAt = Date.now();
+      const started = await this.submit(prompt, format, {
+        signal: sharedSignal,
+        maxRetries: pollingOverrides.maxRetries,
+        schema
+      }, stats, queue);
+      
+      // If no job ID was returned, return the data as is
+      const result = started.jobId
+        ? await this.pollUntilDone(
+          started.chatId,
+          started.jobId,
+          format,
+          new JobProgress(format, this.timings, tracked, submittedAt),
+          { ...pollingOverrides, signal: sharedSignal },
+          stats,
+          queue
+        )
+        : started.data;
+      const stored = await this.recordHistory(
+        { owner: this.owner, chatId: started.chatId, prompt, format, submittedAt, response: result },
+        sharedSignal
+      );
+      
+      return this.cache ? this.storeInCache(prompt, format, stored, sharedSignal, variant) : stored;
+    }, onProgress);
+  }
+
+  /**
+   * Builds the queue options of a call, reporting its queue position through its progress callback
+   * @param priority The priority of the call's requests
+   * @param onProgress Optional callback for progress updates
+   * @returns The queue options, and the progress callback to use for the rest of the call
+   */
+  private queueOptions(
+    priority: number | undefined,
+    onProgress: ProgressCallback | undefined
+  ): { queue: QueueOptions; onProgress?: ProgressCallback } {
+    if (!onProgress) {
+      return { queue: { priority } };
+    }
+    
+    // Queue updates repeat the last progress reported, with a message saying where the call stands
+    let progress = 0;
+    return {
+      queue: {
+        priority,
+        onQueued: position => {
+          onProgress(progress, `Waiting for a Scraper.is request slot (queue position ${position})`).catch(() => undefined);
+        }
+      },
+      onProgress: async (value, message) => {
+        progress = value;
+        await onProgress(value, message);
+      }
+    };
+  }
+
+  /**
+   * Starts a scrape job without waiting for it to finish
+   * @param prompt The prompt describing what to scrape
+   * @param format The format the result will be fetched in
+   * @param options The abort signal, retry limit and optional output schema
+   * @returns Promise with the chat ID and job ID of the started job
+   * @throws UrlPolicyError if the URL policy refuses a URL in the prompt
+   * @throws ScraperBudgetError if a credit budget is used up
+   */
+  async startScrape(
+    prompt: string,
+    format: ScrapeFormat,
+    options: Pick<ScrapeOptions, 'signal' | 'maxRetries' | 'schema'> = {}
+  ): Promise<StartedScrape> {
+    return this.metered('start_scrape', '/extract_prompt', format, async stats => {
+      await this.policy?.checkPrompt(prompt);
+      const submittedAt = Date.now();
+      const started = await this.submit(prompt, format, options, stats);
+      // A submission answered with the result is complete; there is nothing left to poll
+      if (started.jobId) {
+        this.history?.started(started.chatId, prompt);
+        return started;
+      }
+      const data = await this.recordHistory(
+        { owner: this.owner, chatId: started.chatId, prompt, format, submittedAt, response: started.data },
+        options.signal
+      );
+      return { ...started, data };
+    });
+  }
+
+  /**
+   * Submits a scrape job once the budgets allow it, counting its credit in the call stats
+   * @param prompt The prompt describing what to scrape
+   * @param format The format the result will be fetched in
+   * @param options The abort signal, retry limit and optional output schema
+   * @param stats The stats of the metered call
+   * @param queue The priority and queue position callback of the submission
+   * @returns Promise with the chat ID and job ID of the started job
+   */
+  private async submit(
+    prompt: string,
+    format: ScrapeFormat,
+    options: Pick<ScrapeOptions, 'signal' | 'maxRetries' | 'schema'>,
+    stats: CallStats,
+    queue: QueueOptions = {}
+  ): Promise<StartedScrape> {
+    const { signal, maxRetries = this.pollingOptions.maxRetries, schema } = options;
     const chatId = generateChatId();
     
+    this.throwIfAborted(signal);
+    stats.release = this.usage?.reserve();
+    
     // Start the extraction job
-    const response = await fetch(`${this.apiBase}/extract_prompt`, {
+    const response = await this.request(`${this.apiBase}/extract_prompt`, {
       method: 'POST',
-      body: JSON.stringify({ prompt, chat_id: chatId, html_only: false }),
+      body: JSON.stringify({ prompt, chat_id: chatId, html_only: format === 'html', ...(schema && { schema }) }),
       headers: {
         'Content-Type': 'application/json',
         'x-api-key': this.apiKey
       },
-      redirect: 'follow'
-    });
+      redirect: 'follow',
+      signal
+    }, maxRetries, 'submit', queue);
+    stats.credits = 1;
     
-    const data = await response.json() as ScraperResponse;
-    
-    // If no job ID was returned, return the data as is
-    if (!data.job_id) {
-      return data;
-    }
+    const data = await this.parseJson<ScraperResponse>(response, 'extract_prompt');
+    return { chatId, jobId: data.job_id, data };
+  }
+
+  /**
+   * Polls a started job until it finishes
+   * @param chatId The chat ID the job was started with
+   * @param jobId The job ID returned when the job was started
+   * @param format The format to return
+   * @param onProgress Optional callback for progress updates
+   * @param options Optional cancellation signal and per-call polling overrides
+   * @returns Promise with the scraped data
+   * @throws ScraperTimeoutError if the job does not finish within the deadline or attempt budget
+   * @throws ScraperAbortedError if the signal is aborted
+   * @throws ScraperJobFailedError if the job reports failure
+   */
+  async waitForResult(
+    chatId: string,
+    jobId: string,
+    format: ScrapeFormat,
+    onProgress?: ProgressCallback,
+    options: ScrapeOptions = {}
+  ): Promise<ScraperResponse> {
+    return this.metered('get_result', '/get_data', format, async stats => {
+      const { queue, onProgress: tracked } = this.queueOptions(options.priority, onProgress);
+      const result = await this.pollUntilDone(chatId, jobId, format, new JobProgress(format, this.timings, tracked), options, stats, queue);
+      return this.recordHistory({ owner: this.owner, chatId, format, response: result }, options.signal);
+    });
+  }
+
+  /**
+   * Polls a started job until it finishes, counting the polls in the call stats
+   * @param chatId The chat ID the job was started with
+   * @param jobId The job ID returned when the job was started
+   * @param format The format to return
+   * @param progress Reports the job's progress from its status
+   * @param options Optional cancellation signal and per-call polling overrides
+   * @param stats The stats of the metered call
+   * @param queue The priority and queue position callback of the polls
+   * @returns Promise with the scraped data
+   */
+  private async pollUntilDone(
+    chatId: string,
+    jobId: string,
+    format: ScrapeFormat,
+    progress: JobProgress,
+    options: ScrapeOptions,
+    stats: CallStats,
+    queue: QueueOptions = {}
+  ): Promise<ScraperResponse> {
+    const { signal, ...overrides } = options;
+    const polling: PollingOptions = { ...this.pollingOptions, ...overrides };
+    const startedAt = Date.now();
+    const deadline = startedAt + polling.timeout;
     
-    // Poll for results
+    // Poll for results until the job finishes, the deadline passes or the attempt budget runs out
     let fetchCount = 0;
-    let polling = true;
+    let notFound: ScraperJobNotFoundError | undefined;
     
-    while (polling) {
+    while (fetchCount < polling.maxAttempts) {
       fetchCount++;
       
-      // Report progress if callback provided
-      if (onProgress) {
-        await onProgress(fetchCount);
+      // Get the current status
+      stats.polls++;
+      const poll = await this.pollStatus(chatId, signal, polling.maxRetries, queue);
+      notFound = poll.notFound;
+      
+      if (poll.data) {
+        const status = this.jobStatus(poll.data);
+        
+        if (status === 'failed') {
+          throw this.jobFailedError(poll.data, jobId);
+        }
+        
+        const result = status === 'completed'
+          ? await this.completedResult(chatId, format, poll.data, signal, polling.maxRetries, queue)
+          : undefined;
+        
+        if (result) {
+          await progress.complete();
+          return result;
+        }
       }
+      await progress.update(poll.data);
       
-      // Get the current status
-      const scraperUrl = `${this.apiBase}/get_data?chat_id=${chatId}&format=quick`;
-      const scraperResponse = await fetch(scraperUrl, {
+      // Wait before the next poll, preferring the server's Retry-After hint over our own backoff
+      const delay = poll.retryAfter ??
+        backoffDelay(fetchCount, this.pollingInterval, polling.maxInterval, polling.backoffFactor, polling.jitter);
+      
+      if (Date.now() + delay > deadline) {
+        throw notFound ?? new ScraperTimeoutError(
+          `Scrape timed out after ${Date.now() - startedAt}ms (${fetchCount} polls) waiting for job ${jobId}`,
+          Date.now() - startedAt,
+          fetchCount
+        );
+      }
+      
+      await sleep(delay, signal);
+      this.throwIfAborted(signal);
+    }
+    
+    throw notFound ?? new ScraperTimeoutError(
+      `Scrape gave up after ${fetchCount} polls waiting for job ${jobId}`,
+      Date.now() - startedAt,
+      fetchCount
+    );
+  }
+
+  /**
+   * Checks the current status of a job with a single poll
+   * @param chatId The chat ID the job was started with
+   * @param signal Optional AbortSignal to cancel the request
+   * @returns Promise with the job status and the raw status payload, if any
+   */
+  async getStatus(chatId: string, signal?: AbortSignal): Promise<ScrapeStatus> {
+    return this.metered('get_status', '/get_data', undefined, stats => this.checkStatus(chatId, signal, stats));
+  }
+
+  /**
+   * Checks the current status of a job with a single poll, counting it in the call stats
+   * @param chatId The chat ID the job was started with
+   * @param signal Optional AbortSignal to cancel the request
+   * @param stats The stats of the metered call
+   * @returns Promise with the job status and the raw status payload, if any
+   */
+  private async checkStatus(chatId: string, signal: AbortSignal | undefined, stats: CallStats): Promise<ScrapeStatus> {
+    stats.polls++;
+    const poll = await this.pollStatus(chatId, signal, this.pollingOptions.maxRetries);
+    if (!poll.data) {
+      return { status: 'pending' };
+    }
+    return { status: this.jobStatus(poll.data), data: poll.data };
+  }
+
+  /**
+   * Checks that the API is reachable and accepts the API key, without starting a job
+   * @param signal Optional AbortSignal to cancel the request
+   * @returns Promise with the round-trip time in milliseconds
+   * @throws ScraperAuthError if the API key is rejected
+   * @throws ScraperUpstreamError if the API cannot be reached
+   */
+  async ping(signal?: AbortSignal): Promise<number> {
+    const started = Date.now();
+    // The API answers 404 for a chat ID it does not know once the key has been accepted
+    await this.pollStatus(`scraperis-mcp-check-${generateChatId()}`, signal, 0);
+    return Date.now() - started;
+  }
+
+  /**
+   * Fetches the result of a job if it has finished
+   * @param chatId The chat ID the job was started with
+   * @param format The format to return
+   * @param signal Optional AbortSignal to cancel the request
+   * @returns Promise with the result, or undefined if the job has not finished yet
+   * @throws ScraperJobFailedError if the job reports failure
+   */
+  async getResult(chatId: string, format: ScrapeFormat, signal?: AbortSignal): Promise<ScraperResponse | undefined> {
+    return this.metered('get_result', '/get_data', format, async stats => {
+      const { status, data } = await this.checkStatus(chatId, signal, stats);
+      
+      if (status === 'failed' && data) {
+        throw this.jobFailedError(data, data.job_id ?? chatId);
+      }
+      if (status !== 'completed' || !data) {
+        return undefined;
+      }
+      const result = await this.completedResult(chatId, format, data, signal, this.pollingOptions.maxRetries);
+      return result && this.recordHistory({ owner: this.owner, chatId, format, response: result }, signal);
+    });
+  }
+
+  /**
+   * Runs a call and records it with the usage meter, whether it succeeds or fails
+   * @param operation The kind of call
+   * @param endpoint The API endpoint the call starts with
+   * @param format The requested format, if any
+   * @param run The call, which fills in its stats
+   * @returns Promise with the call's result
+   */
+  private async metered<T>(
+    operation: MeteredOperation,
+    endpoint: string,
+    format: ScrapeFormat | undefined,
+    run: (stats: CallStats) => Promise<T>
+  ): Promise<T> {
+    const stats: CallStats = { polls: 0, credits: 0, cached: false };
+    const startedAt = Date.now();
+    const record = (success: boolean, error?: unknown) => {
+      this.usage?.record({
+        operation,
+        endpoint: stats.cached ? 'cache' : endpoint,
+        ...(format && { format }),
+        durationMs: Date.now() - startedAt,
+        polls: stats.polls,
+        success,
+        ...(!success && { error: error instanceof ScraperError ? error.code : 'unknown' }),
+        credits: stats.credits,
+        owner: this.owner
+      });
+      // The record now holds the credit, if the submission cost one
+      stats.release?.();
+    };
+    
+    try {
+      const result = await run(stats);
+      record(true);
+      return result;
+    } catch (error) {
+      record(false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Performs a single quick status poll
+   * @param chatId The chat ID the job was started with
+   * @param signal Optional AbortSignal to cancel the request
+   * @param maxRetries Maximum retries after a transient failure
+   * @param queue The priority and queue position callback of the poll
+   * @returns Promise with the status payload and Retry-After hint, or the not found error if the job has no record yet
+   */
+  private async pollStatus(
+    chatId: string,
+    signal: AbortSignal | undefined,
+    maxRetries: number,
+    queue: QueueOptions = {}
+  ): Promise<{ data?: ScraperResponse; retryAfter?: number; notFound?: ScraperJobNotFoundError }> {
+    const scraperUrl = `${this.apiBase}/get_data?chat_id=${encodeURIComponent(chatId)}&format=quick`;
+    
+    try {
+      const scraperResponse = await this.request(scraperUrl, {
         method: 'GET',
         headers: {
           'x-api-key': this.apiKey
-        }
-      });
+        },
+        signal
+      }, maxRetries, 'poll', queue);
       
-      const scraperData: ScraperResponse = await scraperResponse.json() as ScraperResponse;
-      
-      // If still processing, wait and try again
-      if (scraperData.processing === true) {
-        await sleep(this.pollingInterval);
-        continue;
+      return {
+        retryAfter: parseRetryAfter(scraperResponse.headers?.get('retry-after')),
+        data: await this.parseJson<ScraperResponse>(scraperResponse, 'get_data')
+      };
+    } catch (error) {
+      // Right after submission the job may not have a result record yet, so keep polling
+      if (!(error instanceof ScraperJobNotFoundError)) {
+        throw error;
       }
+      return { notFound: error };
+    }
+  }
+
+  /**
+   * Derives the job status from a quick status payload
+   * @param data The status payload
+   * @returns The job status
+   */
+  private jobStatus(data: ScraperResponse): ScrapeJobStatus {
+    if (data.processing === true) {
+      return 'processing';
+    }
+    if (data.status === 'failed' || (data.status === 'completed' && data.error)) {
+      return 'failed';
+    }
+    return data.status === 'completed' ? 'completed' : 'processing';
+  }
+
+  /**
+   * Builds the error for a failed job
+   * @param data The status payload of the failed job
+   * @param jobId The job that failed
+   * @returns The error to throw
+   */
+  private jobFailedError(data: ScraperResponse, jobId: string): ScraperJobFailedError {
+    return new ScraperJobFailedError(
+      data.error ? `Scraper error: ${data.error}` : `Scrape job ${jobId} failed`,
+      jobId
+    );
+  }
+
+  /**
+   * Fetches the result of a scrape job in the given format
+   * @param chatId The chat ID the job was started with
+   * @param format The format to fetch the result in
+   * @param signal Optional AbortSignal to cancel the request
+   * @param maxRetries Maximum retries after a transient failure
+   * @param queue The priority and queue position callback of the request
+   * @returns Promise with the parsed result
+   * @throws ScraperJobNotFoundError if the job has no result yet
+   */
+  async fetchResult(
+    chatId: string,
+    format: ScrapeFormat,
+    signal?: AbortSignal,
+    maxRetries: number = this.pollingOptions.maxRetries,
+    queue: QueueOptions = {}
+  ): Promise<ScraperResponse> {
+    const response = await this.request(
+      `${this.apiBase}/get_data?chat_id=${encodeURIComponent(chatId)}&format=${GET_DATA_FORMATS[format]}`,
+      {
+        method: 'GET',
+        headers: {
+          'x-api-key': this.apiKey
+        },
+        signal
+      },
+      maxRetries,
+      'poll',
+      queue
+    );
+    
+    return this.parseResult(response, format);
+  }
+
+  /**
+   * Stores a fresh result in the cache, embedding screenshot bytes since signed URLs expire
+   * @param prompt The scrape prompt
+   * @param format The scrape format
+   * @param result The fresh result
+   * @param signal Optional AbortSignal to cancel the screenshot download
+   * @param variant Optional cache variant, such as the serialized output schema
+   * @returns Promise with the result annotated with its cache metadata
+   */
+  private async storeInCache(
+    prompt: string,
+    format: ScrapeFormat,
+    result: ScraperResponse,
+    signal?: AbortSignal,
+    variant?: string
+  ): Promise<ScraperResponse> {
+    if (!this.cache) {
+      return result;
+    }
+    
+    const response = await this.embedScreenshot(format, result, signal);
+    try {
+      const entry = await this.cache.set(this.owner, prompt, format, response, variant);
+      return { ...response, cache: { hit: false, key: entry.key, storedAt: new Date(entry.storedAt).toISOString() } };
+    } catch {
+      // A cache that cannot be written must not fail an otherwise successful scrape
+      return response;
+    }
+  }
+
+  /**
+   * Records a completed result in the history, if there is one, embedding screenshot bytes since signed URLs expire
+   * @param record The job and its result
+   * @param signal Optional AbortSignal to cancel the screenshot download
+   * @returns Promise with the result as recorded, so its screenshot is not downloaded again
+   */
+  private async recordHistory(record: HistoryRecord, signal?: AbortSignal): Promise<ScraperResponse> {
+    if (!this.history) {
+      return record.response;
+    }
+    const response = await this.embedScreenshot(record.format, record.response, signal);
+    this.history.record({ ...record, response });
+    return response;
+  }
+
+  /**
+   * Embeds the image of a screenshot result, downloading it while its signed URL is still valid
+   * @param format The result's format
+   * @param result The result
+   * @param signal Optional AbortSignal to cancel the download
+   * @returns Promise with the result holding the image bytes; results of other formats are returned as they are
+   */
+  private async embedScreenshot(format: ScrapeFormat, result: ScraperResponse, signal?: AbortSignal): Promise<ScraperResponse> {
+    if (format !== 'screenshot' || !result.screenshot?.url || result.screenshot.data) {
+      return result;
+    }
+    const { bytes, mimeType } = await this.downloadScreenshot(result.screenshot.url, signal);
+    return { ...result, screenshot: { ...result.screenshot, data: bytes.toString('base64'), mimeType } };
+  }
+
+  /**
+   * Downloads a screenshot from its signed URL
+   * @param url The signed screenshot URL
+   * @param signal Optional AbortSignal to cancel the download
+   * @returns Promise with the image bytes and the reported Content-Type
+   * @throws UrlPolicyError if the URL policy refuses the URL or a redirect
+   */
+  async downloadScreenshot(url: string, signal?: AbortSignal): Promise<{ bytes: Buffer; mimeType?: string }> {
+    let target = url;
+    // Under a URL policy redirects are followed one at a time, so every hop is checked before it is requested
+    for (let redirects = 0; ; redirects++) {
+      await this.checkDownload(target);
+      const response = await this.request(target, { method: 'GET', signal, redirect: this.policy ? 'manual' : 'follow' });
+      const location = isRedirect(response.status) ? response.headers?.get('location') : undefined;
+      if (!location) {
+        const bytes = Buffer.from(await response.arrayBuffer());
+        return { bytes, mimeType: response.headers?.get('content-type')?.split(';')[0].trim() || undefined };
+      }
+      if (redirects >= MAX_REDIRECTS) {
+        throw new ScraperError('request_failed', `The screenshot download was redirected more than ${MAX_REDIRECTS} times`);
+      }
+      target = new URL(location, target).toString();
+    }
+  }
+
+  /**
+   * Checks a download URL against the URL policy; the Scraper.is API itself is always allowed
+   * @param url The URL to download
+   * @throws UrlPolicyError if the URL policy refuses the URL
+   */
+  private async checkDownload(url: string): Promise<void> {
+    if (this.policy && new URL(url).origin !== new URL(this.apiBase).origin) {
+      await this.policy.checkDownload(url);
+    }
+  }
+
+  /**
+   * Builds the final result once polling reports a completed job
+   * @param chatId The chat ID the job was started with
+   * @param format The requested format
+   * @param quickData The completed quick polling response
+   * @param signal Optional AbortSignal to cancel the request
+   * @param maxRetries Maximum retries for the result request
+   * @param queue The priority and queue position callback of the result request
+   * @returns Promise with the result, or undefined if it is not available yet
+   */
+  private async completedResult(
+    chatId: string,
+    format: ScrapeFormat,
+    quickData: ScraperResponse,
+    signal: AbortSignal | undefined,
+    maxRetries: number,
+    queue: QueueOptions = {}
+  ): Promise<ScraperResponse | undefined> {
+    if (QUICK_FORMATS.includes(format)) {
+      if (!quickData.markdown && !quickData.screenshot) {
+        return undefined;
+      }
+      return format === 'html' ? { ...quickData, html: quickData.markdown } : quickData;
+    }
+    
+    try {
+      return { ...quickData, ...await this.fetchResult(chatId, format, signal, maxRetries, queue) };
+    } catch (error) {
+      // The status can flip to completed shortly before the result is stored
+      if (error instanceof ScraperJobNotFoundError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parses a /get_data response according to its Content-Type, falling back on the requested format
+   * @param response The successful response
+   * @param format The requested format
+   * @returns Promise with the parsed result
+   * @throws ScraperMalformedResponseError if the body does not match its type
+   */
+  private async parseResult(response: Response, format: ScrapeFormat): Promise<ScraperResponse> {
+    const contentType = (response.headers?.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+    const kind: PayloadKind =
+      contentType.startsWith('image/') ? 'image' :
+        contentType.includes('json') ? 'json' :
+          contentType.includes('csv') ? 'csv' :
+            contentType.includes('xml') ? 'xml' :
+              contentType.includes('markdown') ? 'markdown' :
+                FORMAT_PAYLOADS[format];
+    const meta = contentType ? { contentType } : {};
+    
+    if (kind === 'image') {
+      const bytes = Buffer.from(await response.arrayBuffer());
+      return { ...meta, screenshot: { data: bytes.toString('base64'), mimeType: contentType || 'image/jpeg' } };
+    }
+    
+    if (kind === 'json') {
+      if (QUICK_FORMATS.includes(format)) {
+        return { ...meta, ...await this.parseJson<ScraperResponse>(response, 'get_data') };
+      }
+      const body = await this.readJson(response, 'get_data');
+      if (typeof body !== 'object' || body === null) {
+        throw new ScraperMalformedResponseError(`Scraper.is returned an unexpected ${format} result`);
+      }
+      return { ...meta, data: body as Record<string, unknown> | unknown[] };
+    }
+    
+    const text = await response.text();
+    // The export endpoints answer with a bare "error" body when conversion fails
+    if (text.trim() === 'error') {
+      throw new ScraperMalformedResponseError(`Scraper.is could not export the result as ${format}`);
+    }
+    
+    switch (kind) {
+    case 'csv':
+      return { ...meta, csv: text };
+    case 'xml':
+      return { ...meta, xml: text };
+    default:
+      return format === 'html' ? { ...meta, markdown: text, html: text } : { ...meta, markdown: text };
+    }
+  }
+
+  /**
+   * Performs a fetch, retrying transient failures and translating HTTP errors into ScraperErrors
+   * @param url The URL to request
+   * @param init The request options
+   * @param maxRetries Maximum retries after a rate limit, 5xx or network failure
+   * @param kind The rate limit the request counts against; requests without one are sent right away
+   * @param queue The priority and queue position callback of the request
+   * @returns Promise with the successful response
+   * @throws ScraperQueueFullError if the request cannot be queued
+   */
+  private async request(
+    url: string,
+    init: RequestInit,
+    maxRetries: number = this.pollingOptions.maxRetries,
+    kind?: RequestKind,
+    queue: QueueOptions = {}
+  ): Promise<Response> {
+    const endpoint = new URL(url).pathname;
+    
+    for (let retry = 0; ; retry++) {
+      let error: ScraperError;
       
-      // Check if we've reached a terminal status
-      const scraperStatus = scraperData.status || null;
-      const isTerminalStatus = ['completed', 'failed'].includes(scraperStatus || '');
-      
-      if (scraperStatus && isTerminalStatus) {
-        // Check for errors
-        if (scraperData.error) {
-          throw new Error(`Scraper error: ${scraperData.error}`);
+      try {
+        const response = kind
+          ? await this.scheduler.schedule(kind, () => fetch(url, init), { ...queue, signal: init.signal ?? undefined })
+          : await fetch(url, init);
+        // Redirects are only returned when the caller follows them itself
+        if (response.ok || (init.redirect === 'manual' && isRedirect(response.status))) {
+          return response;
         }
-        
-        // Check if we have actual data
-        if (!scraperData.markdown && !scraperData.screenshot) {
-          await sleep(this.pollingInterval);
-          continue;
-        } else {
-          // Report 100% progress
-          if (onProgress) {
-            await onProgress(100);
-          }
-          polling = false;
-          return scraperData;
+        error = errorFromStatus(
+          response.status,
+          endpoint,
+          await this.readErrorDetail(response),
+          parseRetryAfter(response.headers?.get('retry-after'))
+        );
+      } catch (fetchError) {
+        if (init.signal?.aborted) {
+          throw new ScraperAbortedError();
         }
-      } else {
-        await sleep(this.pollingInterval);
+        // Raised by the scheduler before anything was sent
+        if (fetchError instanceof ScraperError) {
+          throw fetchError;
+        }
+        error = new ScraperUpstreamError(
+          `Could not reach Scraper.is at ${endpoint}: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`
+        );
       }
+      
+      if (!isRetryableError(error) || retry >= maxRetries) {
+        throw error;
+      }
+      
+      const retryAfter = error instanceof ScraperRateLimitError ? error.retryAfter : undefined;
+      await sleep(
+        retryAfter ?? backoffDelay(retry + 1, RETRY_BASE_DELAY, this.pollingOptions.maxInterval, 2, this.pollingOptions.jitter),
+        init.signal ?? undefined
+      );
+      this.throwIfAborted(init.signal ?? undefined);
     }
+  }
+
+  /**
+   * Extracts an error message from an unsuccessful response body
+   * @param response The unsuccessful response
+   * @returns The error detail, or undefined if the body has none
+   */
+  private async readErrorDetail(response: Response): Promise<string | undefined> {
+    try {
+      const body = await response.text();
+      try {
+        const parsed = JSON.parse(body) as { error?: unknown; message?: unknown };
+        const detail = parsed.error ?? parsed.message;
+        return detail ? String(detail) : undefined;
+      } catch {
+        return body.trim().substring(0, 200) || undefined;
+      }
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Normalizes the screenshot field of a /screenshot response to the { url } shape used by /get_data
+   * @param data The parsed response
+   * @returns The normalized response
+   */
+  private normalizeScreenshot(data: ScraperResponse & { screenshot_url?: unknown }): ScraperResponse {
+    const { screenshot_url: screenshotUrl, ...rest } = data;
+    const screenshot = rest.screenshot as unknown;
     
-    throw new Error('Polling ended without data');
+    if (typeof screenshot === 'string') {
+      return { ...rest, screenshot: { url: screenshot } };
+    }
+    if (!screenshot && typeof screenshotUrl === 'string') {
+      return { ...rest, screenshot: { url: screenshotUrl } };
+    }
+    return rest;
+  }
+
+  /**
+   * Reads a JSON value from a response body
+   * @param response The response to read
+   * @param endpoint The endpoint name, for error messages
+   * @returns Promise with the parsed value
+   * @throws ScraperMalformedResponseError if the body is not valid JSON
+   */
+  private async readJson(response: Response, endpoint: string): Promise<unknown> {
+    try {
+      return await response.json();
+    } catch (error) {
+      throw new ScraperMalformedResponseError(
+        `Scraper.is returned invalid JSON from ${endpoint}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Parses a JSON object from a response body
+   * @param response The response to parse
+   * @param endpoint The endpoint name, for error messages
+   * @returns Promise with the parsed object
+   * @throws ScraperMalformedResponseError if the body is not a JSON object
+   */
+  private async parseJson<T>(response: Response, endpoint: string): Promise<T> {
+    const body = await this.readJson(response, endpoint);
+    
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new ScraperMalformedResponseError(`Scraper.is returned an unexpected response from ${endpoint}`);
+    }
+    return body as T;
+  }
+
+  /**
+   * Throws if the given signal has been aborted
+   * @param signal The optional AbortSignal to check
+   */
+  private throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new ScraperAbortedError();
+    }
   }
-} 
\ No newline at end of file
+} 
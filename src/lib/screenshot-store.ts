@@ -0,0 +1,114 @@
+import { generateChatId, sniffImageMimeType } from '../utils/index.js';
+
+/**
+ * URI scheme of screenshot resources
+ */
+export const SCREENSHOT_URI_PREFIX = 'scraperis_screenshot://';
+
+export interface ScreenshotEntry {
+  id: string;
+  uri: string;
+  /** The page the screenshot was taken of, if known */
+  pageUrl?: string;
+  mimeType: string;
+  bytes: Buffer;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+/**
+ * In-memory store of downloaded screenshots, exposed as MCP resources under stable URIs.
+ * Entries expire after a TTL and the least recently used are evicted beyond a total size.
+ */
+export class ScreenshotStore {
+  private entries: Map<string, ScreenshotEntry>;
+  private maxBytes: number;
+  private ttl: number;
+
+  /**
+   * Creates a new ScreenshotStore
+   * @param maxBytes Maximum total size of cached screenshots in bytes
+   * @param ttl Time in milliseconds after which a screenshot expires
+   */
+  constructor(maxBytes: number = 50 * 1024 * 1024, ttl: number = 60 * 60 * 1000) {
+    this.entries = new Map<string, ScreenshotEntry>();
+    this.maxBytes = maxBytes;
+    this.ttl = ttl;
+  }
+
+  /**
+   * Adds a screenshot to the store
+   * @param bytes The image bytes
+   * @param pageUrl The page the screenshot was taken of
+   * @param mimeType The MIME type reported by the source, used when the bytes are not recognized
+   * @returns The stored entry
+   */
+  add(bytes: Buffer, pageUrl?: string, mimeType?: string): ScreenshotEntry {
+    const id = generateChatId();
+    const now = Date.now();
+    const entry: ScreenshotEntry = {
+      id,
+      uri: `${SCREENSHOT_URI_PREFIX}${id}`,
+      pageUrl,
+      mimeType: sniffImageMimeType(bytes, mimeType?.startsWith('image/') ? mimeType : 'image/jpeg'),
+      bytes,
+      createdAt: now,
+      lastAccessedAt: now
+    };
+    
+    this.entries.set(id, entry);
+    this.evict();
+    return entry;
+  }
+
+  /**
+   * Gets a screenshot by its resource URI
+   * @param uri The resource URI
+   * @returns The entry, or undefined if it is unknown or expired
+   */
+  get(uri: string): ScreenshotEntry | undefined {
+    if (!uri.startsWith(SCREENSHOT_URI_PREFIX)) {
+      return undefined;
+    }
+    
+    this.evict();
+    const entry = this.entries.get(uri.substring(SCREENSHOT_URI_PREFIX.length));
+    if (entry) {
+      entry.lastAccessedAt = Date.now();
+    }
+    return entry;
+  }
+
+  /**
+   * Lists the stored screenshots, newest first
+   * @returns The entries
+   */
+  list(): ScreenshotEntry[] {
+    this.evict();
+    return [...this.entries.values()].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Drops expired entries, then the least recently used ones until the store fits its size limit
+   */
+  private evict(): void {
+    const now = Date.now();
+    let total = 0;
+    
+    for (const [id, entry] of this.entries) {
+      if (now - entry.createdAt > this.ttl) {
+        this.entries.delete(id);
+      } else {
+        total += entry.bytes.length;
+      }
+    }
+    
+    const byAccess = [...this.entries.values()].sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+    // Always keep the most recent entry, even if it alone exceeds the limit
+    while (total > this.maxBytes && byAccess.length > 1) {
+      const victim = byAccess.shift() as ScreenshotEntry;
+      this.entries.delete(victim.id);
+      total -= victim.bytes.length;
+    }
+  }
+}
@@ -0,0 +1,231 @@
+import { BlockList, isIP } from 'node:net';
+import { lookup } from 'node:dns/promises';
+import { UrlPolicyError } from './errors.js';
+
+/**
+ * How long to wait for a host name to resolve, in milliseconds
+ */
+const LOOKUP_TIMEOUT = 5000;
+
+/**
+ * URLs named in prompts, with any scheme so that disallowed schemes are caught too
+ */
+const PROMPT_URL_PATTERN = /\b[a-z][a-z0-9+.-]*:\/\/[^\s"'<>()[\]{}]+/gi;
+
+/**
+ * Loopback, private, link-local, shared, multicast and reserved networks, including their IPv4-mapped IPv6 forms
+ */
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface UrlPolicyOptions {
+  /** Host name patterns that may be scraped, with * wildcards; every host when unset or empty */
+  allowedDomains?: string[];
+  /** Host name patterns that may never be scraped, with * wildcards; they win over the allowed ones */
+  blockedDomains?: string[];
+  /** URL schemes that may be scraped (default http and https) */
+  allowedSchemes?: string[];
+  /** Allow hosts that are or resolve to loopback, private or link-local addresses (default false) */
+  allowPrivateNetworks?: boolean;
+  /** Resolves a host name to its addresses; defaults to the system resolver */
+  resolve?: (hostname: string) => Promise<string[]>;
+}
+
+/**
+ * Decides which URLs may be scraped or fetched: by scheme, by host name pattern, and by the addresses hosts resolve to
+ */
+export class UrlPolicy {
+  private allowedDomains: RegExp[];
+  private blockedDomains: RegExp[];
+  private allowedSchemes: Set<string>;
+  private allowPrivateNetworks: boolean;
+  private resolve: (hostname: string) => Promise<string[]>;
+
+  /**
+   * Creates a new UrlPolicy
+   * @param options The domain lists, schemes and private network setting
+   */
+  constructor(options: UrlPolicyOptions = {}) {
+    this.allowedDomains = (options.allowedDomains ?? []).map(domainPattern);
+    this.blockedDomains = (options.blockedDomains ?? []).map(domainPattern);
+    this.allowedSchemes = new Set((options.allowedSchemes ?? ['http', 'https']).map(scheme => scheme.toLowerCase()));
+    this.allowPrivateNetworks = options.allowPrivateNetworks ?? false;
+    this.resolve = options.resolve ?? resolveHost;
+  }
+
+  /**
+   * Checks a page URL before it is scraped
+   * @param url The URL
+   * @throws UrlPolicyError if the URL's scheme, host or addresses are not allowed
+   */
+  async check(url: string): Promise<void> {
+    const parsed = parseUrl(url);
+    if (!this.allowedSchemes.has(parsed.protocol.slice(0, -1))) {
+      throw new UrlPolicyError(
+        `${url} is blocked by the URL policy: the ${parsed.protocol.slice(0, -1)} scheme is not allowed (allowed: ${[...this.allowedSchemes].join(', ')})`,
+        url,
+        'scheme'
+      );
+    }
+
+    const host = hostName(parsed);
+    if (this.blockedDomains.some(pattern => pattern.test(host))) {
+      throw new UrlPolicyError(`${url} is blocked by the URL policy: ${host} is a blocked domain`, url, 'domain');
+    }
+    if (this.allowedDomains.length > 0 && !this.allowedDomains.some(pattern => pattern.test(host))) {
+      throw new UrlPolicyError(`${url} is blocked by the URL policy: ${host} is not an allowed domain`, url, 'domain');
+    }
+    await this.checkAddresses(url, host);
+  }
+
+  /**
+   * Checks a URL the server downloads from itself, such as a screenshot link; the domain lists do not apply
+   * @param url The URL
+   * @throws UrlPolicyError if the URL is not http(s) or its host is on a private network
+   */
+  async checkDownload(url: string): Promise<void> {
+    const parsed = parseUrl(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new UrlPolicyError(`${url} is blocked by the URL policy: only http and https URLs are downloaded`, url, 'scheme');
+    }
+    await this.checkAddresses(url, hostName(parsed));
+  }
+
+  /**
+   * Checks every URL named in a scrape prompt
+   * @param prompt The prompt
+   * @throws UrlPolicyError if a URL is not allowed, or if only some domains are allowed and the prompt names no URL
+   */
+  async checkPrompt(prompt: string): Promise<void> {
+    const urls = [...prompt.matchAll(PROMPT_URL_PATTERN)].map(match => match[0].replace(/[.,;:!?]+$/, ''));
+    // Host names without a scheme cannot be told apart from other words, so a URL is required to check them
+    if (urls.length === 0 && this.allowedDomains.length > 0) {
+      throw new UrlPolicyError(
+        'The prompt is blocked by the URL policy: only some domains may be scraped, so the prompt must name the page with a full URL',
+        prompt,
+        'missing_url'
+      );
+    }
+    for (const url of urls) {
+      await this.check(url);
+    }
+  }
+
+  /**
+   * Whether a page URL may be scraped
+   * @param url The URL
+   * @returns Promise with true if check accepts the URL
+   */
+  async allows(url: string): Promise<boolean> {
+    try {
+      await this.check(url);
+      return true;
+    } catch (error) {
+      if (error instanceof UrlPolicyError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Refuses hosts on loopback, private or link-local networks, unless those are allowed
+   * @param url The URL, for the error message
+   * @param host The URL's host name or IP address
+   * @throws UrlPolicyError if the host is or resolves to a private address
+   */
+  private async checkAddresses(url: string, host: string): Promise<void> {
+    if (this.allowPrivateNetworks) {
+      return;
+    }
+    if (host === 'localhost' || host.endsWith('.localhost')) {
+      throw new UrlPolicyError(`${url} is blocked by the URL policy: ${host} is a loopback host`, url, 'private_network');
+    }
+
+    // A host that does not resolve here has no address to refuse; Scraper.is resolves it on its side
+    const addresses = isIP(host) ? [host] : await this.resolve(host).catch(() => []);
+    const blocked = addresses.find(isPrivateAddress);
+    if (blocked) {
+      throw new UrlPolicyError(
+        `${url} is blocked by the URL policy: ${host === blocked ? host : `${host} resolves to ${blocked}, which`} is a private network address`,
+        url,
+        'private_network'
+      );
+    }
+  }
+}
+
+/**
+ * Whether an IP address is on a loopback, private, link-local or otherwise non-public network
+ * @param address The IPv4 or IPv6 address
+ * @returns True for non-public addresses
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && PRIVATE_NETWORKS.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Parses a URL
+ * @param url The URL
+ * @returns The parsed URL
+ * @throws UrlPolicyError if the URL cannot be parsed
+ */
+function parseUrl(url: string): URL {
+  try {
+    return new URL(url);
+  } catch {
+    throw new UrlPolicyError(`${url} is blocked by the URL policy: it is not a valid URL`, url, 'invalid_url');
+  }
+}
+
+/**
+ * Gets the host of a URL in the form domain patterns are matched against
+ * @param url The parsed URL
+ * @returns The lower case host name without a trailing dot, or the IP address without brackets
+ */
+function hostName(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '').toLowerCase();
+}
+
+/**
+ * Converts a host name pattern with * wildcards to a regular expression matching whole host names
+ * @param value The pattern, such as *.example.com
+ * @returns The regular expression
+ */
+function domainPattern(value: string): RegExp {
+  const body = value
+    .trim()
+    .toLowerCase()
+    .replace(/\.$/, '')
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}$`);
+}
+
+/**
+ * Resolves a host name with the system resolver, giving up after LOOKUP_TIMEOUT
+ * @param hostname The host name
+ * @returns Promise with the addresses of the host
+ */
+async function resolveHost(hostname: string): Promise<string[]> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Resolving ${hostname} timed out`)), LOOKUP_TIMEOUT);
+  });
+  try {
+    const results = await Promise.race([lookup(hostname, { all: true, verbatim: true }), timeout]);
+    return results.map(result => result.address);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,270 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import { ScraperBudgetError } from './errors.js';
+import { MeteredOperation, UsageRecord } from '../types/index.js';
+
+/**
+ * How long records are kept, in milliseconds
+ */
+const RETENTION = 90 * 24 * 60 * 60 * 1000;
+
+/** A call to record, before the ledger stamps it */
+export type UsageEntry = Omit<UsageRecord, 'time' | 'session'>;
+
+/**
+ * Receives the usage of a ScraperAPI client and enforces its budgets
+ */
+export interface UsageMeter {
+  /**
+   * Checks that a call costing one credit fits the budgets, counting the credits reserved by calls in flight
+   * @throws ScraperBudgetError if a budget is used up
+   */
+  checkBudget(): void;
+  /**
+   * Checks the budgets and reserves one credit for a call about to be submitted, so concurrent calls cannot all
+   * pass the check before any of them is recorded
+   * @returns Releases the reservation; call it once the call is recorded or has failed
+   * @throws ScraperBudgetError if a budget is used up
+   */
+  reserve(): () => void;
+  /**
+   * Records a finished call
+   * @param entry The call
+   */
+  record(entry: UsageEntry): void;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failures: number;
+  /** Calls served from the result cache */
+  cacheHits: number;
+  polls: number;
+  credits: number;
+  durationMs: number;
+  /** Calls and credits by operation */
+  byOperation: Partial<Record<MeteredOperation, { calls: number; credits: number }>>;
+}
+
+/**
+ * Filters the records a report covers
+ */
+export interface UsageFilter {
+  /** Only records of this session */
+  session?: string;
+  /** Only records made at or after this epoch millisecond */
+  since?: number;
+  /** Only records made with the API keys of this owner */
+  owner?: string;
+}
+
+/**
+ * Records every Scraper.is call in a JSON lines file and tracks the credits spent against a daily budget
+ */
+export class UsageLedger {
+  private file?: string;
+  private dailyBudget?: number;
+  private records: UsageRecord[];
+  /** Credits reserved by calls in flight, by session */
+  private reserved: Map<string, number> = new Map();
+  /** Appends are chained so lines are written in order */
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new UsageLedger
+   * @param file The file records are appended to; records are only kept in memory when omitted
+   * @param dailyBudget Credits all sessions may spend per UTC day
+   * @param records Records loaded from an earlier run
+   */
+  constructor(file?: string, dailyBudget?: number, records: UsageRecord[] = []) {
+    this.file = file;
+    this.dailyBudget = dailyBudget;
+    this.records = records;
+  }
+
+  /**
+   * Creates a ledger with the records of its file, dropping records past the retention period
+   * @param file The ledger file; a missing file means no records yet
+   * @param dailyBudget Credits all sessions may spend per UTC day
+   * @returns Promise with the ledger
+   */
+  static async open(file: string, dailyBudget?: number): Promise<UsageLedger> {
+    let raw: string;
+    try {
+      raw = await readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new UsageLedger(file, dailyBudget);
+      }
+      throw error;
+    }
+
+    const lines = raw.split('\n').filter(line => line.trim());
+    const cutoff = Date.now() - RETENTION;
+    const records: UsageRecord[] = [];
+    for (const line of lines) {
+      try {
+        const record = JSON.parse(line) as UsageRecord;
+        if (typeof record.time === 'number' && record.time >= cutoff) {
+          records.push(record);
+        }
+      } catch {
+        // A line cut short by a crash is dropped
+      }
+    }
+
+    if (records.length < lines.length) {
+      // Rewrite through a temporary file so a crash never loses the whole ledger
+      const tmp = `${file}.${process.pid}.tmp`;
+      await writeFile(tmp, records.map(record => `${JSON.stringify(record)}\n`).join(''), 'utf8');
+      await rename(tmp, file);
+    }
+    return new UsageLedger(file, dailyBudget, records);
+  }
+
+  /**
+   * Records a finished call
+   * @param entry The call
+   * @param session The session that made the call
+   */
+  record(entry: UsageEntry, session?: string): void {
+    const record: UsageRecord = { time: Date.now(), ...entry, ...(session && { session }) };
+    this.records.push(record);
+
+    const file = this.file;
+    if (file) {
+      this.writes = this.writes
+        .then(async () => {
+          await mkdir(dirname(file), { recursive: true });
+          await appendFile(file, `${JSON.stringify(record)}\n`, 'utf8');
+        })
+        // A ledger that cannot be written must not fail the call it records
+        .catch(() => undefined);
+    }
+  }
+
+  /**
+   * Creates the meter of one session
+   * @param session The session id
+   * @param budget Credits the session may spend
+   * @returns The meter, which checks both the session and the daily budget
+   */
+  session(session: string, budget?: number): UsageMeter {
+    const checkBudget = () => {
+      if (budget !== undefined) {
+        const used = this.totals({ session }).credits + (this.reserved.get(session) ?? 0);
+        if (used >= budget) {
+          throw new ScraperBudgetError('session', budget, used);
+        }
+      }
+      this.checkDailyBudget();
+    };
+
+    return {
+      checkBudget,
+      reserve: () => {
+        checkBudget();
+        this.reserved.set(session, (this.reserved.get(session) ?? 0) + 1);
+        let released = false;
+        return () => {
+          if (released) {
+            return;
+          }
+          released = true;
+          const left = (this.reserved.get(session) ?? 1) - 1;
+          if (left > 0) {
+            this.reserved.set(session, left);
+          } else {
+            this.reserved.delete(session);
+          }
+        };
+      },
+      record: entry => this.record(entry, session)
+    };
+  }
+
+  /**
+   * Checks that a call costing one credit fits the daily budget, counting the credits reserved by calls in flight
+   * @throws ScraperBudgetError if the daily budget is used up
+   */
+  checkDailyBudget(): void {
+    if (this.dailyBudget === undefined) {
+      return;
+    }
+    let used = this.totals({ since: startOfDay() }).credits;
+    for (const credits of this.reserved.values()) {
+      used += credits;
+    }
+    if (used >= this.dailyBudget) {
+      throw new ScraperBudgetError('daily', this.dailyBudget, used);
+    }
+  }
+
+  /**
+   * The credits all sessions may spend per UTC day
+   */
+  get daily(): number | undefined {
+    return this.dailyBudget;
+  }
+
+  /**
+   * Sums up the recorded calls
+   * @param filter The session, time range and key owner to cover
+   * @returns The totals
+   */
+  totals(filter: UsageFilter = {}): UsageTotals {
+    const totals: UsageTotals = { calls: 0, failures: 0, cacheHits: 0, polls: 0, credits: 0, durationMs: 0, byOperation: {} };
+    for (const record of this.filter(filter)) {
+      totals.calls++;
+      totals.failures += record.success ? 0 : 1;
+      totals.cacheHits += record.endpoint === 'cache' ? 1 : 0;
+      totals.polls += record.polls;
+      totals.credits += record.credits;
+      totals.durationMs += record.durationMs;
+      const operation = totals.byOperation[record.operation] ?? { calls: 0, credits: 0 };
+      operation.calls++;
+      operation.credits += record.credits;
+      totals.byOperation[record.operation] = operation;
+    }
+    return totals;
+  }
+
+  /**
+   * Lists the most recent calls
+   * @param limit Maximum number of calls
+   * @param filter The session, time range and key owner to cover
+   * @returns The calls, newest first
+   */
+  recent(limit: number, filter: UsageFilter = {}): UsageRecord[] {
+    return limit > 0 ? this.filter(filter).slice(-limit).reverse() : [];
+  }
+
+  /**
+   * Waits until every record has been written to the file
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  /**
+   * Selects the records matching a filter
+   * @param filter The session, time range and key owner
+   * @returns The records, oldest first
+   */
+  private filter({ session, since, owner }: UsageFilter): UsageRecord[] {
+    return this.records.filter(record =>
+      (session === undefined || record.session === session) && (since === undefined || record.time >= since) &&
+      (owner === undefined || record.owner === owner));
+  }
+}
+
+/**
+ * Start of the current UTC day
+ * @param now The current time in epoch milliseconds
+ * @returns The start of its UTC day in epoch milliseconds
+ */
+export function startOfDay(now: number = Date.now()): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
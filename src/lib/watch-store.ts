@@ -0,0 +1,212 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import { Watch, WatchChange, WatchOptions, WatchSnapshot } from '../types/index.js';
+import { generateChatId } from '../utils/index.js';
+
+/**
+ * URI scheme of watch resources: scraperis_watch://<watch id>
+ */
+export const WATCH_URI_PREFIX = 'scraperis_watch://';
+
+/** Snapshots kept per watch; only the latest is compared against */
+const MAX_SNAPSHOTS = 5;
+
+/** Changes kept per watch */
+const MAX_CHANGES = 50;
+
+/** Maximum number of watches */
+const MAX_WATCHES = 100;
+
+/**
+ * Watched pages with their recent snapshots and changes, kept in memory and saved to a JSON file after every update
+ */
+export class WatchStore {
+  private file?: string;
+  private watches: Map<string, Watch>;
+  /** Saves are chained so an older state never overwrites a newer one */
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new WatchStore
+   * @param file The file watches are saved to; watches are only kept in memory when omitted
+   * @param watches Watches loaded from an earlier run
+   */
+  constructor(file?: string, watches: Watch[] = []) {
+    this.file = file;
+    this.watches = new Map(watches.map(watch => [watch.id, watch]));
+  }
+
+  /**
+   * Creates a store with the watches of its file
+   * @param file The watch file; a missing file means no watches yet
+   * @param onError Called when the file cannot be parsed; it is then moved aside and the store starts empty
+   * @returns Promise with the store
+   */
+  static async open(file: string, onError?: (error: Error) => void): Promise<WatchStore> {
+    let raw: string;
+    try {
+      raw = await readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new WatchStore(file);
+      }
+      throw error;
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as { watches?: Watch[] };
+      return new WatchStore(file, Array.isArray(parsed.watches) ? parsed.watches : []);
+    } catch (error) {
+      // Keep the broken file for inspection rather than overwriting it with the next save
+      await rename(file, `${file}.corrupt`);
+      onError?.(new Error(`Cannot parse ${file}, moved it to ${file}.corrupt: ${error instanceof Error ? error.message : String(error)}`));
+      return new WatchStore(file);
+    }
+  }
+
+  /**
+   * Adds a watch, due for its first check right away
+   * @param options The watched prompt, comparison and interval
+   * @returns The watch
+   * @throws Error if the maximum number of watches is reached
+   */
+  add(options: WatchOptions): Watch {
+    if (this.watches.size >= MAX_WATCHES) {
+      throw new Error(`Cannot watch more than ${MAX_WATCHES} pages; unwatch some first`);
+    }
+    const now = Date.now();
+    const watch: Watch = { ...options, id: generateChatId(), createdAt: now, nextCheckAt: now, snapshots: [], changes: [] };
+    this.watches.set(watch.id, watch);
+    this.save();
+    return watch;
+  }
+
+  /**
+   * Gets a watch by its id
+   * @param id The watch id
+   * @returns The watch, or undefined if it is unknown
+   */
+  get(id: string): Watch | undefined {
+    return this.watches.get(id);
+  }
+
+  /**
+   * Gets a watch by its resource URI
+   * @param uri The resource URI
+   * @returns The watch, or undefined if it is unknown
+   */
+  resolve(uri: string): Watch | undefined {
+    return uri.startsWith(WATCH_URI_PREFIX) ? this.get(uri.substring(WATCH_URI_PREFIX.length)) : undefined;
+  }
+
+  /**
+   * Lists the watches, oldest first
+   * @returns The watches
+   */
+  list(): Watch[] {
+    return [...this.watches.values()];
+  }
+
+  /**
+   * Lists the watches due for a check
+   * @param now Epoch milliseconds to compare against
+   * @returns The due watches, most overdue first
+   */
+  due(now: number = Date.now()): Watch[] {
+    return this.list().filter(watch => watch.nextCheckAt <= now).sort((a, b) => a.nextCheckAt - b.nextCheckAt);
+  }
+
+  /**
+   * Removes a watch
+   * @param id The watch id
+   * @returns The removed watch, or undefined if it is unknown
+   */
+  remove(id: string): Watch | undefined {
+    const watch = this.watches.get(id);
+    if (watch) {
+      this.watches.delete(id);
+      this.save();
+    }
+    return watch;
+  }
+
+  /**
+   * Records a successful check and schedules the next one
+   * @param id The watch id
+   * @param snapshot The new snapshot
+   * @param change The change against the previous snapshot, if there was one
+   */
+  recordSnapshot(id: string, snapshot: WatchSnapshot, change?: WatchChange): void {
+    const watch = this.watches.get(id);
+    if (!watch) {
+      return;
+    }
+    watch.snapshots = [...watch.snapshots, snapshot].slice(-MAX_SNAPSHOTS);
+    if (change) {
+      watch.changes = [...watch.changes, change].slice(-MAX_CHANGES);
+    }
+    delete watch.lastError;
+    this.checked(watch, snapshot.time);
+  }
+
+  /**
+   * Records a failed check and schedules the next one
+   * @param id The watch id
+   * @param error The error message
+   */
+  recordError(id: string, error: string): void {
+    const watch = this.watches.get(id);
+    if (watch) {
+      watch.lastError = error;
+      this.checked(watch, Date.now());
+    }
+  }
+
+  /**
+   * Builds the resource URI of a watch
+   * @param id The watch id
+   * @returns The URI
+   */
+  static uri(id: string): string {
+    return `${WATCH_URI_PREFIX}${id}`;
+  }
+
+  /**
+   * Waits until pending saves are written
+   * @returns Promise that resolves once the file is up to date
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  /**
+   * Stamps a check and schedules the next one an interval later
+   * @param watch The watch
+   * @param time Epoch milliseconds of the check
+   */
+  private checked(watch: Watch, time: number): void {
+    watch.lastCheckedAt = time;
+    watch.nextCheckAt = time + watch.intervalMinutes * 60 * 1000;
+    this.save();
+  }
+
+  /**
+   * Saves the watches through a temporary file, so a crash never leaves a half-written file behind
+   */
+  private save(): void {
+    const file = this.file;
+    if (!file) {
+      return;
+    }
+    this.writes = this.writes
+      .then(async () => {
+        const tmp = `${file}.${process.pid}.tmp`;
+        await mkdir(dirname(file), { recursive: true });
+        await writeFile(tmp, JSON.stringify({ watches: this.list() }), 'utf8');
+        await rename(tmp, file);
+      })
+      // A store that cannot be written must not fail the check it records
+      .catch(() => undefined);
+  }
+}
@@ -0,0 +1,333 @@
+import { Watch, WatchChange, WatchOptions, WatchSnapshot } from '../types/index.js';
+import { ScraperAPI } from './scraper-api.js';
+import { ScraperAbortedError } from './errors.js';
+import { WatchStore } from './watch-store.js';
+import { diffFields, diffText } from './diff.js';
+import { processMarkdown } from './markdown.js';
+
+/** How often due watches are looked for, in milliseconds */
+const TICK_INTERVAL = 30 * 1000;
+
+/** Longer diffs are cut to this many characters before they are stored */
+const MAX_DIFF_LENGTH = 20000;
+
+/** Maximum number of watches per API key owner, so one key cannot use up the store's limit for all others */
+const MAX_WATCHES_PER_OWNER = 20;
+
+/**
+ * What happened to a watch: it was added or removed, or a check found a change
+ */
+export type WatchEvent =
+  | { type: 'added' | 'removed'; watch: Watch }
+  | { type: 'changed'; watch: Watch; change: WatchChange };
+
+export interface WatchCheck {
+  watch: Watch;
+  /** The change against the previous snapshot; undefined for the first snapshot or if nothing changed */
+  change?: WatchChange;
+}
+
+/**
+ * Re-scrapes watched pages on their intervals and compares each snapshot with the previous one. One watcher serves
+ * all sessions of a process; sessions subscribe to its events to notify their clients.
+ */
+export class PageWatcher {
+  private store: WatchStore;
+  private apiFor: (profile?: string) => ScraperAPI;
+  private tickInterval: number;
+  private listeners: Set<(event: WatchEvent) => void>;
+  /** Running checks by watch id, so a scheduled and a requested check of the same page share one scrape */
+  private checks: Map<string, Promise<WatchCheck>>;
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  /**
+   * Creates a new PageWatcher
+   * @param store The watches and their snapshots
+   * @param apiFor Resolves the API client a watch's checks are billed to from its profile
+   * @param tickInterval How often due watches are looked for, in milliseconds
+   */
+  constructor(store: WatchStore, apiFor: (profile?: string) => ScraperAPI, tickInterval: number = TICK_INTERVAL) {
+    this.store = store;
+    this.apiFor = apiFor;
+    this.tickInterval = tickInterval;
+    this.listeners = new Set();
+    this.checks = new Map();
+    this.schedule();
+  }
+
+  /**
+   * Adds a watch; its first check is due right away
+   * @param options The watched prompt, comparison and interval
+   * @returns The watch
+   * @throws Error if the maximum number of watches, in total or for the watch's owner, is reached
+   */
+  add(options: WatchOptions): Watch {
+    const owner = this.ownerOf(options);
+    if (this.store.list().filter(watch => this.ownerOf(watch) === owner).length >= MAX_WATCHES_PER_OWNER) {
+      throw new Error(`Cannot watch more than ${MAX_WATCHES_PER_OWNER} pages per API key; unwatch some first`);
+    }
+    const watch = this.store.add(options);
+    this.emit({ type: 'added', watch });
+    this.schedule();
+    return watch;
+  }
+
+  /**
+   * Removes a watch
+   * @param id The watch id
+   * @param owner The owner of the caller's API key
+   * @returns The removed watch, or undefined if it is unknown or owned by another key
+   */
+  remove(id: string, owner: string): Watch | undefined {
+    if (!this.get(id, owner)) {
+      return undefined;
+    }
+    const watch = this.store.remove(id);
+    if (watch) {
+      this.emit({ type: 'removed', watch });
+      this.schedule();
+    }
+    return watch;
+  }
+
+  /**
+   * Gets a watch by its id
+   * @param id The watch id
+   * @param owner The owner of the caller's API key
+   * @returns The watch, or undefined if it is unknown or owned by another key
+   */
+  get(id: string, owner: string): Watch | undefined {
+    const watch = this.store.get(id);
+    return watch && this.ownerOf(watch) === owner ? watch : undefined;
+  }
+
+  /**
+   * Gets a watch by its resource URI
+   * @param uri The resource URI
+   * @param owner The owner of the caller's API key
+   * @returns The watch, or undefined if it is unknown or owned by another key
+   */
+  resolve(uri: string, owner: string): Watch | undefined {
+    const watch = this.store.resolve(uri);
+    return watch && this.ownerOf(watch) === owner ? watch : undefined;
+  }
+
+  /**
+   * Lists the watches of an API key, oldest first
+   * @param owner The owner of the caller's API key
+   * @returns The watches
+   */
+  list(owner: string): Watch[] {
+    return this.store.list().filter(watch => this.ownerOf(watch) === owner);
+  }
+
+  /**
+   * Scrapes a watched page now and compares it with the previous snapshot
+   * @param id The watch id
+   * @param owner The owner of the caller's API key
+   * @param signal Optional AbortSignal; a check already running for the watch is joined instead
+   * @returns Promise with the watch and the change found, if any
+   * @throws Error if the watch is unknown or owned by another key, or the scrape's error
+   */
+  check(id: string, owner: string, signal?: AbortSignal): Promise<WatchCheck> {
+    const watch = this.get(id, owner);
+    if (!watch) {
+      return Promise.reject(new Error(`Unknown watch: ${id}. Use list_watches to see the watched pages.`));
+    }
+    return this.startCheck(watch, signal);
+  }
+
+  /**
+   * Subscribes to watch events
+   * @param listener Called with every event
+   * @returns Function that unsubscribes the listener
+   */
+  subscribe(listener: (event: WatchEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stops the scheduled checks
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Stops the scheduled checks and waits until the store is saved
+   * @returns Promise that resolves once pending saves are written
+   */
+  async flush(): Promise<void> {
+    this.stop();
+    await this.store.flush();
+  }
+
+  /**
+   * Runs the timer while there are watches and stops it when there are none
+   */
+  private schedule(): void {
+    if (this.store.list().length === 0) {
+      this.stop();
+    } else if (!this.timer) {
+      this.timer = setInterval(() => {
+        void this.tick();
+      }, this.tickInterval);
+      // Watches must not keep a process alive that has nothing else to do
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Checks the due watches one after another; failures are recorded on the watch
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+    try {
+      for (const watch of this.store.due()) {
+        await this.startCheck(watch).catch(() => undefined);
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Starts a check of a watch, or joins the one already running
+   * @param watch The watch
+   * @param signal Optional AbortSignal that cancels the scrape
+   * @returns Promise with the watch and the change found, if any
+   */
+  private startCheck(watch: Watch, signal?: AbortSignal): Promise<WatchCheck> {
+    let check = this.checks.get(watch.id);
+    if (!check) {
+      check = this.runCheck(watch, signal).finally(() => this.checks.delete(watch.id));
+      this.checks.set(watch.id, check);
+    }
+    return check;
+  }
+
+  /**
+   * Gets the owner of a watch's API key; watches saved before owners were recorded belong to the key of their profile
+   * @param watch The watch, or the options of a watch about to be added
+   * @returns The owner, or undefined if the watch's profile no longer resolves to a key
+   */
+  private ownerOf(watch: WatchOptions): string | undefined {
+    if (watch.owner) {
+      return watch.owner;
+    }
+    try {
+      return this.apiFor(watch.profile).keyOwner;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Takes a snapshot of a watch, records it and reports a change against the previous one
+   * @param watch The watch
+   * @param signal Optional AbortSignal that cancels the scrape
+   * @returns Promise with the watch and the change found, if any
+   */
+  private async runCheck(watch: Watch, signal?: AbortSignal): Promise<WatchCheck> {
+    let snapshot: WatchSnapshot;
+    try {
+      snapshot = await this.snapshot(watch, signal);
+    } catch (error) {
+      if (!(error instanceof ScraperAbortedError)) {
+        this.store.recordError(watch.id, error instanceof Error ? error.message : String(error));
+      }
+      throw error;
+    }
+
+    const previous = watch.snapshots[watch.snapshots.length - 1];
+    const change = previous ? compareSnapshots(previous, snapshot) : undefined;
+    this.store.recordSnapshot(watch.id, snapshot, change);
+    if (change) {
+      this.emit({ type: 'changed', watch, change });
+    }
+    return { watch, change };
+  }
+
+  /**
+   * Scrapes a watched page, bypassing the result cache
+   * @param watch The watch
+   * @param signal Optional AbortSignal that cancels the scrape
+   * @returns Promise with the snapshot
+   * @throws Error if the selector matches no section
+   */
+  private async snapshot(watch: Watch, signal?: AbortSignal): Promise<WatchSnapshot> {
+    const api = this.apiFor(watch.profile);
+    // Scheduled checks queue behind interactive scrapes when requests are rate limited
+    const response = await api.scrape(watch.prompt, watch.format, undefined, {
+      signal,
+      schema: watch.schema,
+      forceRefresh: true,
+      priority: -1
+    });
+    const time = Date.now();
+
+    if (watch.format === 'json') {
+      return { time, data: response.data ?? null };
+    }
+    const markdown = processMarkdown(response.markdown ?? '', { selector: watch.selector, baseUrl: response.url });
+    if (markdown === undefined) {
+      throw new Error(`No section heading matched the selector "${watch.selector}"`);
+    }
+    return { time, markdown };
+  }
+
+  /**
+   * Sends an event to every listener; a failing listener does not stop the others
+   * @param event The event
+   */
+  private emit(event: WatchEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // Listeners notify clients that may have disconnected
+      }
+    }
+  }
+}
+
+/**
+ * Compares two snapshots of a watch
+ * @param before The previous snapshot
+ * @param after The new snapshot
+ * @returns The change, or undefined if the snapshots are the same
+ */
+export function compareSnapshots(before: WatchSnapshot, after: WatchSnapshot): WatchChange | undefined {
+  if (after.markdown !== undefined) {
+    const { added, removed, diff } = diffText(before.markdown ?? '', after.markdown);
+    if (!diff) {
+      return undefined;
+    }
+    return {
+      time: after.time,
+      summary: `+${added} -${removed} lines`,
+      diff: diff.length > MAX_DIFF_LENGTH ? `${diff.substring(0, MAX_DIFF_LENGTH)}\n... (diff truncated)` : diff
+    };
+  }
+
+  const fields = diffFields(before.data, after.data);
+  if (!fields.length) {
+    return undefined;
+  }
+  const count = (type: string) => fields.filter(field => field.type === type).length;
+  return {
+    time: after.time,
+    summary: `${count('changed')} changed, ${count('added')} added, ${count('removed')} removed fields`,
+    fields
+  };
+}
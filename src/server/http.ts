@@ -0,0 +1,300 @@
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import { ScraperMCPServer } from './index.js';
+
+/** Path of the Streamable HTTP endpoint */
+export const MCP_PATH = '/mcp';
+/** Path clients open the legacy SSE stream on */
+export const SSE_PATH = '/sse';
+/** Path legacy SSE clients post their messages to */
+export const SSE_MESSAGES_PATH = '/messages';
+/** Path of the unauthenticated health check */
+export const HEALTH_PATH = '/health';
+
+/** Largest JSON-RPC request body accepted, in bytes */
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Bearer token clients must send; the endpoint is open to anyone who can reach it when unset */
+  authToken?: string;
+  /** Server version reported by the health endpoint */
+  version?: string;
+  /** Creates the MCP server of a new session, so each session has its own jobs and screenshots */
+  createServer: () => ScraperMCPServer;
+}
+
+interface HttpSession {
+  server: ScraperMCPServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+/**
+ * Serves MCP sessions over Streamable HTTP and the legacy HTTP+SSE transport,
+ * so one process can be shared by many clients
+ */
+export class HttpServerHost {
+  private options: HttpServerOptions;
+  private sessions: Map<string, HttpSession> = new Map();
+  private httpServer: HttpServer;
+
+  /**
+   * Creates a new HttpServerHost
+   * @param options The address to listen on, the client token and the session server factory
+   */
+  constructor(options: HttpServerOptions) {
+    this.options = options;
+    this.httpServer = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error('Error handling HTTP request:', error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        } else {
+          res.end();
+        }
+      });
+    });
+  }
+
+  /**
+   * Number of open sessions
+   */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Starts listening for clients
+   * @returns Promise with the bound address
+   */
+  listen(): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        resolve(this.httpServer.address() as AddressInfo);
+      });
+    });
+  }
+
+  /**
+   * Closes every session and stops listening
+   */
+  async close(): Promise<void> {
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.allSettled(sessions.map(session => session.server.close()));
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.close(error => (error ? reject(error) : resolve()));
+      this.httpServer.closeAllConnections();
+    });
+  }
+
+  /**
+   * Routes one HTTP request
+   * @param req The request
+   * @param res The response
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      this.sendJson(res, 200, { status: 'ok', version: this.options.version, sessions: this.sessions.size });
+      return;
+    }
+
+    if (![MCP_PATH, SSE_PATH, SSE_MESSAGES_PATH].includes(url.pathname)) {
+      this.sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="scraperis-mcp"');
+      this.sendJsonRpcError(res, 401, -32001, 'Unauthorized: a valid bearer token is required');
+      return;
+    }
+
+    if (url.pathname === MCP_PATH) {
+      await this.handleStreamableHttp(req, res);
+    } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+      await this.openSseSession(res);
+    } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      await this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+    } else {
+      res.setHeader('Allow', url.pathname === SSE_PATH ? 'GET' : 'POST');
+      this.sendJson(res, 405, { error: 'Method not allowed' });
+    }
+  }
+
+  /**
+   * Handles a request to the Streamable HTTP endpoint, creating a session on initialize
+   * @param req The request
+   * @param res The response
+   */
+  private async handleStreamableHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await this.readBody(req, res) : undefined;
+    if (body === null) {
+      return;
+    }
+
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        this.sendJsonRpcError(res, 400, -32000, 'Bad Request: session uses the SSE transport');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+      return;
+    }
+
+    const server = this.options.createServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        this.sessions.set(id, { server, transport });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.closeSession(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Opens a legacy SSE session
+   * @param res The response the event stream is written to
+   */
+  private async openSseSession(res: ServerResponse): Promise<void> {
+    const server = this.options.createServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const sessionId = transport.sessionId;
+
+    this.sessions.set(sessionId, { server, transport });
+    transport.onclose = () => this.closeSession(sessionId);
+
+    await server.connect(transport);
+  }
+
+  /**
+   * Delivers a message posted by a legacy SSE client
+   * @param req The request
+   * @param res The response
+   * @param sessionId The session ID from the query string
+   */
+  private async handleSseMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    const body = await this.readBody(req, res);
+    if (body === null) {
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  /**
+   * Forgets a session and closes its server
+   * @param sessionId The session to close
+   */
+  private closeSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(sessionId);
+    session.server.close().catch(error => {
+      console.error(`Error closing session ${sessionId}:`, error);
+    });
+  }
+
+  /**
+   * Checks the bearer token of a request
+   * @param req The request
+   * @returns True if no token is configured or the request carries it
+   */
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (!this.options.authToken) {
+      return true;
+    }
+
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+    if (!match) {
+      return false;
+    }
+    // Compare digests so the comparison takes the same time whatever the token length
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(match[1].trim()), digest(this.options.authToken));
+  }
+
+  /**
+   * Reads and parses a JSON request body
+   * @param req The request
+   * @param res The response, used to reject bodies that are too large or malformed
+   * @returns Promise with the parsed body, or null if an error response was sent
+   */
+  private async readBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        this.sendJsonRpcError(res, 413, -32600, 'Request body too large');
+        return null;
+      }
+      chunks.push(chunk);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      this.sendJsonRpcError(res, 400, -32700, 'Parse error: invalid JSON');
+      return null;
+    }
+  }
+
+  /**
+   * Sends a JSON response
+   * @param res The response
+   * @param status The HTTP status
+   * @param body The body to serialize
+   */
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  }
+
+  /**
+   * Sends a JSON-RPC error response
+   * @param res The response
+   * @param status The HTTP status
+   * @param code The JSON-RPC error code
+   * @param message The error message
+   */
+  private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    this.sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+  }
+}
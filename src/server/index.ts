@@ -2,37 +2,227 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   Tool,
+  CallToolRequest,
+  CallToolResult,
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
   ListToolsRequestSchema,
-  ReadResourceRequestSchema
+  ReadResourceRequestSchema,
+  RequestId,
+  ServerNotification,
+  ServerRequest,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 
-import { ScraperAPI } from '../lib/scraper-api.js';
-import { sendLoggingMessage } from '../utils/index.js';
-import fetch from 'node-fetch';
+import { ScraperAPI, ScraperAPIOptions } from '../lib/scraper-api.js';
+import { CredentialResolver, keyOwner, ResolvedCredential } from '../lib/credentials.js';
+import { PromptLibrary } from '../lib/prompt-library.js';
+import { isLevelEnabled, Logger } from '../lib/logger.js';
+import { startOfDay, UsageLedger } from '../lib/usage-ledger.js';
+import { ResultCache } from '../lib/result-cache.js';
+import { JobRegistry } from '../lib/job-registry.js';
+import { SCREENSHOT_URI_PREFIX, ScreenshotEntry, ScreenshotStore } from '../lib/screenshot-store.js';
+import { CHUNK_URI_PREFIX, ChunkedDocument, ChunkStore } from '../lib/chunk-store.js';
+import { HISTORY_URI_PREFIX, HistoryEntry, ScrapeHistory } from '../lib/history.js';
+import { chunkMarkdown, estimateTokens, listHeadings, processMarkdown } from '../lib/markdown.js';
+import { buildBatchItems, mergeBatchResults, runBatch } from '../lib/batch.js';
+import { runCrawl } from '../lib/crawler.js';
+import { ResultExporter } from '../lib/exporter.js';
+import { PageWatcher, WatchEvent } from '../lib/watcher.js';
+import { WATCH_URI_PREFIX, WatchStore } from '../lib/watch-store.js';
+import {
+  ScraperCredentialsError,
+  ScraperError,
+  ScraperJobFailedError,
+  ScraperMalformedResponseError
+} from '../lib/errors.js';
+import {
+  BatchFormat,
+  BatchItem,
+  BatchItemResult,
+  CrawlOptions,
+  ExportedFile,
+  ExportTarget,
+  LogLevel,
+  MarkdownOptions,
+  ProgressCallback,
+  ScrapeFormat,
+  ScrapeJob,
+  ScraperResponse,
+  ToolName,
+  Watch
+} from '../types/index.js';
+import { isObject, JsonSchema, validateJsonSchema } from '../lib/json-schema.js';
+import { buildTools, parseToolArguments } from './tools.js';
+import { anySignal, generateChatId, redactSecrets } from '../utils/index.js';
+
+/**
+ * Guidance appended to error results, keyed by ScraperError code
+ */
+const ERROR_HINTS: Record<string, string> = {
+  auth_failed: 'The Scraper.is API key is missing, invalid or revoked. Ask the user for a valid API key; retrying will not help.',
+  job_not_found: 'The scrape job could not be found. Start a new scrape instead of retrying.',
+  rate_limited: 'Scraper.is is rate limiting requests. Wait before retrying.',
+  upstream_error: 'Scraper.is is temporarily unavailable. Retrying later may succeed.',
+  malformed_response: 'Scraper.is returned an unexpected response. Retrying may succeed.',
+  job_failed: 'The scrape job failed. Check that the URL is reachable or rephrase the prompt before retrying.',
+  timeout: 'The scrape did not finish in time. Retry later or with a narrower prompt.',
+  aborted: 'The scrape was cancelled.',
+  invalid_arguments: 'Fix the listed arguments and call the tool again; no scrape was started.',
+  missing_credentials: 'No Scraper.is API key is available for this call. Ask the user which profile to use or to configure an API key.',
+  budget_exceeded: 'The credit budget is used up. Tell the user and check get_usage; retrying will not help until the budget resets or is raised.',
+  queue_full: 'Too many Scraper.is requests are waiting for a slot. Wait for running scrapes to finish before retrying.',
+  export_path: 'Exports are written inside the export directory. Pass a relative path without "..", or set overwrite to replace an existing file.',
+  url_blocked: 'The URL policy of this server does not allow this URL, so nothing was requested. Tell the user; only pages the policy allows, named with a full URL, can be scraped.'
+};
+
+/**
+ * Number of resources returned by one resources/list request
+ */
+const RESOURCE_PAGE_SIZE = 100;
+
+/**
+ * MIME type and result field of the history resources of each format; other formats are read as JSON
+ */
+const HISTORY_CONTENT: Partial<Record<ScrapeFormat, { mimeType: string; field: 'markdown' | 'html' | 'csv' | 'xml' }>> = {
+  markdown: { mimeType: 'text/markdown', field: 'markdown' },
+  html: { mimeType: 'text/html', field: 'html' },
+  csv: { mimeType: 'text/csv', field: 'csv' },
+  xml: { mimeType: 'application/xml', field: 'xml' }
+};
+
+/**
+ * Request _meta key a client may use to send its own Scraper.is API key
+ */
+export const META_API_KEY = 'scraperis/apiKey';
+
+export interface ScraperMCPServerOptions extends ScraperAPIOptions {
+  /** Prompt templates offered through prompts/list, defaulting to the built-in library */
+  prompts?: PromptLibrary;
+  /** Initial delay between status polls in milliseconds */
+  pollInterval?: number;
+  /** Format used when a scrape does not name one (default markdown) */
+  defaultFormat?: ScrapeFormat;
+  /** Least severe level that is logged, until the client sets its own with logging/setLevel (default info) */
+  logLevel?: LogLevel;
+  /** Writes log records to stderr and the log file; shared by the sessions of a process */
+  logger?: Logger;
+  /** Tools to offer; all tools when unset */
+  enabledTools?: ToolName[];
+  /** Replacement tool descriptions by tool name */
+  toolDescriptions?: Partial<Record<ToolName, string>>;
+  /** Ledger every Scraper.is call is recorded in; shared by the sessions of a process */
+  ledger?: UsageLedger;
+  /** Credits this session may spend */
+  sessionBudget?: number;
+  /** Re-scrapes watched pages; shared by the sessions of a process, defaulting to one with an in-memory store */
+  watcher?: PageWatcher;
+  /** Writes exported results to files; the export tool and option fail without one */
+  exporter?: ResultExporter;
+}
+
+/**
+ * How the text of a scrape result is post-processed and fit into the model's context
+ */
+interface TextOutputOptions {
+  /** Markdown cleanup and section filter */
+  markdown?: MarkdownOptions;
+  /** Token budget of markdown and HTML text */
+  maxTokens?: number;
+  /** Whether the chunks past the budget stay readable or are dropped (default chunk) */
+  overflow?: 'chunk' | 'truncate';
+}
 
 /**
  * ScraperMCPServer class for handling MCP server operations
  */
 export class ScraperMCPServer {
   private server: Server;
-  private scraperApi: ScraperAPI;
-  private screenshots: Map<string, string>;
+  private credentials: CredentialResolver;
+  private apiBase: string;
+  private apiOptions: ScraperAPIOptions;
+  private pollInterval?: number;
+  private defaultFormat: ScrapeFormat;
+  private logger: Logger;
+  /** Least severe level sent to the client as notifications/message */
+  private clientLogLevel: LogLevel;
+  /** API clients by API key, so each tenant's requests are authenticated and retried separately */
+  private apis: Map<string, ScraperAPI> = new Map();
+  /** The API client each job was started with, so it is polled with the same key */
+  private jobApis: WeakMap<ScrapeJob, ScraperAPI> = new WeakMap();
+  private screenshots: ScreenshotStore;
+  private chunks: ChunkStore;
+  private jobs: JobRegistry;
+  private cache?: ResultCache;
+  private history?: ScrapeHistory;
+  private prompts: PromptLibrary;
   private tools: Tool[];
+  private ledger: UsageLedger;
+  /** Identifies this session's calls in the usage ledger */
+  private sessionId: string;
+  private sessionBudget?: number;
+  private watcher: PageWatcher;
+  private exporter?: ResultExporter;
+  /** Watch URIs the client subscribed to with resources/subscribe, with the owner of the key it subscribed with */
+  private subscriptions: Map<string, string> = new Map();
+  private unsubscribeWatcher: () => void;
 
   /**
    * Creates a new ScraperMCPServer
-   * @param apiKey The API key for Scraper.is
+   * @param credentials Resolver of per-request API keys, or a single API key for Scraper.is
    * @param apiBase The base URL for the Scraper.is API
    * @param version The server version
+   * @param options Overrides for the scrape deadline, attempt budget and backoff, an optional result cache and
+   * prompt library, and the defaults, logging and tools of the server
    */
   constructor(
-    apiKey: string,
+    credentials: CredentialResolver | string | undefined,
     apiBase: string = 'https://scraper.is/api',
-    version: string = '0.1.0'
+    version: string = '0.1.0',
+    options: ScraperMCPServerOptions = {}
   ) {
-    this.scraperApi = new ScraperAPI(apiKey, apiBase);
-    this.screenshots = new Map<string, string>();
+    this.credentials = credentials instanceof CredentialResolver ? credentials : new CredentialResolver(credentials);
+    const {
+      prompts,
+      pollInterval,
+      defaultFormat,
+      logLevel,
+      logger,
+      enabledTools,
+      toolDescriptions,
+      ledger,
+      sessionBudget,
+      watcher,
+      exporter,
+      ...apiOptions
+    } = options;
+    this.apiBase = apiBase;
+    this.ledger = ledger ?? new UsageLedger();
+    this.sessionId = generateChatId();
+    this.sessionBudget = sessionBudget;
+    this.apiOptions = { ...apiOptions, usage: this.ledger.session(this.sessionId, sessionBudget) };
+    this.pollInterval = pollInterval;
+    this.defaultFormat = defaultFormat ?? 'markdown';
+    this.clientLogLevel = logLevel ?? 'info';
+    this.logger = logger ?? new Logger({ level: logLevel });
+    this.cache = options.cache;
+    this.history = options.history;
+    this.prompts = prompts ?? new PromptLibrary();
+    this.screenshots = new ScreenshotStore();
+    this.chunks = new ChunkStore();
+    this.jobs = new JobRegistry();
+    this.watcher = watcher ?? new PageWatcher(new WatchStore(), profile => this.profileApi(profile));
+    this.unsubscribeWatcher = this.watcher.subscribe(event => this.onWatchEvent(event));
+    this.exporter = exporter;
     
     // Initialize MCP server
     this.server = new Server(
@@ -43,58 +233,15 @@ export class ScraperMCPServer {
       {
         capabilities: {
           tools: {},
-          resources: {},
+          resources: { subscribe: true, listChanged: true },
           prompts: {},
           logging: {}
         },
       }
     );
     
-    // Define tools
-    this.tools = [
-      {
-        description:
-          'Scrape a single webpage with advanced options for content extraction. \n' +
-          'Always returns both markdown content and visual screenshot for rich context. \n' +
-          'Supports various formats including markdown, HTML, screenshots, JSON, and quick. \n' +
-          'The prompt should include the website URL and what data you want to extract. \n' +
-          "For example: 'Get me the top 10 products from producthunt.com' or \n" +
-          "'Extract all article titles and authors from techcrunch.com/news'",
-        name: 'scrape',
-        type: 'function',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            prompt: {
-              type: 'string',
-              description: 'The prompt describing what to scrape, including the URL'
-            },
-            format: {
-              type: 'string',
-              enum: ['markdown', 'html', 'screenshot', 'json', 'quick'],
-              description: 'The format to return the content in'
-            }
-          },
-          required: ['prompt', 'format']
-        },
-      },
-      // Uncomment to enable screenshot tool
-      // {
-      //   description: 'Take a screenshot of a webpage',
-      //   name: 'screenshot',
-      //   type: 'function',
-      //   inputSchema: {
-      //     type: 'object',
-      //     properties: {
-      //       url: {
-      //         type: 'string',
-      //         description: 'The URL to take a screenshot of'
-      //       }
-      //     },
-      //     required: ['url']
-      //   },
-      // }
-    ];
+    // Define tools from their argument schemas
+    this.tools = buildTools({ enabled: enabledTools, descriptions: toolDescriptions });
     
     // Set up request handlers
     this.setupRequestHandlers();
@@ -109,179 +256,1707 @@ export class ScraperMCPServer {
       tools: this.tools,
     }));
 
-    // Handler for reading resources (screenshots)
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    // Handler for listing resources (screenshots, the chunks of long results, watched pages and scrape history),
+    // in pages of RESOURCE_PAGE_SIZE; watched pages and history are only listed for the API key they belong to
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+      const cursor = request.params?.cursor ?? '0';
+      if (!/^\d+$/.test(cursor)) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+      }
+      const owner = this.callerOwner(request.params?._meta, extra);
+      const resources = [
+        ...this.screenshots.list().map(entry => ({
+          uri: entry.uri,
+          name: entry.pageUrl ? `Screenshot of ${entry.pageUrl}` : `Screenshot ${entry.id}`,
+          description: `Taken ${new Date(entry.createdAt).toISOString()} (${entry.bytes.length} bytes)`,
+          mimeType: entry.mimeType
+        })),
+        ...this.chunks.list().flatMap(document => document.chunks.map((chunk, index) => ({
+          uri: ChunkStore.uri(document.id, index + 1),
+          name: `Chunk ${index + 1} of ${document.chunks.length}${document.source ? ` of ${document.source}` : ''}`,
+          description: `Scraped ${new Date(document.createdAt).toISOString()} (about ${estimateTokens(chunk)} tokens)`,
+          mimeType: 'text/markdown'
+        }))),
+        ...(owner ? this.watcher.list(owner) : []).map(watch => ({
+          uri: WatchStore.uri(watch.id),
+          name: `Watch: ${watch.name ?? watch.prompt}`,
+          description: `Checked every ${watch.intervalMinutes} minutes; ${watch.changes.length} changes recorded`,
+          mimeType: 'application/json'
+        })),
+        ...(owner && this.history ? this.history.list(owner) : []).map(entry => ({
+          uri: ScrapeHistory.uri(entry.chatId),
+          name: entry.prompt ?? `Scrape ${entry.chatId}`,
+          description: `${entry.format} result${entry.url ? ` of ${entry.url}` : ''}, ` +
+            `received ${new Date(entry.completedAt).toISOString()} (${entry.size} characters)`,
+          mimeType: HISTORY_CONTENT[entry.format]?.mimeType ?? 'application/json'
+        }))
+      ];
+      const offset = Number(cursor);
+      const next = offset + RESOURCE_PAGE_SIZE;
+      return {
+        resources: resources.slice(offset, next),
+        ...(next < resources.length && { nextCursor: String(next) })
+      };
+    });
+
+    // Handler for listing the URI templates of resources, so clients can build the URI of a known id
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        {
+          uriTemplate: `${HISTORY_URI_PREFIX}{chat_id}`,
+          name: 'Scrape history',
+          description: 'The stored result of an earlier scrape, by the chat_id of its job (see search_history)'
+        },
+        {
+          uriTemplate: `${SCREENSHOT_URI_PREFIX}{id}`,
+          name: 'Screenshot',
+          description: 'A screenshot taken in this session, kept for an hour'
+        },
+        {
+          uriTemplate: `${CHUNK_URI_PREFIX}{document_id}/{chunk}`,
+          name: 'Result chunk',
+          description: 'A chunk of a scrape result split because of max_tokens',
+          mimeType: 'text/markdown'
+        },
+        {
+          uriTemplate: `${WATCH_URI_PREFIX}{watch_id}`,
+          name: 'Watched page',
+          description: 'A watched page with its latest snapshot and recent changes',
+          mimeType: 'application/json'
+        }
+      ],
+    }));
+
+    // Handler for reading resources (screenshots, chunks, watched pages and scrape history)
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
       this.log('info', `ReadResourceRequestSchema: ${JSON.stringify(request.params)}`);
-      const screenshotURL = request.params.uri.replace('scraperis_screenshot://', '');
-      this.log('info', `screenshotURL: ${screenshotURL}`);
+      const owner = this.callerOwner(request.params._meta, extra);
+      const stored = owner ? this.history?.resolve(owner, request.params.uri) : undefined;
+      if (owner && stored) {
+        return { contents: [await this.historyContent(owner, stored, request.params.uri)] };
+      }
       
-      if (screenshotURL) {
-        try {
-          const imageBuffer = await fetch(screenshotURL);
-          const base64Image = await imageBuffer.arrayBuffer();
-          return {
-            content: [
-              {
-                uri: screenshotURL,
-                mimeType: 'image/png',
-                blob: base64Image
-              }
-            ],
-          };
-        } catch (error) {
-          this.log('error', `Error fetching screenshot: ${error instanceof Error ? error.message : String(error)}`);
-          throw new Error(`Failed to fetch screenshot: ${error instanceof Error ? error.message : String(error)}`);
-        }
+      const watch = owner ? this.watcher.resolve(request.params.uri, owner) : undefined;
+      if (watch) {
+        const latest = watch.snapshots[watch.snapshots.length - 1];
+        return {
+          contents: [
+            {
+              uri: request.params.uri,
+              mimeType: 'application/json',
+              text: JSON.stringify({
+                ...this.describeWatch(watch),
+                latest: latest && { ...latest, time: new Date(latest.time).toISOString() },
+                recent_changes: this.describeChanges(watch, 5)
+              }, null, 2)
+            }
+          ],
+        };
+      }
+      
+      const chunk = this.chunks.resolve(request.params.uri);
+      if (chunk) {
+        return {
+          contents: [
+            {
+              uri: request.params.uri,
+              mimeType: 'text/markdown',
+              text: chunk.document.chunks[chunk.chunk - 1]
+            }
+          ],
+        };
+      }
+      
+      const entry = this.screenshots.get(request.params.uri);
+      
+      if (!entry) {
+        this.log('error', `Resource not found: ${request.params.uri}`);
+        throw new Error(`Resource not found: ${request.params.uri}. Screenshots and chunks expire; scrape again if needed.`);
       }
+      
+      return {
+        contents: [
+          {
+            uri: entry.uri,
+            mimeType: entry.mimeType,
+            blob: entry.bytes.toString('base64')
+          }
+        ],
+      };
+    });
 
-      this.log('error', 'Resource not found: No valid screenshot URL');
-      throw new Error('Resource not found');
+    // Handlers for resource subscriptions; watched pages notify their subscribers when they change
+    // Only watched pages change, so subscriptions to other resources are accepted but never notified
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+      const { uri } = request.params;
+      if (uri.startsWith(WATCH_URI_PREFIX)) {
+        const owner = this.callerOwner(request.params._meta, extra);
+        if (!owner || !this.watcher.resolve(uri, owner)) {
+          throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}. Use list_watches to see the watched pages.`);
+        }
+        this.subscriptions.set(uri, owner);
+      }
+      return {};
     });
+    
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    // Handler for listing prompt templates
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: this.prompts.list().map(template => ({
+        name: template.name,
+        description: template.description,
+        arguments: template.arguments.map(argument => ({
+          name: argument.name,
+          description: [
+            argument.description,
+            argument.type === 'list' || argument.type === 'url_list' ? '(comma separated)' : undefined,
+            argument.default ? `(default: ${argument.default})` : undefined
+          ].filter(Boolean).join(' ') || undefined,
+          required: argument.required
+        }))
+      })),
+    }));
 
-    // Handler for tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    // Handler for expanding a prompt template into a scrape request
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
       try {
-        const { name, arguments: args } = request.params;
-        this.log('info', `Received request for tool: ${name}`);
-        const progressToken = request.params._meta?.progressToken;
+        const { description, text } = this.prompts.render(request.params.name, request.params.arguments);
+        return {
+          description,
+          messages: [{ role: 'user', content: { type: 'text', text } }],
+        };
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+      }
+    });
+
+    // Handler for the client's log level
+    this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.clientLogLevel = request.params.level;
+      this.log('debug', `Client log level set to ${request.params.level}`);
+      return {};
+    });
+
+    // Handler for tool calls, logged with the request id, tool name and duration
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const context = { session: extra.sessionId, requestId: extra.requestId, tool: request.params.name };
+      return this.logger.run(context, async () => {
+        const started = Date.now();
+        const result = await this.callTool(request, extra);
+        this.log(result.isError ? 'warning' : 'info', `Tool call ${result.isError ? 'failed' : 'completed'}`, {
+          durationMs: Date.now() - started
+        });
+        return result;
+      });
+    });
+  }
+
+  /**
+   * Runs a tool call
+   * @param request The tool call request
+   * @param extra The request context, with its id, signal and HTTP headers
+   * @returns The tool result; failures are returned as error results
+   */
+  private async callTool(
+    request: CallToolRequest,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ): Promise<CallToolResult> {
+    try {
+      const { name, arguments: args } = request.params;
+      this.log('info', `Received request for tool: ${name}`);
+      const progressToken = request.params._meta?.progressToken;
+      
+      if (!this.tools.some(tool => tool.name === name)) {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+      
+      if (name === 'scrape') {
+        const {
+          prompt,
+          format: requestedFormat,
+          inline_image: inlineImage,
+          max_age: maxAge,
+          force_refresh: forceRefresh,
+          profile,
+          schema,
+          max_tokens: maxTokens,
+          overflow,
+          selector,
+          clean,
+          export: exportTarget
+        } = parseToolArguments(name, args);
+        const format = requestedFormat ?? (schema ? 'json' : this.defaultFormat);
+        const api = this.resolveApi(request.params._meta, extra, profile);
         
-        if (name === 'scrape') {
-          const { prompt, format } = args as { prompt: string, format: string };
-          
-          // Create progress callback
-          const onProgress = progressToken 
-            ? async (progress: number) => {
-              await this.server.notification({
-                method: 'notifications/progress',
-                params: {
-                  progress: progress,
-                  total: 100,
-                  progressToken: progressToken
-                },
-              });
-            }
-            : undefined;
-          
-          // Call the scraper API
-          const handlerData = await this.scraperApi.scrape(prompt, format, onProgress);
-          this.log('info', `Scrape completed for prompt: "${prompt.substring(0, 50)}${prompt.length > 50 ? '...' : ''}"`);
-          
-          // Handle different format responses
-          if (format === 'markdown' && handlerData.markdown) {
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: handlerData.markdown,
-                }
-              ],
-              isError: false
-            };
-          }
+        // Create progress callback
+        const onProgress = this.progressCallback(progressToken, extra.requestId);
+        
+        // Call the scraper API
+        // Polling stops as soon as the client cancels the request (notifications/cancelled)
+        const handlerData = await api.scrape(prompt, format, onProgress, {
+          signal: extra.signal,
+          maxAge: maxAge !== undefined ? maxAge * 1000 : undefined,
+          forceRefresh: forceRefresh === true,
+          schema
+        });
+        this.log('info', `Scrape ${handlerData.cache?.hit ? 'served from cache' : 'completed'} for prompt: "${prompt.substring(0, 50)}${prompt.length > 50 ? '...' : ''}"`);
+        
+        const scraped = schema
+          ? this.schemaResult(handlerData, schema)
+          : await this.scrapeResult(api, format, handlerData, inlineImage === true, extra.signal, {
+            markdown: { clean, selector },
+            maxTokens,
+            overflow
+          });
+        const result = exportTarget && !scraped.isError
+          ? await this.withExport(scraped, handlerData, exportTarget, prompt)
+          : scraped;
+        return handlerData.cache ? { ...result, _meta: { ...result._meta, cache: handlerData.cache } } : result;
+      }
+      
+      if (name === 'screenshot') {
+        const { url, viewport, full_page: fullPage, device, wait_for: waitFor, profile } =
+          parseToolArguments(name, args);
+        const api = this.resolveApi(request.params._meta, extra, profile);
+        try {
+          const handlerData = await api.screenshot(url, { viewport, fullPage, device, waitFor, signal: extra.signal });
+          this.log('info', `Screenshot taken successfully for URL: ${url}`);
           
-          if (format === 'screenshot' && handlerData.screenshot && handlerData.screenshot.url) {
-            this.log('info', `Screenshot URL: ${handlerData.screenshot.url}`);
-            this.screenshots.set(handlerData.url || '', handlerData.screenshot.url);
-            
-            this.server.notification({
-              method: 'notifications/resources/list_changed',
-            });
-            
-            const resourceUri = `scraperis_screenshot://${handlerData.screenshot.url}`;
-            this.log('info', `Screenshot available at: ${handlerData.screenshot.url}`);
-            
-            return {
-              content: [{
-                type: 'text' as const,
-                text: `Screenshot taken successfully. You can view it via *MCP Resources* (Paperclip icon) @ URI: ${resourceUri}`
-              }],
-              isError: false
-            };
+          if (!handlerData.screenshot?.url && !handlerData.screenshot?.data) {
+            throw new ScraperMalformedResponseError('Scraper.is did not return a screenshot');
           }
-          
-          if (format === 'json' && handlerData.data) {
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: 'JSON Data:\n```json\n' + JSON.stringify(handlerData.data, null, 2) + '\n```',
-                }
-              ],
-              isError: false
-            };
+          return await this.scrapeResult(api, 'screenshot', handlerData, true, extra.signal);
+        } catch (error) {
+          this.log('error', `Error taking screenshot for URL ${url}: ${error instanceof Error ? error.message : String(error)}`);
+          throw error;
+        }
+      }
+      
+      if (name === 'manage_cache') {
+        const { action, key, older_than: olderThan, profile } = parseToolArguments(name, args);
+        const { keyOwner } = this.resolveApi(request.params._meta, extra, profile);
+        return await this.manageCache(keyOwner, action, key, olderThan);
+      }
+      
+      if (name === 'scrape_batch') {
+        const { prompts, urls, instruction, format, concurrency, profile } = parseToolArguments(name, args);
+        return await this.scrapeBatch(
+          this.resolveApi(request.params._meta, extra, profile),
+          buildBatchItems(prompts, urls, instruction),
+          format,
+          concurrency,
+          progressToken,
+          extra.requestId,
+          extra.signal
+        );
+      }
+      
+      if (name === 'crawl') {
+        const {
+          url,
+          instruction,
+          format,
+          include,
+          exclude,
+          next_page: nextPage,
+          max_depth: maxDepth,
+          max_pages: maxPages,
+          same_domain: sameDomain,
+          concurrency,
+          profile
+        } = parseToolArguments(name, args);
+        return await this.crawl(
+          this.resolveApi(request.params._meta, extra, profile),
+          { url, instruction, format, include, exclude, nextPage, maxDepth, maxPages, sameDomain, concurrency },
+          progressToken,
+          extra.requestId,
+          extra.signal
+        );
+      }
+      
+      if (name === 'start_scrape') {
+        const { prompt, format, profile } = parseToolArguments(name, args);
+        const api = this.resolveApi(request.params._meta, extra, profile);
+        return await this.startScrapeJob(api, prompt, format ?? this.defaultFormat, extra.signal);
+      }
+      
+      if (name === 'get_scrape_status') {
+        const { chat_id: chatId } = parseToolArguments(name, args);
+        return await this.getScrapeStatus(chatId, extra.signal);
+      }
+      
+      if (name === 'get_scrape_result') {
+        const { chat_id: chatId, format, wait } = parseToolArguments(name, args);
+        // Results of jobs from other sessions or earlier runs are read from the history, if the caller's key scraped them
+        if (!this.jobs.get(chatId) && this.history) {
+          const api = this.resolveApi(request.params._meta, extra);
+          const stored = this.history.entry(api.keyOwner, chatId);
+          if (stored) {
+            return await this.historyResult(api, stored, format, extra.signal);
           }
-          
-          // Default response
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(handlerData),
-              },
-            ],
-            isError: false
-          };
         }
+        return await this.getScrapeResult(
+          chatId,
+          format,
+          wait === true,
+          progressToken,
+          extra.requestId,
+          extra.signal
+        );
+      }
+      
+      if (name === 'cancel_scrape') {
+        const { chat_id: chatId } = parseToolArguments(name, args);
+        return this.cancelScrapeJob(chatId);
+      }
+      
+      if (name === 'get_chunk') {
+        const { document_id: documentId, chunk } = parseToolArguments(name, args);
+        return this.getChunk(documentId, chunk);
+      }
+      
+      if (name === 'get_usage') {
+        const { period, limit } = parseToolArguments(name, args);
+        const { keyOwner: owner } = this.resolveApi(request.params._meta, extra);
+        return this.usageReport(owner, period, limit);
+      }
+      
+      if (name === 'search_history') {
+        const { query, format, since, limit } = parseToolArguments(name, args);
+        const { keyOwner: owner } = this.resolveApi(request.params._meta, extra);
+        return await this.searchHistory(owner, query, format, since, limit);
+      }
+      
+      if (name === 'export') {
+        const { chat_id: chatId, format, path, overwrite } = parseToolArguments(name, args);
+        const { keyOwner: owner } = this.resolveApi(request.params._meta, extra);
+        return await this.exportStored(owner, chatId, { format, path, overwrite });
+      }
+      
+      if (name === 'watch_page') {
+        const {
+          prompt,
+          name: label,
+          format,
+          schema,
+          selector,
+          interval_minutes: intervalMinutes,
+          profile
+        } = parseToolArguments(name, args);
+        const { apiKey, source } = this.resolveCredential(request.params._meta, extra, profile);
+        // Checks run outside of any request, so they can only be billed to a key the server holds itself
+        if (source === 'meta' || source === 'header') {
+          throw new ScraperCredentialsError(
+            'Watched pages are checked after this request ends, so they cannot use an API key sent with it. ' +
+            'Pass a profile to bill the checks to instead.'
+          );
+        }
+        const owner = keyOwner(apiKey);
         
-        // Handle screenshot tool (if enabled)
-        if (name === 'screenshot') {
-          const { url } = args as { url: string };
-          try {
-            const handlerData = await this.scraperApi.screenshot(url);
-            this.log('info', `Screenshot taken successfully for URL: ${url}`);
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify(handlerData),
-                }
-              ],
-              isError: false
-            };
-          } catch (error) {
-            this.log('error', `Error taking screenshot for URL ${url}: ${error instanceof Error ? error.message : String(error)}`);
-            throw error;
-          }
+        const watch = this.watcher.add({
+          prompt,
+          name: label,
+          format: format ?? (schema ? 'json' : 'markdown'),
+          schema,
+          selector,
+          intervalMinutes,
+          profile: source.startsWith('profile:') ? source.slice('profile:'.length) : undefined,
+          owner
+        });
+        try {
+          await this.watcher.check(watch.id, owner, extra.signal);
+        } catch (error) {
+          // A page that cannot be scraped now is not watched
+          this.watcher.remove(watch.id, owner);
+          throw error;
         }
         
-        throw new Error(`Unknown tool: ${name}`);
-      } catch (error) {
-        this.log('error', `Error in tool operation: ${error}`);
         return {
           content: [
             {
               type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              text: `Watching every ${intervalMinutes} minutes; the first snapshot was taken. ` +
+                `Use get_changes with watch_id "${watch.id}" or subscribe to ${WatchStore.uri(watch.id)} to follow changes.\n` +
+                '```json\n' + JSON.stringify(this.describeWatch(watch), null, 2) + '\n```',
+            }
+          ],
+          isError: false
+        };
+      }
+      
+      if (name === 'list_watches') {
+        parseToolArguments(name, args);
+        const { keyOwner: owner } = this.resolveApi(request.params._meta, extra);
+        const watches = this.watcher.list(owner).map(watch => this.describeWatch(watch));
+        return {
+          content: [
+            {
+              type: 'text',
+              text: watches.length
+                ? 'Watches:\n```json\n' + JSON.stringify(watches, null, 2) + '\n```'
+                : 'No pages are watched. Use watch_page to start watching one.',
+            }
+          ],
+          isError: false
+        };
+      }
+      
+      if (name === 'get_changes') {
+        const { watch_id: watchId, limit, check_now: checkNow } = parseToolArguments(name, args);
+        const { keyOwner: owner } = this.resolveApi(request.params._meta, extra);
+        if (checkNow) {
+          await this.watcher.check(watchId, owner, extra.signal);
+        }
+        return this.changesResult(this.requireWatch(watchId, owner), limit);
+      }
+      
+      if (name === 'unwatch') {
+        const { watch_id: watchId } = parseToolArguments(name, args);
+        const watch = this.watcher.remove(watchId, this.resolveApi(request.params._meta, extra).keyOwner);
+        if (!watch) {
+          throw new Error(`Unknown watch: ${watchId}. Use list_watches to see the watched pages.`);
+        }
+        this.subscriptions.delete(WatchStore.uri(watchId));
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Stopped watching ${watch.name ?? watch.prompt}`,
+            }
+          ],
+          isError: false
+        };
+      }
+      
+      throw new Error(`Unknown tool: ${name}`);
+    } catch (error) {
+      this.log('error', `Error in tool operation: ${error}`);
+      if (error instanceof ScraperError) {
+        return this.scraperErrorResult(error);
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: redactSecrets(`Error: ${error instanceof Error ? error.message : String(error)}`),
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  /**
+   * Lists or purges the cached scrape results of the caller's API key
+   * @param owner The owner of the caller's API key
+   * @param action Whether to list or purge entries
+   * @param key Only purge the entry with this key
+   * @param olderThan Only purge entries older than this many seconds
+   * @returns The tool result with the entries or the number of purged entries
+   */
+  private async manageCache(
+    owner: string,
+    action: 'list' | 'purge',
+    key?: string,
+    olderThan?: number
+  ): Promise<CallToolResult> {
+    if (!this.cache) {
+      throw new Error('The result cache is disabled');
+    }
+    
+    if (action === 'purge') {
+      const deleted = await this.cache.purge(owner, key, olderThan !== undefined ? olderThan * 1000 : undefined);
+      this.log('info', `Purged ${deleted} cache entries`);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Purged ${deleted} cache ${deleted === 1 ? 'entry' : 'entries'}.`,
+          }
+        ],
+        isError: false
+      };
+    }
+    
+    const entries = (await this.cache.list(owner)).map(entry => ({
+      key: entry.key,
+      prompt: entry.prompt,
+      format: entry.format,
+      stored_at: new Date(entry.storedAt).toISOString(),
+      size: entry.size
+    }));
+    return {
+      content: [
+        {
+          type: 'text',
+          text: entries.length
+            ? 'Cache entries:\n```json\n' + JSON.stringify(entries, null, 2) + '\n```'
+            : 'The cache is empty.',
+        }
+      ],
+      isError: false
+    };
+  }
+
+  /**
+   * Reports the credits spent with the caller's key and the remaining budgets
+   * @param owner Owner of the caller's API key; calls made with other keys are left out
+   * @param period Whether to cover this session, the current UTC day or all recorded usage
+   * @param limit Number of most recent calls to include
+   * @returns The tool result with the totals, budgets and recent calls
+   */
+  private usageReport(owner: string, period: 'session' | 'today' | 'all', limit: number): CallToolResult {
+    const filter = { owner, ...(period === 'session' ? { session: this.sessionId } : period === 'today' ? { since: startOfDay() } : {}) };
+    const budget = (limit: number | undefined, used: number) =>
+      limit === undefined ? null : { limit, used, remaining: Math.max(0, limit - used) };
+    const report = {
+      period,
+      totals: this.ledger.totals(filter),
+      budgets: {
+        // The daily budget is shared with every other key, whose spending is not reported
+        daily: this.ledger.daily === undefined
+          ? null
+          : { limit: this.ledger.daily, used: this.ledger.totals({ owner, since: startOfDay() }).credits, shared: true },
+        session: budget(this.sessionBudget, this.ledger.totals({ session: this.sessionId }).credits)
+      },
+      recent: this.ledger.recent(limit, filter).map(({ time, session, ...record }) => ({
+        ...record,
+        time: new Date(time).toISOString(),
+        ...(period !== 'session' && { this_session: session === this.sessionId })
+      }))
+    };
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Usage:\n```json\n' + JSON.stringify(report, null, 2) + '\n```',
+        }
+      ],
+      isError: false
+    };
+  }
+
+  /**
+   * Scrapes a batch of pages and merges the successful results
+   * @param api The API client of the caller
+   * @param items The batch items
+   * @param format The merged output format
+   * @param concurrency Maximum number of concurrent scrapes
+   * @param progressToken Optional progress token of the tool call
+   * @param requestId ID of the tool call, so progress is routed to the caller's stream
+   * @param signal Signal for the tool call
+   * @returns The tool result with a summary, the merged result and per-item outcomes
+   */
+  private async scrapeBatch(
+    api: ScraperAPI,
+    items: BatchItem[],
+    format: BatchFormat,
+    concurrency: number,
+    progressToken: string | number | undefined,
+    requestId: RequestId,
+    signal: AbortSignal
+  ): Promise<CallToolResult> {
+    this.log('info', `Starting batch of ${items.length} scrapes with concurrency ${concurrency}`);
+    
+    const results = await runBatch(api, items, format, concurrency, signal, async (done) => {
+      if (progressToken !== undefined) {
+        await this.server.notification({
+          method: 'notifications/progress',
+          params: {
+            progress: done,
+            total: items.length,
+            progressToken: progressToken
+          },
+        }, { relatedRequestId: requestId });
+      }
+    });
+    
+    const failed = results.filter(item => item.status === 'error');
+    this.log('info', `Batch finished: ${results.length - failed.length}/${results.length} succeeded`);
+    
+    const outcomes = results.map(item => ({
+      index: item.index,
+      prompt: item.prompt,
+      url: item.url,
+      status: item.status,
+      error: item.error
+    }));
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Batch finished: ${results.length - failed.length} of ${results.length} items succeeded` +
+            (failed.length ? `, ${failed.length} failed (see per-item results).` : '.'),
+        },
+        {
+          type: 'text',
+          text: this.mergedText(results, format),
+        },
+        {
+          type: 'text',
+          text: 'Per-item results:\n```json\n' + JSON.stringify(outcomes, null, 2) + '\n```',
+        }
+      ],
+      isError: failed.length === results.length
+    };
+  }
+
+  /**
+   * Crawls a site from a start URL and combines the successful pages
+   * @param api The API client of the caller
+   * @param options The start URL, extraction, link filters and limits
+   * @param progressToken Optional progress token of the tool call
+   * @param requestId ID of the tool call, so progress is routed to the caller's stream
+   * @param signal Signal for the tool call
+   * @returns The tool result with a summary, the combined result and per-page outcomes
+   */
+  private async crawl(
+    api: ScraperAPI,
+    options: CrawlOptions,
+    progressToken: string | number | undefined,
+    requestId: RequestId,
+    signal: AbortSignal
+  ): Promise<CallToolResult> {
+    this.log('info', `Starting crawl of ${options.url} (depth ${options.maxDepth}, up to ${options.maxPages} pages)`);
+    
+    const { pages, blocked, unvisited } = await runCrawl(api, options, signal, async (done, page) => {
+      if (progressToken !== undefined) {
+        await this.server.notification({
+          method: 'notifications/progress',
+          params: {
+            progress: done,
+            total: options.maxPages,
+            progressToken: progressToken,
+            message: `Scraped ${page.url}`
+          },
+        }, { relatedRequestId: requestId });
+      }
+    });
+    
+    const failed = pages.filter(page => page.status === 'error');
+    this.log('info', `Crawl finished: ${pages.length - failed.length}/${pages.length} pages succeeded`);
+    
+    const notes = [
+      failed.length ? `${failed.length} failed (see per-page results)` : '',
+      blocked.length ? `${blocked.length} blocked by robots.txt` : '',
+      unvisited.length ? `${unvisited.length} more found but not scraped (max_pages reached)` : ''
+    ].filter(Boolean);
+    const outcomes = pages.map(page => ({
+      url: page.url,
+      depth: page.depth,
+      status: page.status,
+      error: page.error
+    }));
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Crawl finished: ${pages.length - failed.length} of ${pages.length} pages scraped` +
+            (notes.length ? `; ${notes.join(', ')}.` : '.'),
+        },
+        {
+          type: 'text',
+          text: this.mergedText(pages, options.format),
+        },
+        {
+          type: 'text',
+          text: 'Per-page results:\n```json\n' + JSON.stringify({ pages: outcomes, blocked, unvisited }, null, 2) + '\n```',
+        }
+      ],
+      isError: pages.length > 0 && failed.length === pages.length
+    };
+  }
+  
+  /**
+   * Merges successful batch items or crawl pages into the text of a tool result
+   * @param results The per-item results
+   * @param format The merged output format
+   * @returns The markdown document, or the fenced CSV table or JSON records
+   */
+  private mergedText(results: BatchItemResult[], format: BatchFormat): string {
+    const merged = mergeBatchResults(results, format);
+    return format === 'markdown'
+      ? merged as string
+      : format === 'csv'
+        ? 'CSV Data:\n```csv\n' + (merged as string).trim() + '\n```'
+        : 'JSON Data:\n```json\n' + JSON.stringify(merged, null, 2) + '\n```';
+  }
+
+  /**
+   * Starts a background scrape job and registers it
+   * @param api The API client of the caller, also used to poll the job
+   * @param prompt The prompt describing what to scrape
+   * @param format The default format for the result
+   * @param signal Signal for the tool call
+   * @returns The tool result with the job's chat ID
+   */
+  private async startScrapeJob(
+    api: ScraperAPI,
+    prompt: string,
+    format: ScrapeFormat,
+    signal: AbortSignal
+  ): Promise<CallToolResult> {
+    const started = await api.startScrape(prompt, format, { signal });
+    const job = this.jobs.add(started.chatId, prompt, format, started.jobId);
+    this.jobApis.set(job, api);
+    
+    // The API may answer synchronously, in which case the result is kept for get_scrape_result
+    if (!started.jobId) {
+      this.jobs.update(job.chatId, { status: 'completed', result: started.data });
+    }
+    this.log('info', `Started scrape job ${job.chatId} for prompt: "${prompt.substring(0, 50)}${prompt.length > 50 ? '...' : ''}"`);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Scrape job started with chat_id: ${job.chatId}\n` + (job.result
+            ? 'The result is already available; collect it with get_scrape_result.'
+            : 'Use get_scrape_status to check on it and get_scrape_result to collect the result.'),
+        },
+        {
+          type: 'text',
+          text: 'Job:\n```json\n' + JSON.stringify(this.describeJob(job), null, 2) + '\n```',
+        }
+      ],
+      isError: false
+    };
+  }
+
+  /**
+   * Refreshes and reports the status of one job, or lists all jobs
+   * @param chatId The chat ID of the job, or undefined to list all jobs
+   * @param signal Signal for the tool call
+   * @returns The tool result with the job status
+   */
+  private async getScrapeStatus(chatId: string | undefined, signal: AbortSignal): Promise<CallToolResult> {
+    if (!chatId) {
+      const jobs = this.jobs.list().map(job => this.describeJob(job));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: jobs.length
+              ? 'Jobs:\n```json\n' + JSON.stringify(jobs, null, 2) + '\n```'
+              : 'No scrape jobs have been started in this session.',
+          }
+        ],
+        isError: false
+      };
+    }
+    
+    const job = this.requireJob(chatId);
+    if (!JobRegistry.isTerminal(job)) {
+      const { status, data } = await this.jobApi(job).getStatus(chatId, anySignal(signal, this.jobs.signal(chatId)));
+      this.jobs.update(chatId, { status, polls: job.polls + 1, error: status === 'failed' ? data?.error : undefined });
+    }
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Job:\n```json\n' + JSON.stringify(this.describeJob(job), null, 2) + '\n```',
+        }
+      ],
+      isError: false
+    };
+  }
+
+  /**
+   * Fetches the result of a job, optionally waiting for it to finish
+   * @param chatId The chat ID of the job
+   * @param format The format to return, defaulting to the job's format
+   * @param wait Whether to poll until the job finishes
+   * @param progressToken Optional progress token of the tool call
+   * @param requestId ID of the tool call, so progress is routed to the caller's stream
+   * @param signal Signal for the tool call
+   * @returns The tool result with the scraped data, or the job status if it has not finished
+   */
+  private async getScrapeResult(
+    chatId: string,
+    format: ScrapeFormat | undefined,
+    wait: boolean,
+    progressToken: string | number | undefined,
+    requestId: RequestId,
+    signal: AbortSignal
+  ): Promise<CallToolResult> {
+    const job = this.requireJob(chatId);
+    const resultFormat = format ?? job.format;
+    
+    if (job.status === 'cancelled') {
+      throw new Error(`Scrape job ${chatId} was cancelled`);
+    }
+    
+    try {
+      const api = this.jobApi(job);
+      const jobSignal = anySignal(signal, this.jobs.signal(chatId));
+      const handlerData = job.result && resultFormat === job.format
+        ? job.result
+        : wait && job.jobId
+          ? await api.waitForResult(chatId, job.jobId, resultFormat, this.progressCallback(progressToken, requestId), {
+            signal: jobSignal
+          })
+          : await api.getResult(chatId, resultFormat, jobSignal);
+      
+      if (!handlerData) {
+        this.jobs.update(chatId, { status: 'processing', polls: job.polls + 1 });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Scrape job ${chatId} has not finished yet. Check again later or call get_scrape_result with wait: true.\n` +
+                'Job:\n```json\n' + JSON.stringify(this.describeJob(job), null, 2) + '\n```',
             }
           ],
-          isError: true
+          isError: false
         };
       }
+      
+      this.jobs.update(chatId, { status: 'completed', polls: job.polls + 1 });
+      return await this.scrapeResult(api, resultFormat, handlerData, false, signal);
+    } catch (error) {
+      if (error instanceof ScraperJobFailedError) {
+        this.jobs.update(chatId, { status: 'failed', error: error.message });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cancels a job
+   * @param chatId The chat ID of the job
+   * @returns The tool result with the cancelled job
+   */
+  private cancelScrapeJob(chatId: string): CallToolResult {
+    const job = this.requireJob(chatId);
+    const wasRunning = !JobRegistry.isTerminal(job);
+    this.jobs.cancel(chatId);
+    this.log('info', `Cancelled scrape job ${chatId}`);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: wasRunning
+            ? `Scrape job ${chatId} cancelled. Its result will be discarded.`
+            : `Scrape job ${chatId} had already finished with status ${job.status}.`,
+        }
+      ],
+      isError: false
+    };
+  }
+
+  /**
+   * Looks up a job by chat ID
+   * @param chatId The chat ID of the job
+   * @returns The job
+   * @throws Error if the job is unknown
+   */
+  private requireJob(chatId: string): ScrapeJob {
+    const job = this.jobs.get(chatId);
+    if (!job) {
+      throw new Error(`Unknown scrape job: ${chatId}. Use get_scrape_status without chat_id to list jobs.`);
+    }
+    return job;
+  }
+
+  /**
+   * Searches the results in the scrape history that the caller's API key scraped
+   * @param owner The owner of the caller's API key
+   * @param query Words that must all appear in the prompt, URL or content
+   * @param format Only results in this format
+   * @param since Only results received on or after this ISO date
+   * @param limit Maximum number of results
+   * @returns The tool result listing the matching results
+   */
+  private async searchHistory(
+    owner: string,
+    query: string | undefined,
+    format: ScrapeFormat | undefined,
+    since: string | undefined,
+    limit: number
+  ): Promise<CallToolResult> {
+    if (!this.history) {
+      throw new Error('The scrape history is turned off on this server');
+    }
+    const matches = await this.history.search(owner, { text: query, format, since: since ? Date.parse(since) : undefined, limit });
+    const results = matches.map(({ entry, snippet }) => ({
+      chat_id: entry.chatId,
+      prompt: entry.prompt,
+      format: entry.format,
+      url: entry.url,
+      received_at: new Date(entry.completedAt).toISOString(),
+      size: entry.size,
+      resource: ScrapeHistory.uri(entry.chatId),
+      snippet
+    }));
+    return {
+      content: [
+        {
+          type: 'text',
+          text: results.length
+            ? `Found ${results.length} earlier results. Read one with get_scrape_result and its chat_id, or through its resource.\n` +
+              '```json\n' + JSON.stringify(results, null, 2) + '\n```'
+            : 'No earlier results match.',
+        }
+      ],
+      isError: false
+    };
+  }
+
+  /**
+   * Exports a result from the scrape history to a file
+   * @param owner The owner of the caller's API key, which must have scraped the result
+   * @param chatId The chat ID of the stored result
+   * @param target The format, path and whether to replace an existing file
+   * @returns The tool result with the file path and a preview
+   * @throws Error if the result is not in the history or exports are turned off
+   */
+  private async exportStored(owner: string, chatId: string, target: ExportTarget): Promise<CallToolResult> {
+    const exporter = this.requireExporter();
+    const entry = this.history?.entry(owner, chatId);
+    const response = entry && await this.history?.get(owner, chatId);
+    if (!entry || !response) {
+      throw new Error(`No stored result for ${chatId}. Exports read the scrape history; use search_history to find a chat_id.`);
+    }
+    const exported = await exporter.export(response, { ...target, name: entry.prompt ?? entry.url });
+    this.log('info', `Exported ${chatId} to ${exported.path}`);
+    return {
+      content: [{ type: 'text', text: this.describeExport(exported) }],
+      _meta: { export: { path: exported.path, format: exported.format, bytes: exported.bytes, rows: exported.rows } },
+      isError: false
+    };
+  }
+
+  /**
+   * Exports a fresh scrape result and adds the file to its tool result. A failed export is reported next to the
+   * result rather than failing the scrape that was already paid for.
+   * @param result The tool result of the scrape
+   * @param handlerData The scrape result
+   * @param target The format, path and whether to replace an existing file
+   * @param prompt The scrape prompt, which names the file when no path is given
+   * @returns The tool result with the export appended
+   */
+  private async withExport(
+    result: CallToolResult,
+    handlerData: ScraperResponse,
+    target: ExportTarget,
+    prompt: string
+  ): Promise<CallToolResult> {
+    try {
+      const exported = await this.requireExporter().export(handlerData, { ...target, name: prompt });
+      this.log('info', `Exported scrape result to ${exported.path}`);
+      return {
+        ...result,
+        content: [...result.content, { type: 'text', text: this.describeExport(exported) }],
+        _meta: { ...result._meta, export: { path: exported.path, format: exported.format, bytes: exported.bytes, rows: exported.rows } }
+      };
+    } catch (error) {
+      const hint = error instanceof ScraperError ? ERROR_HINTS[error.code] : undefined;
+      const message = `The result could not be exported: ${error instanceof Error ? error.message : String(error)}${hint ? `\n${hint}` : ''}`;
+      this.log('warning', message);
+      return { ...result, content: [...result.content, { type: 'text', text: redactSecrets(message) }] };
+    }
+  }
+
+  /**
+   * Gets the exporter
+   * @returns The exporter
+   * @throws Error if exports are turned off on this server
+   */
+  private requireExporter(): ResultExporter {
+    if (!this.exporter) {
+      throw new Error('Exports are turned off on this server');
+    }
+    return this.exporter;
+  }
+
+  /**
+   * Describes an exported file for the model
+   * @param exported The exported file
+   * @returns The text with the path, size and preview
+   */
+  private describeExport(exported: ExportedFile): string {
+    const rows = exported.rows !== undefined ? `${exported.rows} rows, ` : '';
+    const fence = exported.format === 'jsonl' ? 'json' : 'markdown';
+    return `Exported ${exported.format} to ${exported.path} (${rows}${exported.bytes} bytes). Preview:\n` +
+      '```' + fence + '\n' + exported.preview.replace(/\n$/, '') + '\n```';
+  }
+
+  /**
+   * Returns a result from the scrape history like a fresh one
+   * @param api The API client of the caller, to download the screenshot of a stored screenshot result
+   * @param entry The history entry
+   * @param format The requested format, which must be the stored one
+   * @param signal Signal for the tool call
+   * @returns The tool result, with the history entry in _meta.history
+   * @throws Error if the result is stored in another format or cannot be read
+   */
+  private async historyResult(
+    api: ScraperAPI,
+    entry: HistoryEntry,
+    format: ScrapeFormat | undefined,
+    signal: AbortSignal
+  ): Promise<CallToolResult> {
+    if (format && format !== entry.format) {
+      throw new Error(`The stored result of ${entry.chatId} is in the ${entry.format} format; scrape again to get ${format}`);
+    }
+    const response = await this.history?.get(api.keyOwner, entry.chatId);
+    if (!response) {
+      throw new Error(`The stored result of ${entry.chatId} could not be read; scrape again`);
+    }
+    
+    const result = await this.scrapeResult(api, entry.format, response, false, signal);
+    return {
+      ...result,
+      _meta: {
+        history: { chat_id: entry.chatId, received_at: new Date(entry.completedAt).toISOString() }
+      }
+    };
+  }
+
+  /**
+   * Reads a history resource in the natural MIME type of its format
+   * @param owner The owner of the caller's API key
+   * @param entry The history entry
+   * @param uri The requested URI
+   * @returns The resource contents
+   * @throws Error if the stored result cannot be read
+   */
+  private async historyContent(
+    owner: string,
+    entry: HistoryEntry,
+    uri: string
+  ): Promise<{ uri: string; mimeType: string; text: string }> {
+    const response = await this.history?.get(owner, entry.chatId);
+    if (!response) {
+      throw new Error(`Resource not found: ${uri}. The stored result could not be read.`);
+    }
+    const content = HISTORY_CONTENT[entry.format];
+    const text = content && response[content.field];
+    if (content && text !== undefined) {
+      return { uri, mimeType: content.mimeType, text };
+    }
+    return { uri, mimeType: 'application/json', text: JSON.stringify(response.data ?? response, null, 2) };
+  }
+
+  /**
+   * Gets a watch of the caller's API key by its id
+   * @param watchId The watch id
+   * @param owner The owner of the caller's API key
+   * @returns The watch
+   * @throws Error if the watch is unknown or owned by another key
+   */
+  private requireWatch(watchId: string, owner: string): Watch {
+    const watch = this.watcher.get(watchId, owner);
+    if (!watch) {
+      throw new Error(`Unknown watch: ${watchId}. Use list_watches to see the watched pages.`);
+    }
+    return watch;
+  }
+
+  /**
+   * Builds the public view of a watch
+   * @param watch The watch
+   * @returns Plain object describing the watch
+   */
+  private describeWatch(watch: Watch): Record<string, unknown> {
+    const iso = (time?: number) => time === undefined ? undefined : new Date(time).toISOString();
+    const last = watch.changes[watch.changes.length - 1];
+    return {
+      watch_id: watch.id,
+      name: watch.name,
+      prompt: watch.prompt,
+      format: watch.format,
+      selector: watch.selector,
+      interval_minutes: watch.intervalMinutes,
+      resource: WatchStore.uri(watch.id),
+      created_at: iso(watch.createdAt),
+      last_checked_at: iso(watch.lastCheckedAt),
+      next_check_at: iso(watch.nextCheckAt),
+      last_error: watch.lastError,
+      changes: watch.changes.length,
+      last_change: last && { time: iso(last.time), summary: last.summary }
+    };
+  }
+
+  /**
+   * Lists the most recent changes of a watch, newest first
+   * @param watch The watch
+   * @param limit Number of changes to include
+   * @returns Plain objects describing the changes
+   */
+  private describeChanges(watch: Watch, limit: number): Array<Record<string, unknown>> {
+    return watch.changes.slice(-limit).reverse().map(change => ({
+      ...change,
+      time: new Date(change.time).toISOString()
+    }));
+  }
+
+  /**
+   * Builds the tool result listing the recent changes of a watch, with markdown diffs as diff blocks
+   * @param watch The watch
+   * @param limit Number of changes to include
+   * @returns The tool result
+   */
+  private changesResult(watch: Watch, limit: number): CallToolResult {
+    const label = watch.name ?? watch.prompt;
+    const status = [
+      watch.lastCheckedAt ? `Last checked ${new Date(watch.lastCheckedAt).toISOString()}` : 'Not checked yet',
+      watch.lastError ? `; the last check failed: ${watch.lastError}` : ''
+    ].join('');
+    const changes = watch.changes.slice(-limit).reverse();
+    if (!changes.length) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No changes of ${label} detected. ${status}.`,
+          }
+        ],
+        isError: false
+      };
+    }
+    
+    const sections = changes.map(change => {
+      const heading = `## ${new Date(change.time).toISOString()}: ${change.summary}`;
+      return change.diff !== undefined
+        ? `${heading}\n\n\`\`\`diff\n${change.diff}\n\`\`\``
+        : `${heading}\n\n\`\`\`json\n${JSON.stringify(change.fields, null, 2)}\n\`\`\``;
+    });
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `# Changes of ${label}\n\n${status}. Showing ${changes.length} of ${watch.changes.length} changes, newest first.\n\n${sections.join('\n\n')}`,
+        }
+      ],
+      isError: false
+    };
+  }
+
+  /**
+   * Tells the client about watches: the resource list changed, or a watch it subscribed to found a change. Changes
+   * are only reported to clients of the watch's own key; the process logs them once, where the watcher is created.
+   * @param event The watch event
+   */
+  private onWatchEvent(event: WatchEvent): void {
+    if (event.type !== 'changed') {
+      this.server.sendResourceListChanged().catch(() => undefined);
+      return;
+    }
+    const uri = WatchStore.uri(event.watch.id);
+    const owner = this.subscriptions.get(uri);
+    if (owner && this.watcher.get(event.watch.id, owner)) {
+      this.logToClient('info', `Watched page changed: ${event.change.summary}`, { watch: event.watch.id });
+      this.server.sendResourceUpdated({ uri }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Gets the API client a job was started with
+   * @param job The job
+   * @returns The API client
+   * @throws Error if the job was not started by this server
+   */
+  private jobApi(job: ScrapeJob): ScraperAPI {
+    const api = this.jobApis.get(job);
+    if (!api) {
+      throw new Error(`Scrape job ${job.chatId} was not started in this session`);
+    }
+    return api;
+  }
+
+  /**
+   * Resolves the API client of a tool call from its profile argument, request metadata or HTTP headers
+   * @param meta The request's _meta, which may carry a scraperis/apiKey
+   * @param extra The request handler context, holding the HTTP headers for HTTP sessions
+   * @param profile The profile named in the tool arguments
+   * @returns The API client for the resolved key
+   * @throws ScraperCredentialsError if no key can be resolved
+   */
+  private resolveApi(
+    meta: Record<string, unknown> | undefined,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    profile?: string
+  ): ScraperAPI {
+    return this.keyApi(this.resolveCredential(meta, extra, profile).apiKey);
+  }
+
+  /**
+   * Resolves the API key of a request from its profile argument, request metadata or HTTP headers
+   * @param meta The request's _meta, which may carry a scraperis/apiKey
+   * @param extra The request handler context, holding the HTTP headers for HTTP sessions
+   * @param profile The profile named in the tool arguments
+   * @returns The key and where it came from
+   * @throws ScraperCredentialsError if no key can be resolved
+   */
+  private resolveCredential(
+    meta: Record<string, unknown> | undefined,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    profile?: string
+  ): ResolvedCredential {
+    const headers = extra.requestInfo?.headers ?? {};
+    const header = (name: string) => {
+      const value = headers[name];
+      return Array.isArray(value) ? value[0] : value;
+    };
+    const metaKey = meta?.[META_API_KEY];
+    
+    const credential = this.credentials.resolve({
+      profile,
+      metaKey: typeof metaKey === 'string' ? metaKey : undefined,
+      headerKey: header('x-scraperis-api-key'),
+      headerProfile: header('x-scraperis-profile')
     });
+    this.log('debug', `Using API key from ${credential.source}`);
+    return credential;
   }
 
   /**
-   * Logs a message to the console and sends it to the MCP server
-   * @param level The log level ('error' or 'info')
+   * Gets the owner of the caller's API key, for requests that are not billed but only see the caller's own data
+   * @param meta The request's _meta, which may carry a scraperis/apiKey
+   * @param extra The request handler context, holding the HTTP headers for HTTP sessions
+   * @returns The owner, or undefined if the caller has no key
+   */
+  private callerOwner(
+    meta: Record<string, unknown> | undefined,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ): string | undefined {
+    try {
+      return keyOwner(this.resolveCredential(meta, extra).apiKey);
+    } catch (error) {
+      if (error instanceof ScraperCredentialsError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves the API client of a profile or the default key, for work done outside of a request
+   * @param profile The profile name
+   * @returns The API client for the resolved key
+   * @throws ScraperCredentialsError if no key can be resolved
+   */
+  private profileApi(profile?: string): ScraperAPI {
+    return this.keyApi(this.credentials.resolve({ profile }).apiKey);
+  }
+
+  /**
+   * Gets the API client of a key, creating it on first use
+   * @param apiKey The API key
+   * @returns The API client
+   */
+  private keyApi(apiKey: string): ScraperAPI {
+    let api = this.apis.get(apiKey);
+    if (!api) {
+      api = new ScraperAPI(apiKey, this.apiBase, this.pollInterval, this.apiOptions);
+      this.apis.set(apiKey, api);
+    }
+    return api;
+  }
+
+  /**
+   * Builds the public view of a job
+   * @param job The job
+   * @returns Plain object describing the job
+   */
+  private describeJob(job: ScrapeJob): Record<string, unknown> {
+    return {
+      chat_id: job.chatId,
+      job_id: job.jobId,
+      status: job.status,
+      format: job.format,
+      prompt: job.prompt,
+      polls: job.polls,
+      elapsed_ms: (JobRegistry.isTerminal(job) ? job.updatedAt : Date.now()) - job.createdAt,
+      started_at: new Date(job.createdAt).toISOString(),
+      error: job.error
+    };
+  }
+
+  /**
+   * Creates a progress callback that sends notifications/progress for the tool call
+   * @param progressToken Optional progress token of the tool call
+   * @param requestId ID of the tool call, so progress is routed to the caller's stream
+   * @returns The callback, or undefined if the client did not ask for progress
+   */
+  private progressCallback(progressToken: string | number | undefined, requestId: RequestId): ProgressCallback | undefined {
+    if (progressToken === undefined) {
+      return undefined;
+    }
+
+    // MCP requires progress to increase, but queue updates repeat the last value with a new message
+    let last = -1;
+    return async (progress, message) => {
+      const value = progress > last ? progress : last + (100 - last) / 100;
+      last = value;
+      await this.server.notification({
+        method: 'notifications/progress',
+        params: {
+          progress: value,
+          total: 100,
+          progressToken: progressToken,
+          ...(message && { message })
+        },
+      }, { relatedRequestId: requestId });
+    };
+  }
+
+  /**
+   * Builds the tool result for json data extracted with a caller-supplied schema
+   * @param handlerData The scrape result
+   * @param schema The JSON Schema the data must follow
+   * @returns The fenced JSON, any coercions and mismatches, and the data as structured content when it is valid
+   */
+  private schemaResult(handlerData: ScraperResponse, schema: JsonSchema): CallToolResult {
+    const validation = validateJsonSchema(handlerData.data, schema);
+    const content: CallToolResult['content'] = [
+      {
+        type: 'text',
+        text: 'JSON Data:\n```json\n' + JSON.stringify(validation.value ?? null, null, 2) + '\n```',
+      }
+    ];
+    
+    if (validation.coerced.length > 0) {
+      content.push({ type: 'text', text: `Coerced to match the schema: ${validation.coerced.join(', ')}` });
+    }
+    if (!validation.valid) {
+      this.log('info', `Scraped data does not match the schema (${validation.issues.length} issues)`);
+      content.push({
+        type: 'text',
+        text: 'The data does not match the schema:\n' +
+          validation.issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n')
+      });
+      return { content, isError: false };
+    }
+    
+    // structuredContent must be an object, so other top-level values are wrapped
+    const value = validation.value;
+    const structuredContent = isObject(value) ? value : { data: value };
+    return { content, structuredContent, isError: false };
+  }
+
+  /**
+   * Builds the tool result for a finished scrape in the requested format
+   * @param api The API client used to download screenshots
+   * @param format The requested format
+   * @param handlerData The scrape result
+   * @param inlineImage Whether to include screenshots as image content
+   * @param signal Signal for the tool call
+   * @param output How markdown is post-processed and the token budget of markdown and HTML text
+   * @returns The tool result
+   */
+  private async scrapeResult(
+    api: ScraperAPI,
+    format: ScrapeFormat,
+    handlerData: ScraperResponse,
+    inlineImage: boolean,
+    signal?: AbortSignal,
+    output: TextOutputOptions = {}
+  ): Promise<CallToolResult> {
+    if (format === 'markdown' && handlerData.markdown) {
+      const markdown = processMarkdown(handlerData.markdown, { ...output.markdown, baseUrl: handlerData.url });
+      if (markdown === undefined) {
+        const headings = listHeadings(handlerData.markdown);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `No section heading matched the selector "${output.markdown?.selector}". ` +
+                (headings.length ? `Headings on the page:\n${headings.join('\n')}` : 'The page has no headings.'),
+            }
+          ],
+          isError: false
+        };
+      }
+      return this.textResult(markdown, handlerData.url, output);
+    }
+    
+    if (format === 'screenshot' && (handlerData.screenshot?.url || handlerData.screenshot?.data)) {
+      const entry = await this.storeScreenshot(api, handlerData, signal);
+      this.log('info', `Screenshot available at: ${entry.uri}`);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Screenshot taken successfully. You can view it via *MCP Resources* (Paperclip icon) @ URI: ${entry.uri}`
+          },
+          ...(inlineImage
+            ? [{ type: 'image' as const, data: entry.bytes.toString('base64'), mimeType: entry.mimeType }]
+            : [])
+        ],
+        isError: false
+      };
+    }
+    
+    if (format === 'html' && handlerData.html) {
+      return this.textResult(handlerData.html, handlerData.url, output);
+    }
+    
+    if (format === 'csv' && handlerData.csv) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'CSV Data:\n```csv\n' + handlerData.csv.trim() + '\n```',
+          }
+        ],
+        isError: false
+      };
+    }
+    
+    if (format === 'xml' && handlerData.xml) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'XML Data:\n```xml\n' + handlerData.xml.trim() + '\n```',
+          }
+        ],
+        isError: false
+      };
+    }
+    
+    if (format === 'json' && handlerData.data) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'JSON Data:\n```json\n' + JSON.stringify(handlerData.data, null, 2) + '\n```',
+          }
+        ],
+        isError: false
+      };
+    }
+    
+    // Default response
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(handlerData),
+        },
+      ],
+      isError: false
+    };
+  }
+
+  /**
+   * Builds the tool result for markdown or HTML text, splitting text over the token budget into chunks
+   * @param text The text
+   * @param source The page the text was scraped from
+   * @param output The token budget and whether the remaining chunks are kept or dropped
+   * @returns The tool result with the text, or its first chunk and how to read the rest
+   */
+  private textResult(text: string, source: string | undefined, output: TextOutputOptions): CallToolResult {
+    const { maxTokens, overflow = 'chunk' } = output;
+    if (!maxTokens || estimateTokens(text) <= maxTokens) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: text,
+          }
+        ],
+        isError: false
+      };
+    }
+    
+    const chunks = chunkMarkdown(text, maxTokens);
+    if (overflow === 'truncate') {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: chunks[0],
+          },
+          {
+            type: 'text',
+            text: `[Truncated to about ${estimateTokens(chunks[0])} of ${estimateTokens(text)} tokens. ` +
+              'Scrape again with a selector or a larger max_tokens to see more.]',
+          }
+        ],
+        isError: false
+      };
+    }
+    
+    const document = this.chunks.add(chunks, source);
+    this.log('info', `Split a result of about ${estimateTokens(text)} tokens into ${chunks.length} chunks`);
+    // The session may already be gone; the chunks are listed on its next request either way
+    this.server.notification({
+      method: 'notifications/resources/list_changed',
+    }).catch(() => undefined);
+    return this.chunkResult(document, 1);
+  }
+  
+  /**
+   * Returns a chunk of a chunked result
+   * @param documentId The document id returned with the first chunk
+   * @param chunk The 1-based chunk number
+   * @returns The tool result with the chunk and how to read the next one
+   * @throws Error if the document is unknown or expired, or has no such chunk
+   */
+  private getChunk(documentId: string, chunk: number): CallToolResult {
+    const document = this.chunks.get(documentId);
+    if (!document) {
+      throw new Error(`Unknown or expired document: ${documentId}. Chunked results are kept for an hour; scrape the page again.`);
+    }
+    if (chunk > document.chunks.length) {
+      throw new Error(`Document ${documentId} has ${document.chunks.length} chunks`);
+    }
+    return this.chunkResult(document, chunk);
+  }
+  
+  /**
+   * Builds the tool result for one chunk of a chunked document
+   * @param document The chunked document
+   * @param chunk The 1-based chunk number
+   * @returns The tool result with the chunk and a note on how to read the next one
+   */
+  private chunkResult(document: ChunkedDocument, chunk: number): CallToolResult {
+    const total = document.chunks.length;
+    const next = chunk < total
+      ? `Call get_chunk with {"document_id": "${document.id}", "chunk": ${chunk + 1}} or read ${ChunkStore.uri(document.id, chunk + 1)} for the next chunk.`
+      : 'This is the last chunk.';
+    return {
+      content: [
+        {
+          type: 'text',
+          text: document.chunks[chunk - 1],
+        },
+        {
+          type: 'text',
+          text: `[Chunk ${chunk} of ${total} (document_id: ${document.id}). ${next}]`,
+        }
+      ],
+      isError: false
+    };
+  }
+
+  /**
+   * Stores the screenshot of a scrape result, downloading it while its signed URL is still valid
+   * @param api The API client used to download the screenshot
+   * @param handlerData The scrape result holding the screenshot URL or bytes
+   * @param signal Signal for the tool call
+   * @returns The stored screenshot
+   */
+  private async storeScreenshot(
+    api: ScraperAPI,
+    handlerData: ScraperResponse,
+    signal?: AbortSignal
+  ): Promise<ScreenshotEntry> {
+    const screenshot = handlerData.screenshot ?? {};
+    const { bytes, mimeType } = screenshot.data
+      ? { bytes: Buffer.from(screenshot.data, 'base64'), mimeType: screenshot.mimeType }
+      : await api.downloadScreenshot(screenshot.url as string, signal);
+    
+    const entry = this.screenshots.add(bytes, handlerData.url, mimeType);
+    // The session may already be gone; the resource is listed on its next request either way
+    this.server.notification({
+      method: 'notifications/resources/list_changed',
+    }).catch(() => undefined);
+    return entry;
+  }
+
+  /**
+   * Builds an error tool result for a ScraperError, with guidance and structured details
+   * so the model can decide whether to retry or ask the user for help
+   * @param error The error raised by the Scraper.is client
+   * @returns The tool result
+   */
+  private scraperErrorResult(error: ScraperError): CallToolResult {
+    const hint = ERROR_HINTS[error.code];
+    return {
+      content: [
+        {
+          type: 'text',
+          text: redactSecrets(`Error [${error.code}]: ${error.message}${hint ? `\n${hint}` : ''}`),
+        },
+        {
+          type: 'text',
+          text: redactSecrets('Error details:\n```json\n' + JSON.stringify(error.toJSON(), null, 2) + '\n```'),
+        }
+      ],
+      isError: true
+    };
+  }
+
+  /**
+   * Writes a structured log record and sends it to the client as notifications/message
+   * @param level The log level; the logger and the client each drop records below their own level
    * @param message The message to log
+   * @param fields Additional fields of the record, such as durationMs
+   */
+  private log(level: LogLevel, message: string, fields?: Record<string, unknown>): void {
+    const toClient = isLevelEnabled(level, this.clientLogLevel);
+    if (!toClient && !this.logger.enabled(level)) {
+      return;
+    }
+    const record = this.logger.record(level, message, fields);
+    this.logger.emit(record);
+    if (toClient) {
+      // Logging must never fail the caller, even when the client has disconnected
+      this.server.sendLoggingMessage({ level, logger: 'scraperis-mcp', data: record }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Sends a log record to the client only, for events the process logs elsewhere
+   * @param level The severity
+   * @param message The message
+   * @param fields Optional structured fields
+   */
+  private logToClient(level: LogLevel, message: string, fields?: Record<string, unknown>): void {
+    if (isLevelEnabled(level, this.clientLogLevel)) {
+      const data = this.logger.record(level, message, fields);
+      this.server.sendLoggingMessage({ level, logger: 'scraperis-mcp', data }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Connects the MCP server to a transport, such as one HTTP session
+   * @param transport The transport to serve
    */
-  private log(level: 'error' | 'info', message: string): void {
-    sendLoggingMessage(this.server, level, message);
+  async connect(transport: Transport): Promise<void> {
+    await this.server.connect(transport);
   }
 
   /**
-   * Starts the MCP server
+   * Closes the MCP server and its transport, cancelling the session's pending jobs
+   */
+  async close(): Promise<void> {
+    for (const job of this.jobs.list()) {
+      this.jobs.cancel(job.chatId);
+    }
+    this.unsubscribeWatcher();
+    await this.server.close();
+  }
+
+  /**
+   * Starts the MCP server on stdio
    */
   async start(): Promise<void> {
     try {
-      console.error('Initializing Scraperis MCP Server...');
+      this.log('info', 'Initializing Scraperis MCP Server...');
       
       const transport = new StdioServerTransport();
       await this.server.connect(transport);
       
       this.log('info', 'Scraperis MCP Server connected to stdio');
       this.log('info', 'Scraperis MCP Server initialized successfully');
-      this.log('info', `Configuration: API URL: ${this.scraperApi['apiBase']}`);
+      this.log('info', `Configuration: API URL: ${this.apiBase}`);
+      if (!this.credentials.hasFallback) {
+        this.log('info', 'No default API key is configured; each request must bring its own key or profile');
+      }
     } catch (error) {
       this.log('error', `Fatal error running server: ${error instanceof Error ? error.message : String(error)}`);
       console.error('Fatal error running server:', error);
@@ -0,0 +1,193 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import { ToolInputError } from '../lib/errors.js';
+import {
+  BatchOperationSchema,
+  CancelScrapeOperationSchema,
+  CrawlOperationSchema,
+  ExportOperationSchema,
+  GetChangesOperationSchema,
+  GetChunkOperationSchema,
+  ListWatchesOperationSchema,
+  ManageCacheOperationSchema,
+  ScrapeResultOperationSchema,
+  ScrapeStatusOperationSchema,
+  ScraperOperationSchema,
+  ScreenshotOperationSchema,
+  SearchHistoryOperationSchema,
+  StartScrapeOperationSchema,
+  ToolName,
+  UnwatchOperationSchema,
+  UsageOperationSchema,
+  WatchPageOperationSchema
+} from '../types/index.js';
+
+/**
+ * Tool descriptions and argument schemas, the single source of truth for tools/list and argument validation
+ */
+export const TOOL_SCHEMAS = {
+  scrape: {
+    description:
+      'Scrape a single webpage with advanced options for content extraction. \n' +
+      'Always returns both markdown content and visual screenshot for rich context. \n' +
+      'Supports various formats including markdown, HTML, screenshots, JSON, CSV, XML and quick. \n' +
+      'Use json, csv or xml to get structured/tabular results. \n' +
+      'The prompt should include the website URL and what data you want to extract. \n' +
+      "For example: 'Get me the top 10 products from producthunt.com' or \n" +
+      "'Extract all article titles and authors from techcrunch.com/news'",
+    schema: ScraperOperationSchema
+  },
+  start_scrape: {
+    description:
+      'Start a scrape job in the background and return its chat_id immediately. \n' +
+      'Use this instead of scrape for long-running extractions or to run several scrapes in parallel, \n' +
+      'then check on the job with get_scrape_status and collect it with get_scrape_result.',
+    schema: StartScrapeOperationSchema
+  },
+  get_scrape_status: {
+    description:
+      'Check the status of a scrape job started with start_scrape. \n' +
+      'Omit chat_id to list all jobs of this session.',
+    schema: ScrapeStatusOperationSchema
+  },
+  get_scrape_result: {
+    description:
+      'Get the result of a scrape job started with start_scrape, in any format. \n' +
+      'Returns the current status instead if the job has not finished, unless wait is true.',
+    schema: ScrapeResultOperationSchema
+  },
+  cancel_scrape: {
+    description:
+      'Cancel a scrape job started with start_scrape. \n' +
+      'Stops any pending wait for the job and discards its result.',
+    schema: CancelScrapeOperationSchema
+  },
+  scrape_batch: {
+    description:
+      'Run the same kind of extraction across many pages in one call. \n' +
+      'Pass either a list of prompts, or a list of URLs plus a shared instruction. \n' +
+      'Pages are scraped concurrently; failures are reported per item without failing the whole batch, \n' +
+      'and successful results are merged into one JSON array, CSV table or markdown document.',
+    schema: BatchOperationSchema
+  },
+  crawl: {
+    description:
+      'Crawl a site from a start URL, scraping every page with the same instruction. \n' +
+      'Follows links matching include/exclude patterns up to max_depth, and/or the next page of a paginated listing, \n' +
+      'until max_pages pages are scraped. URLs are deduplicated and robots.txt is respected. \n' +
+      'Returns one markdown document or the concatenated JSON/CSV records, each tagged with its source URL.',
+    schema: CrawlOperationSchema
+  },
+  manage_cache: {
+    description:
+      'List or purge locally cached scrape results. \n' +
+      'Cached results are reused by scrape to save credits; purge them to force fresh data.',
+    schema: ManageCacheOperationSchema
+  },
+  screenshot: {
+    description:
+      'Take a screenshot of a webpage and return it as an image. \n' +
+      'Supports custom viewport sizes, full-page captures, device emulation presets and a delay for pages that render late. \n' +
+      'The screenshot is also registered as an MCP resource.',
+    schema: ScreenshotOperationSchema
+  },
+  get_usage: {
+    description:
+      'Report the Scraper.is credits spent and the remaining budgets. \n' +
+      'Returns totals by operation and the most recent calls, for this session, today (UTC) or all recorded usage. \n' +
+      'Check it before large batches; scrapes are refused once a budget is used up.',
+    schema: UsageOperationSchema
+  },
+  get_chunk: {
+    description:
+      'Read the next part of a long scrape result that was split into chunks because of max_tokens. \n' +
+      'Pass the document_id and the chunk number given at the end of the previous chunk.',
+    schema: GetChunkOperationSchema
+  },
+  watch_page: {
+    description:
+      'Watch a webpage for changes: the scrape prompt is re-run on an interval and each result is compared with the previous one. \n' +
+      'Use the markdown format to see changed lines, or json with a schema to see changed fields (e.g. prices). \n' +
+      'Takes the first snapshot right away; every check costs one credit.',
+    schema: WatchPageOperationSchema
+  },
+  list_watches: {
+    description: 'List the watched pages with their intervals, last check and latest change.',
+    schema: ListWatchesOperationSchema
+  },
+  get_changes: {
+    description:
+      'Get the most recent changes of a watched page as line diffs or changed fields, newest first. \n' +
+      'Set check_now to check the page before reporting.',
+    schema: GetChangesOperationSchema
+  },
+  unwatch: {
+    description: 'Stop watching a page and drop its snapshots.',
+    schema: UnwatchOperationSchema
+  },
+  search_history: {
+    description:
+      'Search earlier scrape results by the words in their prompt, URL or content, newest first. \n' +
+      'Use it before scraping a page again: get_scrape_result returns a listed result by its chat_id without spending a credit.',
+    schema: SearchHistoryOperationSchema
+  },
+  export: {
+    description:
+      "Write an earlier scrape result to a file in the server's export directory, as CSV, JSONL, XLSX or markdown. \n" +
+      'Nested fields of structured data become dotted columns. Find the chat_id with search_history; \n' +
+      'to export a new scrape, pass the export option to scrape instead. Returns the file path and a preview.',
+    schema: ExportOperationSchema
+  }
+} satisfies Record<ToolName, { description: string; schema: z.ZodTypeAny }>;
+
+export type { ToolName };
+
+export interface ToolOptions {
+  /** Tools to offer; all tools when unset */
+  enabled?: ToolName[];
+  /** Replacement descriptions by tool name */
+  descriptions?: Partial<Record<ToolName, string>>;
+}
+
+/**
+ * Builds the tools/list definitions from the tool schemas
+ * @param options The tools to offer and any replacement descriptions
+ * @returns The tool definitions
+ */
+export function buildTools(options: ToolOptions = {}): Tool[] {
+  const names = (Object.keys(TOOL_SCHEMAS) as ToolName[])
+    .filter(name => !options.enabled || options.enabled.includes(name));
+  return names.map(name => {
+    // Drop the $schema marker; MCP clients expect a bare object schema
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { $schema, ...inputSchema } = zodToJsonSchema(TOOL_SCHEMAS[name].schema, { $refStrategy: 'none' }) as Record<string, unknown>;
+    return {
+      name,
+      description: options.descriptions?.[name] ?? TOOL_SCHEMAS[name].description,
+      inputSchema: { ...inputSchema, type: 'object' }
+    };
+  });
+}
+
+/**
+ * Validates tool arguments against the tool's schema
+ * @param name The tool name
+ * @param args The raw arguments from the tools/call request
+ * @returns The parsed arguments, with defaults applied
+ * @throws ToolInputError listing every offending field
+ */
+export function parseToolArguments<T extends ToolName>(
+  name: T,
+  args: unknown
+): z.infer<(typeof TOOL_SCHEMAS)[T]['schema']> {
+  const parsed = TOOL_SCHEMAS[name].schema.safeParse(args ?? {});
+  if (!parsed.success) {
+    throw new ToolInputError(name, parsed.error.issues.map(issue => ({
+      field: issue.path.join('.') || 'arguments',
+      message: issue.message
+    })));
+  }
+  return parsed.data;
+}
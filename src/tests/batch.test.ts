@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildBatchItems, mergeBatchResults, runBatch } from '../lib/batch.js';
+import { ScraperJobFailedError } from '../lib/errors.js';
+import { ScraperAPI } from '../lib/scraper-api.js';
+
+describe('batch scraping', () => {
+  describe('buildBatchItems', () => {
+    it('should combine urls with the shared instruction', () => {
+      expect(buildBatchItems(undefined, ['https://a.com', 'https://b.com'], 'Extract prices')).toEqual([
+        { index: 0, url: 'https://a.com', prompt: 'Extract prices from https://a.com' },
+        { index: 1, url: 'https://b.com', prompt: 'Extract prices from https://b.com' }
+      ]);
+    });
+
+    it('should require an instruction for url lists', () => {
+      expect(() => buildBatchItems(undefined, ['https://a.com'])).toThrow('instruction');
+    });
+
+    it('should reject empty batches', () => {
+      expect(() => buildBatchItems([], [])).toThrow();
+    });
+  });
+
+  describe('runBatch', () => {
+    it('should report failures per item and respect the concurrency limit', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const scrape = vi.fn(async (prompt: string) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setImmediate(resolve));
+        inFlight--;
+        if (prompt.includes('bad')) {
+          throw new ScraperJobFailedError('Scraper error: page not reachable', 'job-bad');
+        }
+        return { data: [{ name: prompt }] };
+      });
+      const api = { scrape } as unknown as ScraperAPI;
+      const onItemDone = vi.fn(async () => {});
+
+      const results = await runBatch(
+        api,
+        buildBatchItems(['good 1', 'bad', 'good 2', 'good 3']),
+        'json',
+        2,
+        undefined,
+        onItemDone
+      );
+
+      expect(maxInFlight).toBe(2);
+      expect(results.map(item => item.status)).toEqual(['success', 'error', 'success', 'success']);
+      expect(results[1].error).toEqual({ code: 'job_failed', message: 'Scraper error: page not reachable', retryable: false });
+      expect(onItemDone).toHaveBeenCalledTimes(4);
+      expect(onItemDone).toHaveBeenLastCalledWith(4, expect.anything());
+    });
+  });
+
+  describe('mergeBatchResults', () => {
+    it('should merge records into CSV tagged with their source', () => {
+      const csv = mergeBatchResults([
+        { index: 0, prompt: 'p0', url: 'https://a.com', status: 'success', result: { data: { products: [{ name: 'A', price: { amount: 1 } }] } } },
+        { index: 1, prompt: 'p1', url: 'https://b.com', status: 'error', error: { code: 'timeout', message: 'x', retryable: false } },
+        { index: 2, prompt: 'p2', url: 'https://c.com', status: 'success', result: { data: [{ name: 'C, Inc.', price: { amount: 2 } }] } }
+      ], 'csv');
+
+      expect(csv).toBe('_source,name,price.amount\nhttps://a.com,A,1\nhttps://c.com,"C, Inc.",2\n');
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ChunkStore, CHUNK_URI_PREFIX } from '../lib/chunk-store.js';
+
+describe('ChunkStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve chunks by their resource URIs', () => {
+    const store = new ChunkStore();
+
+    const document = store.add(['# One', '# Two'], 'https://example.com');
+
+    expect(ChunkStore.uri(document.id, 2)).toBe(`${CHUNK_URI_PREFIX}${document.id}/2`);
+    expect(store.resolve(ChunkStore.uri(document.id, 2))).toEqual({ document, chunk: 2 });
+    expect(store.resolve(ChunkStore.uri(document.id, 3))).toBeUndefined();
+    expect(store.resolve('scraperis_screenshot://abc')).toBeUndefined();
+  });
+
+  it('should expire documents and evict the least recently used beyond the size limit', () => {
+    vi.useFakeTimers();
+    const store = new ChunkStore(10, 60_000);
+
+    const first = store.add(['12345']);
+    vi.advanceTimersByTime(10);
+    const second = store.add(['12345']);
+    vi.advanceTimersByTime(10);
+    store.get(first.id);
+    vi.advanceTimersByTime(10);
+    const third = store.add(['12345']);
+
+    expect(store.get(second.id)).toBeUndefined();
+    expect(store.list().map(document => document.id)).toEqual([third.id, first.id]);
+
+    vi.advanceTimersByTime(60_001);
+    expect(store.list()).toEqual([]);
+  });
+});
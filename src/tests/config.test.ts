@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ConfigError, loadConfig, readPackageVersion, redactConfig } from '../lib/config.js';
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'scraperis-config-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should let flags override env vars and env vars override the config file', async () => {
+    const path = join(dir, 'config.yaml');
+    await writeFile(path, ['pollInterval: 2000', 'timeout: 60000', 'logLevel: debug', 'defaultFormat: json'].join('\n'));
+
+    const { config, configPath } = await loadConfig(
+      ['--config', path, '--poll-interval', '1000', '--enable-tools', 'scrape, screenshot'],
+      { SCRAPERIS_POLL_INTERVAL: '1500', SCRAPERIS_TIMEOUT: '30000', SCRAPERIS_API_KEY: 'secret-key-1234' }
+    );
+
+    expect(configPath).toBe(path);
+    expect(config).toMatchObject({
+      pollInterval: 1000,
+      timeout: 30000,
+      logLevel: 'debug',
+      defaultFormat: 'json',
+      enableTools: ['scrape', 'screenshot'],
+      apiKey: 'secret-key-1234',
+      apiBase: 'https://scraper.is/api',
+      transport: 'stdio'
+    });
+    expect(redactConfig(config)).toMatchObject({ apiKey: '***1234' });
+  });
+
+  it('should report every invalid setting', async () => {
+    const path = join(dir, 'config.json');
+    await writeFile(path, JSON.stringify({ transport: 'carrier-pigeon', pollIntervall: 5 }));
+
+    const error = await loadConfig(['--config', path, '--enable-tools', 'scrape,teleport'], {}).catch(e => e);
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error.message).toContain('transport');
+    expect(error.message).toContain('enableTools.1');
+    expect(error.message).toContain("Unrecognized key(s) in object: 'pollIntervall'");
+  });
+
+  it('should read the URL policy from lists and switches', async () => {
+    const path = join(dir, 'config.json');
+    await writeFile(path, JSON.stringify({ blockedDomains: ['*.internal.example'], allowPrivateNetworks: true }));
+
+    const { config } = await loadConfig(
+      ['--config', path, '--allowed-domains', '*.example.com, example.org'],
+      { SCRAPERIS_ALLOW_PRIVATE_NETWORKS: 'false' }
+    );
+    expect(config).toMatchObject({
+      allowedDomains: ['*.example.com', 'example.org'],
+      blockedDomains: ['*.internal.example'],
+      allowedSchemes: ['http', 'https'],
+      allowPrivateNetworks: false
+    });
+
+    await expect(loadConfig(['--allow-private-networks', 'yes'], {})).rejects.toThrow('allowPrivateNetworks');
+    await expect(loadConfig(['--allowed-schemes', 'https,file:'], {})).rejects.toThrow('allowedSchemes.1');
+  });
+
+  it('should reject unknown flags and missing explicit config files', async () => {
+    await expect(loadConfig(['--api-key', 'x'], {})).rejects.toBeInstanceOf(ConfigError);
+    await expect(loadConfig([], { SCRAPERIS_CONFIG: join(dir, 'missing.json') })).rejects.toThrow('Cannot read config file');
+  });
+
+  it('should read the version from package.json', async () => {
+    const pkg = JSON.parse(await readFile(new URL('../../package.json', import.meta.url), 'utf8'));
+
+    expect(await readPackageVersion()).toBe(pkg.version);
+  });
+});
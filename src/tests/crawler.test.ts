@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { extractLinks, matchesPattern, normalizeUrl, runCrawl } from '../lib/crawler.js';
+import { ScraperJobFailedError } from '../lib/errors.js';
+import { ScraperAPI } from '../lib/scraper-api.js';
+import { CrawlOptions } from '../types/index.js';
+
+/**
+ * Builds crawl options with the tool's defaults
+ * @param overrides The options to change
+ * @returns The crawl options
+ */
+function crawlOptions(overrides: Partial<CrawlOptions> = {}): CrawlOptions {
+  return {
+    url: 'https://shop.example.com/',
+    format: 'json',
+    maxDepth: 1,
+    maxPages: 10,
+    sameDomain: true,
+    concurrency: 2,
+    ...overrides
+  };
+}
+
+/**
+ * Creates an API whose scrapes answer from a map of page URL to extracted object
+ * @param site The extracted object of each page
+ * @returns The API and its scrape mock
+ */
+function fakeSite(site: Record<string, Record<string, unknown>>) {
+  const scrape = vi.fn(async (prompt: string) => {
+    const url = prompt.slice(prompt.lastIndexOf(' from ') + 6);
+    if (!site[url]) {
+      throw new ScraperJobFailedError('Scraper error: page not reachable', 'job-missing');
+    }
+    return { data: site[url] };
+  });
+  return { api: { scrape } as unknown as ScraperAPI, scrape };
+}
+
+describe('crawler', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    global.fetch = vi.fn(async () => ({
+      ok: true,
+      status: 200,
+      text: async () => 'User-agent: *\nDisallow: /private/'
+    })) as unknown as typeof fetch;
+  });
+
+  describe('link helpers', () => {
+    it('should normalize URLs and drop fragments and non-http links', () => {
+      expect(normalizeUrl('/b?page=2#top', 'https://example.com/a')).toBe('https://example.com/b?page=2');
+      expect(normalizeUrl('mailto:sales@example.com')).toBeUndefined();
+    });
+
+    it('should find inline links, autolinks and bare URLs in markdown', () => {
+      expect(extractLinks('See [docs](/docs "Docs"), <https://a.com/x> and https://b.com/y.')).toEqual([
+        '/docs',
+        'https://a.com/x',
+        'https://b.com/y'
+      ]);
+    });
+
+    it('should match path and full URL glob patterns', () => {
+      expect(matchesPattern('https://example.com/blog/post-1?ref=home', '/blog/*')).toBe(true);
+      expect(matchesPattern('https://example.com/about', '/blog/*')).toBe(false);
+      expect(matchesPattern('https://example.com/docs/api', 'https://example.com/docs/*')).toBe(true);
+    });
+  });
+
+  describe('runCrawl', () => {
+    it('should follow matching links up to the depth, dedupe URLs and respect robots.txt', async () => {
+      const { api, scrape } = fakeSite({
+        'https://shop.example.com/': {
+          records: [{ name: 'Home' }],
+          links: ['/products/1', '/products/1#reviews', '/products/2', '/private/admin', '/about', 'https://other.com/products/3']
+        },
+        'https://shop.example.com/products/1': { records: [{ name: 'Lamp' }], links: ['/products/4'] },
+        'https://shop.example.com/products/2': { records: [{ name: 'Desk' }], links: [] }
+      });
+
+      const result = await runCrawl(api, crawlOptions({ include: ['/products/*', '/private/*'] }));
+
+      expect(result.pages.map(page => [page.url, page.depth, page.status])).toEqual([
+        ['https://shop.example.com/', 0, 'success'],
+        ['https://shop.example.com/products/1', 1, 'success'],
+        ['https://shop.example.com/products/2', 1, 'success']
+      ]);
+      expect(result.blocked).toEqual(['https://shop.example.com/private/admin']);
+      expect(result.unvisited).toEqual([]);
+      expect(scrape).toHaveBeenCalledWith(
+        'Extract the main items listed on the page as records from https://shop.example.com/',
+        'json',
+        undefined,
+        expect.objectContaining({ priority: -1, schema: expect.objectContaining({ required: ['records', 'links'] }) })
+      );
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(result.pages[1].result?.data).toEqual([{ name: 'Lamp' }]);
+    });
+
+    it('should follow next pages without using up depth and stop at the page limit', async () => {
+      const { api } = fakeSite({
+        'https://shop.example.com/': { content: '# Page 1 [more](/?page=2)', links: [], next_page: '/?page=2' },
+        'https://shop.example.com/?page=2': { content: '# Page 2', links: [], next_page: '/?page=3' },
+        'https://shop.example.com/?page=3': { content: '# Page 3', links: [], next_page: '/?page=4' }
+      });
+      const onPageDone = vi.fn(async () => {});
+
+      const result = await runCrawl(
+        api,
+        crawlOptions({ format: 'markdown', maxDepth: 0, maxPages: 3, nextPage: 'the Next button' }),
+        undefined,
+        onPageDone
+      );
+
+      expect(result.pages.map(page => page.result?.markdown)).toEqual(['# Page 1 [more](/?page=2)', '# Page 2', '# Page 3']);
+      expect(result.pages.every(page => page.depth === 0)).toBe(true);
+      expect(result.unvisited).toEqual(['https://shop.example.com/?page=4']);
+      expect(onPageDone).toHaveBeenCalledTimes(3);
+    });
+
+    it('should report failed pages without failing the crawl', async () => {
+      const { api } = fakeSite({
+        'https://shop.example.com/': { records: [], links: ['/missing'] }
+      });
+
+      const result = await runCrawl(api, crawlOptions());
+
+      expect(result.pages.map(page => page.status)).toEqual(['success', 'error']);
+      expect(result.pages[1].error).toMatchObject({ code: 'job_failed' });
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CredentialResolver } from '../lib/credentials.js';
+import { ScraperCredentialsError } from '../lib/errors.js';
+import { ScraperMCPServer } from '../server/index.js';
+import { redactSecrets } from '../utils/index.js';
+
+describe('CredentialResolver', () => {
+  const keyFile = { default: 'team-a', profiles: { 'team-a': 'key-team-a-0001', 'team-b': 'key-team-b-0002' } };
+
+  it('should prefer an explicit profile, then client keys, then defaults', () => {
+    const resolver = new CredentialResolver('key-default-0000', keyFile);
+
+    expect(resolver.resolve({ profile: 'team-b', headerKey: 'key-header-0003' }))
+      .toEqual({ apiKey: 'key-team-b-0002', source: 'profile:team-b' });
+    expect(resolver.resolve({ metaKey: 'key-meta-00004', headerKey: 'key-header-0003' }))
+      .toEqual({ apiKey: 'key-meta-00004', source: 'meta' });
+    expect(resolver.resolve({ headerProfile: 'team-b' }))
+      .toEqual({ apiKey: 'key-team-b-0002', source: 'profile:team-b' });
+    expect(resolver.resolve()).toEqual({ apiKey: 'key-team-a-0001', source: 'profile:team-a' });
+    expect(new CredentialResolver('key-default-0000').resolve())
+      .toEqual({ apiKey: 'key-default-0000', source: 'default' });
+  });
+
+  it('should reject unknown profiles and requests without any key', () => {
+    const resolver = new CredentialResolver(undefined, keyFile);
+
+    expect(() => resolver.resolve({ profile: 'team-c' })).toThrow('available: team-a, team-b');
+    expect(() => new CredentialResolver().resolve()).toThrow(ScraperCredentialsError);
+  });
+
+  it('should redact every known key from log output', () => {
+    const resolver = new CredentialResolver('key-default-0000', keyFile);
+    resolver.resolve({ headerKey: 'key-header-0003' });
+
+    expect(redactSecrets('sent key-team-b-0002 and key-header-0003'))
+      .toBe('sent ***0002 and ***0003');
+  });
+
+  it('should only keep the most recently sent request keys', () => {
+    const resolver = new CredentialResolver('key-default-0000', keyFile);
+    for (let i = 0; i < 100; i++) {
+      resolver.resolve({ metaKey: `key-meta-${String(i).padStart(4, '0')}` });
+    }
+
+    expect(redactSecrets('key-meta-0099 key-meta-0036 key-meta-0035 key-team-a-0001'))
+      .toBe('***0099 ***0036 key-meta-0035 ***0001');
+  });
+
+  describe('fromFile', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'scraperis-keys-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should load profiles and treat a missing file as empty', async () => {
+      const path = join(dir, 'keys.json');
+      await writeFile(path, JSON.stringify(keyFile));
+
+      expect((await CredentialResolver.fromFile(path)).profiles).toEqual(['team-a', 'team-b']);
+      expect((await CredentialResolver.fromFile(join(dir, 'missing.json'))).profiles).toEqual([]);
+    });
+
+    it('should reject a default that is not a profile', async () => {
+      const path = join(dir, 'keys.json');
+      await writeFile(path, JSON.stringify({ default: 'nope', profiles: {} }));
+
+      await expect(CredentialResolver.fromFile(path)).rejects.toThrow('default');
+    });
+  });
+
+  it('should answer tool calls without credentials with a tool error', async () => {
+    const server = new ScraperMCPServer(undefined);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const result = await client.callTool({ name: 'scrape', arguments: { prompt: 'Scrape example.com', format: 'markdown' } });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as Array<{ text: string }>)[0].text).toContain('Error [missing_credentials]');
+    await client.close();
+  });
+});
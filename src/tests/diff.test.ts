@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { diffFields, diffText } from '../lib/diff.js';
+
+describe('diff', () => {
+  it('should report changed lines as unified diff hunks with context', () => {
+    const before = ['# Pricing', '', 'Basic: $10', 'Pro: $20', '', 'a', 'b', 'c', 'd', 'e', 'Contact us'].join('\n');
+    const after = ['# Pricing', '', 'Basic: $12', 'Pro: $20', '', 'a', 'b', 'c', 'd', 'e', 'Contact sales', 'Call now'].join('\n');
+
+    const result = diffText(before, after, 1);
+
+    expect(result.added).toBe(3);
+    expect(result.removed).toBe(2);
+    expect(result.diff).toBe([
+      '@@ -2,3 +2,3 @@',
+      ' ',
+      '-Basic: $10',
+      '+Basic: $12',
+      ' Pro: $20',
+      '@@ -10,2 +10,3 @@',
+      ' e',
+      '-Contact us',
+      '+Contact sales',
+      '+Call now'
+    ].join('\n'));
+  });
+
+  it('should report no diff for identical texts', () => {
+    expect(diffText('a\nb', 'a\nb')).toEqual({ added: 0, removed: 0, diff: '' });
+  });
+
+  it('should report added, removed and changed fields by path', () => {
+    const before = { plans: [{ name: 'Basic', price: 10 }, { name: 'Pro', price: 20 }], trial: true };
+    const after = { plans: [{ name: 'Basic', price: 12 }], currency: 'USD', trial: true };
+
+    expect(diffFields(before, after)).toEqual([
+      { path: '/plans/0/price', type: 'changed', before: 10, after: 12 },
+      { path: '/plans/1', type: 'removed', before: { name: 'Pro', price: 20 } },
+      { path: '/currency', type: 'added', after: 'USD' }
+    ]);
+    expect(diffFields([1], { items: [1] })).toEqual([{ path: '/', type: 'changed', before: [1], after: { items: [1] } }]);
+  });
+});
@@ -0,0 +1,361 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LoggingMessageNotificationSchema, ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { McpTestHarness, resultText } from './harness.js';
+import { ScrapeHistory } from '../lib/history.js';
+import { ResultCache } from '../lib/result-cache.js';
+import { ResultExporter } from '../lib/exporter.js';
+import { UrlPolicy } from '../lib/url-policy.js';
+import { UsageLedger } from '../lib/usage-ledger.js';
+import { META_API_KEY } from '../server/index.js';
+import { keyOwner } from '../lib/credentials.js';
+import { MOCK_API_KEY } from '../lib/mock-backend.js';
+import { PageWatcher } from '../lib/watcher.js';
+import { WatchStore } from '../lib/watch-store.js';
+import { ScraperAPI } from '../lib/scraper-api.js';
+
+describe('ScraperMCPServer end to end', () => {
+  let harness: McpTestHarness;
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('should scrape through the protocol and report the job stages as progress', async () => {
+    harness = await McpTestHarness.start({ backend: { jobDuration: 300 } });
+    expect(await harness.toolNames()).toEqual(expect.arrayContaining(['scrape', 'start_scrape', 'get_scrape_result']));
+
+    const { result, progress } = await harness.callTool('scrape', {
+      prompt: 'Get the items from https://shop.example.com/lamps',
+      format: 'markdown'
+    });
+
+    expect(result.isError).toBe(false);
+    expect(resultText(result)).toContain('- [Item 1](https://shop.example.com/items/1): $10.99');
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress.map(update => update.progress)).toEqual([...progress.map(update => update.progress)].sort((a, b) => a - b));
+    expect(progress.some(update => /Loading the page|Extracting the requested data/.test(update.message ?? ''))).toBe(true);
+    expect(progress[progress.length - 1].progress).toBe(100);
+
+    const polls = harness.backend.requests.filter(request => request.path === '/get_data');
+    expect(polls.length).toBeGreaterThan(1);
+    expect(polls.every(request => request.format === 'quick')).toBe(true);
+  });
+
+  it('should return structured data in the json, csv and xml formats', async () => {
+    harness = await McpTestHarness.start();
+    const schema = {
+      type: 'object',
+      properties: {
+        products: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { name: { type: 'string' }, price: { type: 'number' }, in_stock: { type: 'boolean' } },
+            required: ['name', 'price']
+          }
+        }
+      },
+      required: ['products']
+    };
+
+    const json = await harness.callTool('scrape', { prompt: 'Get products from https://shop.example.com', schema });
+    expect(json.result.structuredContent).toEqual({
+      products: [
+        { name: 'Name 1', price: 10.99, in_stock: true },
+        { name: 'Name 2', price: 20.99, in_stock: false },
+        { name: 'Name 3', price: 30.99, in_stock: true }
+      ]
+    });
+
+    harness.backend.setPage('https://shop.example.com/desks', { data: [{ name: 'Oak desk', price: 250 }] });
+    const csv = await harness.callTool('scrape', { prompt: 'Get desks from https://shop.example.com/desks', format: 'csv' });
+    expect(resultText(csv.result)).toContain('name,price\nOak desk,250');
+    const xml = await harness.callTool('scrape', { prompt: 'Get desks from https://shop.example.com/desks', format: 'xml' });
+    expect(resultText(xml.result)).toContain('<item><name>Oak desk</name><price>250</price></item>');
+  });
+
+  it('should run background jobs and keep their results as resources', async () => {
+    harness = await McpTestHarness.start({ server: { history: new ScrapeHistory() } });
+
+    const started = await harness.callTool('start_scrape', { prompt: 'Get https://news.example.com', format: 'markdown' });
+    const chatId = resultText(started.result).match(/"chat_id": "([^"]+)"/)?.[1] as string;
+    expect(chatId).toBeTruthy();
+
+    const { result } = await harness.callTool('get_scrape_result', { chat_id: chatId, wait: true });
+    expect(resultText(result)).toContain('# news.example.com');
+
+    const resource = await harness.readResource(ScrapeHistory.uri(chatId));
+    expect(resource.contents[0]).toMatchObject({ mimeType: 'text/markdown' });
+    expect(resource.contents[0].text).toContain('Mock content for: Get https://news.example.com');
+  });
+
+  it('should only show the scrape history of the caller\'s API key', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'scraperis-e2e-export-'));
+    const history = new ScrapeHistory();
+    harness = await McpTestHarness.start({ server: { history } });
+    // Another session of the same process, using another key
+    const other = await McpTestHarness.start({ server: { history, exporter: new ResultExporter(dir) }, apiKey: 'tenant-key' });
+    try {
+      const started = await harness.callTool('start_scrape', { prompt: 'Get https://news.example.com/secret', format: 'markdown' });
+      const chatId = resultText(started.result).match(/"chat_id": "([^"]+)"/)?.[1] as string;
+      await harness.callTool('get_scrape_result', { chat_id: chatId, wait: true });
+      const uri = ScrapeHistory.uri(chatId);
+
+      const { resources } = await other.client.listResources();
+      expect(resources.map(resource => resource.uri)).not.toContain(uri);
+      await expect(other.readResource(uri)).rejects.toThrow('not found');
+      const search = await other.callTool('search_history', { query: 'secret' });
+      expect(resultText(search.result)).toBe('No earlier results match.');
+      const read = await other.callTool('get_scrape_result', { chat_id: chatId });
+      expect(read.result.isError).toBe(true);
+      expect(resultText(read.result)).not.toContain('Mock content');
+      const exported = await other.callTool('export', { chat_id: chatId, format: 'markdown' });
+      expect(resultText(exported.result)).toContain('No stored result');
+
+      expect(resultText((await harness.callTool('search_history', { query: 'secret' })).result)).toContain(chatId);
+      expect((await harness.readResource(uri)).contents[0].text).toContain('Mock content');
+    } finally {
+      await other.close();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep a result returned with the submission of a background job', async () => {
+    harness = await McpTestHarness.start();
+    harness.backend.setPage('https://news.example.com/today', { markdown: '# Today\n\nNothing happened.', immediate: true });
+
+    const started = await harness.callTool('start_scrape', { prompt: 'Get https://news.example.com/today', format: 'markdown' });
+    expect(resultText(started.result)).toContain('The result is already available');
+    const chatId = resultText(started.result).match(/"chat_id": "([^"]+)"/)?.[1] as string;
+
+    const { result } = await harness.callTool('get_scrape_result', { chat_id: chatId });
+    expect(resultText(result)).toContain('Nothing happened.');
+    expect(harness.backend.requests.map(request => request.path)).toEqual(['/extract_prompt']);
+  });
+
+  it('should keep the image of a screenshot in the history', async () => {
+    const history = new ScrapeHistory();
+    harness = await McpTestHarness.start({ server: { history } });
+
+    await harness.callTool('screenshot', { url: 'https://shop.example.com' });
+    const [entry] = history.list(keyOwner(MOCK_API_KEY));
+    expect((await history.get(keyOwner(MOCK_API_KEY), entry.chatId))?.screenshot).toMatchObject({ data: expect.any(String) });
+    const downloads = harness.backend.requests.filter(request => request.path.startsWith('/files/')).length;
+    expect(downloads).toBe(1);
+
+    // Reading it again does not depend on the signed URL
+    const { result } = await harness.callTool('get_scrape_result', { chat_id: entry.chatId });
+    const uri = resultText(result).match(/scraperis_screenshot:\/\/\S+/)?.[0] as string;
+    expect((await harness.readResource(uri)).contents[0]).toMatchObject({ mimeType: 'image/png' });
+    expect(harness.backend.requests.filter(request => request.path.startsWith('/files/'))).toHaveLength(downloads);
+  });
+
+  it('should keep the image of screenshot-format scrapes and background jobs in the history', async () => {
+    const history = new ScrapeHistory();
+    harness = await McpTestHarness.start({ server: { history } });
+    const owner = keyOwner(MOCK_API_KEY);
+    const downloads = () => harness.backend.requests.filter(request => request.path.startsWith('/files/')).length;
+
+    const scraped = await harness.callTool('scrape', { prompt: 'Get https://shop.example.com/lamps', format: 'screenshot' });
+    expect(scraped.result.isError).toBe(false);
+    const started = await harness.callTool('start_scrape', { prompt: 'Get https://shop.example.com/desks', format: 'screenshot' });
+    const chatId = resultText(started.result).match(/"chat_id": "([^"]+)"/)?.[1] as string;
+    await harness.callTool('get_scrape_result', { chat_id: chatId, wait: true });
+
+    const entries = history.list(owner);
+    expect(entries.map(entry => entry.prompt)).toEqual(['Get https://shop.example.com/desks', 'Get https://shop.example.com/lamps']);
+    for (const entry of entries) {
+      expect((await history.get(owner, entry.chatId))?.screenshot).toMatchObject({ data: expect.any(String) });
+    }
+    expect(downloads()).toBe(2);
+
+    // A new session reads them from the history without the signed URLs
+    const other = await McpTestHarness.start({ server: { history } });
+    try {
+      for (const entry of entries) {
+        const { result } = await other.callTool('get_scrape_result', { chat_id: entry.chatId });
+        const uri = resultText(result).match(/scraperis_screenshot:\/\/\S+/)?.[0] as string;
+        expect((await other.readResource(uri)).contents[0]).toMatchObject({ mimeType: 'image/png' });
+      }
+      expect(other.backend.requests).toEqual([]);
+    } finally {
+      await other.close();
+    }
+  });
+
+  it('should take screenshots and serve them as resources', async () => {
+    harness = await McpTestHarness.start();
+
+    const { result } = await harness.callTool('screenshot', { url: 'https://shop.example.com' });
+    const image = result.content.find(block => block.type === 'image');
+    expect(image).toMatchObject({ mimeType: 'image/png' });
+
+    const { resources } = await harness.client.listResources();
+    const screenshot = resources.find(resource => resource.uri.startsWith('scraperis_screenshot://'));
+    expect(screenshot).toBeDefined();
+    const read = await harness.readResource(screenshot?.uri as string);
+    expect(read.contents[0]).toMatchObject({ mimeType: 'image/png' });
+  });
+
+  it('should report failed jobs, rejected keys and retried rate limits as tool errors', async () => {
+    harness = await McpTestHarness.start({ backend: { apiKey: 'the-right-key' }, apiKey: 'the-right-key' });
+
+    const failed = await harness.callTool('scrape', { prompt: 'Get https://shop.example.com [fail]' });
+    expect(failed.result.isError).toBe(true);
+    expect(resultText(failed.result)).toContain('Error [job_failed]');
+
+    harness.backend.failNext('/extract_prompt', 429, { retryAfter: 0 });
+    const retried = await harness.callTool('scrape', { prompt: 'Get https://shop.example.com/retry' });
+    expect(retried.result.isError).toBe(false);
+    expect(harness.backend.requests.filter(request => request.path === '/extract_prompt')).toHaveLength(3);
+
+    await harness.close();
+    harness = await McpTestHarness.start({ backend: { apiKey: 'the-right-key' }, apiKey: 'a-wrong-key' });
+    const rejected = await harness.callTool('scrape', { prompt: 'Get https://shop.example.com' });
+    expect(resultText(rejected.result)).toContain('Error [auth_failed]');
+  });
+
+  it('should only list and purge the cached results of the caller\'s API key', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'scraperis-e2e-cache-'));
+    try {
+      harness = await McpTestHarness.start({ server: { cache: new ResultCache(dir, 60000) } });
+      const tenant = { [META_API_KEY]: 'tenant-key' };
+
+      await harness.callTool('scrape', { prompt: 'Get https://shop.example.com', format: 'markdown' });
+      await harness.callTool('scrape', { prompt: 'Get https://news.example.com', format: 'markdown' }, tenant);
+
+      const listed = await harness.callTool('manage_cache', { action: 'list' }, tenant);
+      expect(resultText(listed.result)).toContain('news.example.com');
+      expect(resultText(listed.result)).not.toContain('shop.example.com');
+
+      const purged = await harness.callTool('manage_cache', { action: 'purge' }, tenant);
+      expect(resultText(purged.result)).toBe('Purged 1 cache entry.');
+      expect(resultText((await harness.callTool('manage_cache', { action: 'list' })).result)).toContain('shop.example.com');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep watched pages to the API key they were created with', async () => {
+    harness = await McpTestHarness.start();
+    const tenant = { [META_API_KEY]: 'tenant-key' };
+
+    const watched = await harness.callTool('watch_page', { prompt: 'Get https://shop.example.com/lamps' });
+    const watchId = resultText(watched.result).match(/"watch_id": "([^"]+)"/)?.[1] as string;
+    expect(watchId).toBeTruthy();
+
+    // Checks outlive the request, so they cannot be billed to a key sent with it
+    const rejected = await harness.callTool('watch_page', { prompt: 'Get https://news.example.com' }, tenant);
+    expect(resultText(rejected.result)).toContain('Error [missing_credentials]');
+
+    expect(resultText((await harness.callTool('list_watches', {}, tenant)).result)).toContain('No pages are watched');
+    expect(resultText((await harness.callTool('get_changes', { watch_id: watchId }, tenant)).result)).toContain('Unknown watch');
+    expect(resultText((await harness.callTool('unwatch', { watch_id: watchId }, tenant)).result)).toContain('Unknown watch');
+    const { resources } = await harness.client.listResources({ _meta: tenant });
+    expect(resources.some(resource => resource.uri.startsWith('scraperis_watch://'))).toBe(false);
+    await expect(harness.client.readResource({ uri: `scraperis_watch://${watchId}`, _meta: tenant })).rejects.toThrow('not found');
+
+    expect(resultText((await harness.callTool('list_watches')).result)).toContain(watchId);
+    expect(resultText((await harness.callTool('unwatch', { watch_id: watchId })).result)).toContain('Stopped watching');
+  });
+
+  it('should only tell clients of a watch\'s own key about its changes', async () => {
+    // The watcher scrapes through the first session's backend, which only listens once that session starts
+    const apis: ScraperAPI[] = [];
+    const watcher = new PageWatcher(new WatchStore(), () => apis[0]);
+    harness = await McpTestHarness.start({ server: { watcher } });
+    apis.push(new ScraperAPI(MOCK_API_KEY, harness.backend.url, 10));
+    // Another session of the same process, using another key
+    const other = await McpTestHarness.start({ server: { watcher }, apiKey: 'tenant-key' });
+    const notified = (session: McpTestHarness) => {
+      const messages: string[] = [];
+      session.client.setNotificationHandler(ResourceUpdatedNotificationSchema, async notification => {
+        messages.push(`updated ${notification.params.uri}`);
+      });
+      session.client.setNotificationHandler(LoggingMessageNotificationSchema, async notification => {
+        messages.push(String((notification.params.data as { message?: string }).message));
+      });
+      return messages;
+    };
+    const ours = notified(harness);
+    const theirs = notified(other);
+    try {
+      const watched = await harness.callTool('watch_page', { prompt: 'Get https://shop.example.com/lamps' });
+      const watchId = resultText(watched.result).match(/"watch_id": "([^"]+)"/)?.[1] as string;
+      const uri = WatchStore.uri(watchId);
+      await expect(other.client.subscribeResource({ uri })).rejects.toThrow('Resource not found');
+      await harness.client.subscribeResource({ uri });
+
+      harness.backend.setPage('https://shop.example.com/lamps', { markdown: '# Lamps\n\nSold out.' });
+      await harness.callTool('get_changes', { watch_id: watchId, check_now: true });
+
+      await vi.waitFor(() => expect(ours).toContain(`updated ${uri}`));
+      expect(ours.some(message => message.startsWith('Watched page changed'))).toBe(true);
+      expect(theirs.filter(message => message.includes('Watched page changed') || message.includes(uri))).toEqual([]);
+      // The process logs changes once, where the shared watcher is created
+      expect([...harness.logs, ...other.logs].some(line => line.includes('Watched page changed'))).toBe(false);
+    } finally {
+      watcher.stop();
+      await other.close();
+    }
+  });
+
+  it('should not let concurrent batch pages overshoot the session budget', async () => {
+    const ledger = new UsageLedger();
+    harness = await McpTestHarness.start({ server: { ledger, sessionBudget: 1 } });
+
+    const { result } = await harness.callTool('scrape_batch', {
+      urls: ['https://shop.example.com/a', 'https://shop.example.com/b', 'https://shop.example.com/c'],
+      instruction: 'Get the items',
+      concurrency: 3
+    });
+
+    expect(resultText(result).match(/budget_exceeded/g)).toHaveLength(2);
+    expect(harness.backend.requests.filter(request => request.path === '/extract_prompt')).toHaveLength(1);
+    expect(ledger.totals().credits).toBe(1);
+  });
+
+  it('should only report the usage of the caller\'s own key', async () => {
+    const ledger = new UsageLedger(undefined, 10);
+    harness = await McpTestHarness.start({ server: { ledger } });
+    const other = await McpTestHarness.start({ server: { ledger }, apiKey: 'tenant-key' });
+    try {
+      await harness.callTool('scrape', { prompt: 'Get https://shop.example.com', format: 'markdown' });
+      await harness.callTool('screenshot', { url: 'https://shop.example.com' });
+      await other.callTool('scrape', { prompt: 'Get https://news.example.com', format: 'markdown' });
+
+      for (const period of ['today', 'all']) {
+        const { result } = await other.callTool('get_usage', { period });
+        const report = JSON.parse(resultText(result).replace(/^Usage:\n```json\n|\n```$/g, ''));
+        expect(report.totals).toMatchObject({ calls: 1, credits: 1 });
+        expect(report.recent.map((call: { operation: string }) => call.operation)).toEqual(['scrape']);
+        expect(report.budgets.daily).toEqual({ limit: 10, used: 1, shared: true });
+      }
+      // The budget itself still counts every key
+      expect(ledger.totals().credits).toBe(3);
+    } finally {
+      await other.close();
+    }
+  });
+
+  it('should refuse URLs outside the URL policy before anything is requested', async () => {
+    const urlPolicy = new UrlPolicy({ blockedDomains: ['*.internal.example'], resolve: async () => ['93.184.216.34'] });
+    harness = await McpTestHarness.start({ server: { urlPolicy } });
+
+    const blocked = await harness.callTool('scrape', { prompt: 'Get the wiki from https://wiki.internal.example/home' });
+    expect(blocked.result.isError).toBe(true);
+    expect(resultText(blocked.result)).toContain('Error [url_blocked]');
+    expect(resultText(blocked.result)).toContain('"reason": "domain"');
+
+    const crawl = await harness.callTool('crawl', { url: 'http://169.254.169.254/latest/meta-data/' });
+    expect(resultText(crawl.result)).toContain('Error [url_blocked]');
+    expect(harness.backend.requests).toEqual([]);
+
+    // Screenshots are still downloaded from the API itself
+    const { result } = await harness.callTool('screenshot', { url: 'https://shop.example.com' });
+    expect(result.content.find(block => block.type === 'image')).toMatchObject({ mimeType: 'image/png' });
+  });
+});
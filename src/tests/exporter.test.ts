@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readFile, readdir, rm, symlink, writeFile } from 'node:fs/promises';
+import { inflateRawSync } from 'node:zlib';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ResultExporter } from '../lib/exporter.js';
+import { ExportPathError } from '../lib/errors.js';
+
+const products = {
+  products: [
+    { name: 'Lamp', price: { amount: 30, currency: 'USD' }, tags: ['home', 'light'], in_stock: true },
+    { name: 'Desk, oak', price: { amount: 250.5, currency: 'USD' }, in_stock: false, note: 'Ships in\n2 weeks' }
+  ]
+};
+
+/**
+ * Reads the files of a zip archive from its local headers
+ * @param archive The archive
+ * @returns The uncompressed files by name
+ */
+function unzip(archive: Buffer): Map<string, string> {
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const size = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.toString('utf8', offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength;
+    files.set(name, inflateRawSync(archive.subarray(start, start + size)).toString('utf8'));
+    offset = start + size;
+  }
+  return files;
+}
+
+describe('ResultExporter', () => {
+  let dir: string;
+  let root: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'scraperis-export-'));
+    root = join(dir, 'exports');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should flatten nested data into the same columns in CSV, markdown and JSONL', async () => {
+    const exporter = new ResultExporter(root);
+
+    const csv = await exporter.export({ data: products }, { format: 'csv', path: 'shop/products', overwrite: false });
+    expect(csv).toMatchObject({ path: join(root, 'shop', 'products.csv'), format: 'csv', rows: 2 });
+    expect(await readFile(csv.path, 'utf8')).toBe(
+      'name,price.amount,price.currency,tags,in_stock,note\n' +
+      'Lamp,30,USD,home; light,true,\n' +
+      '"Desk, oak",250.5,USD,,false,"Ships in\n2 weeks"\n'
+    );
+    expect(csv.preview).toContain('| name | price.amount | price.currency | tags | in_stock | note |');
+    expect(csv.preview).toContain('| Desk, oak | 250.5 | USD |  | false | Ships in<br>2 weeks |');
+
+    const markdown = await exporter.export({ data: products }, { format: 'markdown', path: 'shop/products.md', overwrite: false });
+    expect(await readFile(markdown.path, 'utf8')).toContain('| Lamp | 30 | USD | home; light | true |  |');
+
+    const jsonl = await exporter.export({ data: products }, { format: 'jsonl', path: 'shop/products', overwrite: false });
+    const lines = (await readFile(jsonl.path, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toEqual(products.products);
+    expect(jsonl.bytes).toBe((await readFile(jsonl.path)).length);
+  });
+
+  it('should write a workbook with typed cells', async () => {
+    const exporter = new ResultExporter(root);
+    const exported = await exporter.export({ data: products }, { format: 'xlsx', path: 'products.xlsx', overwrite: false });
+
+    const files = unzip(await readFile(exported.path));
+    expect([...files.keys()]).toContain('xl/workbook.xml');
+    const sheet = files.get('xl/worksheets/sheet1.xml') as string;
+    expect(sheet).toContain('<c r="A1" t="inlineStr"><is><t xml:space="preserve">name</t></is></c>');
+    expect(sheet).toContain('<c r="B3"><v>250.5</v></c>');
+    expect(sheet).toContain('<c r="E2" t="b"><v>1</v></c>');
+    expect(sheet).toContain('<t xml:space="preserve">Desk, oak</t>');
+    expect(sheet).not.toContain('r="D3"');
+  });
+
+  it('should export markdown and CSV results and name files after the prompt', async () => {
+    const exporter = new ResultExporter(root);
+
+    const first = await exporter.export({ markdown: '# Pricing\n\nPro: $20' }, { format: 'markdown', overwrite: false, name: 'Get https://Acme.example.com/pricing' });
+    const second = await exporter.export({ markdown: '# Pricing' }, { format: 'markdown', overwrite: false, name: 'Get https://Acme.example.com/pricing' });
+    expect(first.path).toMatch(/[/\\]get-https-acme-example-com-pricing-\d{8}-\d{6}\.md$/);
+    expect(second.path).not.toBe(first.path);
+    expect(first.preview).toBe('# Pricing\n\nPro: $20');
+
+    const fromCsv = await exporter.export({ csv: 'name,price\n"Lamp, red",30\n' }, { format: 'jsonl', path: 'lamps', overwrite: false });
+    expect(await readFile(fromCsv.path, 'utf8')).toBe('{"name":"Lamp, red","price":"30"}\n');
+
+    await expect(exporter.export({ markdown: '# Text' }, { format: 'csv', overwrite: false }))
+      .rejects.toThrow('no structured data to export as csv');
+  });
+
+  it('should keep writes inside the export directory', async () => {
+    const exporter = new ResultExporter(root);
+    const result = { data: [{ name: 'Lamp' }] };
+    const outside = join(dir, 'outside');
+    await mkdir(outside);
+    await mkdir(root);
+    await symlink(outside, join(root, 'link'));
+
+    for (const path of ['../escape.csv', 'shop/../../escape.csv', join(dir, 'escape.csv'), 'link/escape.csv', 'link/nested/escape.csv']) {
+      await expect(exporter.export(result, { format: 'csv', path, overwrite: true })).rejects.toBeInstanceOf(ExportPathError);
+    }
+    expect(await readdir(dir)).toEqual(['exports', 'outside']);
+    expect(await readdir(outside)).toEqual([]);
+
+    await writeFile(join(root, 'lamps.csv'), 'old', 'utf8');
+    await expect(exporter.export(result, { format: 'csv', path: 'lamps.csv', overwrite: false }))
+      .rejects.toThrow('already exists');
+    const replaced = await exporter.export(result, { format: 'csv', path: join(root, 'lamps.csv'), overwrite: true });
+    expect(await readFile(replaced.path, 'utf8')).toBe('name\nLamp\n');
+  });
+});
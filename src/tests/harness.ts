@@ -0,0 +1,122 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolResult, CallToolResultSchema, Progress, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import { MOCK_API_KEY, MockBackendOptions, MockScraperBackend } from '../lib/mock-backend.js';
+import { Logger } from '../lib/logger.js';
+import { ScraperMCPServer, ScraperMCPServerOptions } from '../server/index.js';
+
+export interface HarnessOptions {
+  /** Job duration, latency and accepted key of the mock backend; jobs take 40 ms by default */
+  backend?: MockBackendOptions;
+  /** Options of the MCP server; it polls every 10 ms and retries once by default */
+  server?: ScraperMCPServerOptions;
+  /** The server's API key (default MOCK_API_KEY) */
+  apiKey?: string;
+}
+
+export interface ToolCall {
+  result: CallToolResult;
+  /** The progress notifications received during the call, in order */
+  progress: Progress[];
+}
+
+/**
+ * Runs a ScraperMCPServer against a MockScraperBackend and connects an MCP client to it in process, so tests drive
+ * the server through the protocol like a real client
+ */
+export class McpTestHarness {
+  readonly backend: MockScraperBackend;
+  readonly server: ScraperMCPServer;
+  readonly client: Client;
+  /** The server's log lines */
+  readonly logs: string[];
+
+  /**
+   * Creates a new McpTestHarness; use start to get a connected one
+   * @param backend The listening mock backend
+   * @param server The MCP server
+   * @param client The MCP client
+   * @param logs The collected log lines
+   */
+  private constructor(backend: MockScraperBackend, server: ScraperMCPServer, client: Client, logs: string[]) {
+    this.backend = backend;
+    this.server = server;
+    this.client = client;
+    this.logs = logs;
+  }
+
+  /**
+   * Starts a mock backend and a server using it, and connects a client
+   * @param options The backend, server and API key options
+   * @returns Promise with the connected harness
+   */
+  static async start(options: HarnessOptions = {}): Promise<McpTestHarness> {
+    const backend = new MockScraperBackend({ jobDuration: 40, ...options.backend });
+    const apiBase = await backend.listen();
+    const logs: string[] = [];
+    const server = new ScraperMCPServer(options.apiKey ?? MOCK_API_KEY, apiBase, '0.0.0-test', {
+      pollInterval: 10,
+      maxInterval: 20,
+      jitter: 0,
+      maxRetries: 1,
+      logger: new Logger({ write: line => logs.push(line) }),
+      ...options.server
+    });
+    const client = new Client({ name: 'harness-client', version: '1.0.0' });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+    return new McpTestHarness(backend, server, client, logs);
+  }
+
+  /**
+   * Lists the names of the offered tools
+   * @returns Promise with the tool names
+   */
+  async toolNames(): Promise<string[]> {
+    return (await this.client.listTools()).tools.map(tool => tool.name);
+  }
+
+  /**
+   * Calls a tool with a progress token, collecting the progress notifications
+   * @param name The tool name
+   * @param args The tool arguments
+   * @param meta The request's _meta, e.g. a tenant's own scraperis/apiKey
+   * @returns Promise with the result and the progress received
+   */
+  async callTool(name: string, args: Record<string, unknown> = {}, meta?: Record<string, unknown>): Promise<ToolCall> {
+    const progress: Progress[] = [];
+    const result = await this.client.callTool({ name, arguments: args, _meta: meta }, CallToolResultSchema, {
+      onprogress: update => progress.push(update)
+    }) as CallToolResult;
+    return { result, progress };
+  }
+
+  /**
+   * Reads a resource
+   * @param uri The resource URI
+   * @returns Promise with the resource contents
+   */
+  readResource(uri: string): Promise<ReadResourceResult> {
+    return this.client.readResource({ uri });
+  }
+
+  /**
+   * Disconnects the client and stops the server and the backend
+   */
+  async close(): Promise<void> {
+    await this.client.close();
+    await this.server.close();
+    await this.backend.close();
+  }
+}
+
+/**
+ * Gets the text of a tool result
+ * @param result The tool result
+ * @returns The text blocks, joined with newlines
+ */
+export function resultText(result: CallToolResult): string {
+  return result.content.map(block => (block.type === 'text' ? block.text : '')).join('\n');
+}
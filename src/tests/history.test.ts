@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ScrapeHistory } from '../lib/history.js';
+import { ScraperAPI } from '../lib/scraper-api.js';
+import { keyOwner } from '../lib/credentials.js';
+
+// Define a mock type for fetch
+interface MockFetch {
+  mockResolvedValueOnce: (value: unknown) => MockFetch;
+}
+
+describe('ScrapeHistory', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    global.fetch = vi.fn() as unknown as typeof fetch;
+  });
+
+  it('should record completed scrapes and background jobs with their prompts', async () => {
+    const history = new ScrapeHistory();
+    const api = new ScraperAPI('test-api-key', 'https://test-api.com/api', 1, { history });
+    (global.fetch as unknown as MockFetch)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ job_id: 'job-1' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'completed', markdown: '# Lamps' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ job_id: 'job-2' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'completed', markdown: '# Desks' }) });
+
+    await api.scrape('Get lamps from https://shop.example.com/lamps', 'markdown');
+    const started = await api.startScrape('Get desks from https://shop.example.com/desks', 'markdown');
+    await api.getResult(started.chatId, 'markdown');
+
+    const owner = keyOwner('test-api-key');
+    const [desks, lamps] = history.list(owner);
+    expect(lamps).toMatchObject({
+      prompt: 'Get lamps from https://shop.example.com/lamps',
+      format: 'markdown',
+      url: 'https://shop.example.com/lamps'
+    });
+    expect(desks).toMatchObject({ chatId: started.chatId, prompt: 'Get desks from https://shop.example.com/desks' });
+    expect(lamps.submittedAt).toBeLessThanOrEqual(lamps.completedAt);
+    expect(await history.get(owner, lamps.chatId)).toMatchObject({ markdown: '# Lamps' });
+    expect(history.resolve(owner, ScrapeHistory.uri(desks.chatId))).toBe(desks);
+    expect(history.list('another-key')).toEqual([]);
+    expect(history.resolve('another-key', ScrapeHistory.uri(desks.chatId))).toBeUndefined();
+    expect(await history.get('another-key', lamps.chatId)).toBeUndefined();
+  });
+
+  it('should search prompts, URLs and content with snippets, newest first', async () => {
+    const history = new ScrapeHistory();
+    history.record({ owner: 'a', chatId: 'a', prompt: 'Get https://acme.example.com/pricing', format: 'markdown', response: { markdown: '# Pricing\n\nPro plan: $20 per month' } });
+    history.record({ owner: 'a', chatId: 'b', prompt: 'Get the catalog', format: 'json', response: { data: [{ name: 'Pro lamp', price: 30 }] } });
+    history.record({ owner: 'a', chatId: 'c', prompt: 'Get the blog', format: 'markdown', response: { markdown: 'Nothing here' } });
+    history.record({ owner: 'b', chatId: 'd', prompt: 'Get the pro catalog', format: 'json', response: { data: [] } });
+
+    const matches = await history.search('a', { text: 'pro', limit: 10 });
+
+    expect(matches.map(match => match.entry.chatId)).toEqual(['b', 'a']);
+    expect(matches[0].snippet).toBe('[{"name":"Pro lamp","price":30}]');
+    expect((await history.search('a', { text: 'acme pricing', limit: 10 }))[0]).toEqual({ entry: history.entry('a', 'a') });
+    expect((await history.search('a', { format: 'markdown', limit: 1 })).map(match => match.entry.chatId)).toEqual(['c']);
+  });
+
+  it('should keep results on disk and drop the oldest beyond the limit', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'scraperis-history-'));
+    try {
+      const history = await ScrapeHistory.open(dir, 2);
+      history.record({ owner: 'a', chatId: 'a', prompt: 'First', format: 'markdown', response: { markdown: '# A' } });
+      history.record({ owner: 'a', chatId: 'b', prompt: 'Second', format: 'csv', response: { csv: 'x\n1' } });
+      history.record({ owner: 'a', chatId: 'c', prompt: 'Third', format: 'markdown', response: { markdown: '# C' } });
+      await history.flush();
+
+      const reopened = await ScrapeHistory.open(dir, 2);
+      expect(reopened.list('a').map(entry => entry.chatId)).toEqual(['c', 'b']);
+      expect(await reopened.get('a', 'b')).toEqual({ csv: 'x\n1' });
+      expect(await reopened.get('a', 'a')).toBeUndefined();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
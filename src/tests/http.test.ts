@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { HttpServerHost } from '../server/http.js';
+import { ScraperMCPServer } from '../server/index.js';
+
+const AUTH_HEADERS = { Authorization: 'Bearer secret-token' };
+
+describe('HttpServerHost', () => {
+  let host: HttpServerHost;
+  let base: string;
+
+  beforeEach(async () => {
+    host = new HttpServerHost({
+      host: '127.0.0.1',
+      port: 0,
+      authToken: 'secret-token',
+      version: '1.2.3',
+      createServer: () => new ScraperMCPServer('test-api-key', 'https://test-api.com/api')
+    });
+    const address = await host.listen();
+    base = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await host.close();
+  });
+
+  it('should answer health checks without a token', async () => {
+    const response = await fetch(`${base}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', version: '1.2.3', sessions: 0 });
+  });
+
+  it('should reject clients without the bearer token', async () => {
+    const response = await fetch(`${base}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer wrong' },
+      body: '{}'
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toContain('Bearer');
+  });
+
+  it('should serve separate Streamable HTTP and SSE sessions', async () => {
+    const streamable = new Client({ name: 'streamable-client', version: '1.0.0' });
+    await streamable.connect(new StreamableHTTPClientTransport(new URL(`${base}/mcp`), {
+      requestInit: { headers: AUTH_HEADERS }
+    }));
+
+    const sse = new Client({ name: 'sse-client', version: '1.0.0' });
+    await sse.connect(new SSEClientTransport(new URL(`${base}/sse`), {
+      requestInit: { headers: AUTH_HEADERS },
+      eventSourceInit: {
+        fetch: (url, init) => fetch(url, { ...init, headers: { ...init?.headers, ...AUTH_HEADERS } })
+      }
+    }));
+
+    expect(host.sessionCount).toBe(2);
+    expect((await streamable.listTools()).tools.map((tool: { name: string }) => tool.name)).toContain('scrape');
+    expect((await sse.listTools()).tools.map((tool: { name: string }) => tool.name)).toContain('scrape');
+
+    await streamable.close();
+    await sse.close();
+  });
+
+  it('should reject requests for unknown sessions', async () => {
+    const response = await fetch(`${base}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'unknown', ...AUTH_HEADERS },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
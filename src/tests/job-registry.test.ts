@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { JobRegistry } from '../lib/job-registry.js';
+
+describe('JobRegistry', () => {
+  let registry: JobRegistry;
+
+  beforeEach(() => {
+    registry = new JobRegistry(2);
+  });
+
+  it('should register jobs as pending', () => {
+    const job = registry.add('chat-1', 'Scrape example.com', 'markdown', 'job-1');
+
+    expect(job).toMatchObject({ chatId: 'chat-1', jobId: 'job-1', status: 'pending', polls: 0 });
+    expect(registry.get('chat-1')).toBe(job);
+  });
+
+  it('should abort the job signal when cancelled and ignore later updates', () => {
+    registry.add('chat-1', 'Scrape example.com', 'markdown', 'job-1');
+    const signal = registry.signal('chat-1');
+
+    registry.cancel('chat-1');
+    registry.update('chat-1', { status: 'completed' });
+
+    expect(signal?.aborted).toBe(true);
+    expect(registry.get('chat-1')?.status).toBe('cancelled');
+  });
+
+  it('should keep the status of finished jobs when cancelled', () => {
+    registry.add('chat-1', 'Scrape example.com', 'json', 'job-1');
+    registry.update('chat-1', { status: 'completed' });
+
+    expect(registry.cancel('chat-1')?.status).toBe('completed');
+  });
+
+  it('should evict finished jobs first once over capacity', () => {
+    registry.add('chat-1', 'Scrape a.com', 'markdown', 'job-1');
+    registry.add('chat-2', 'Scrape b.com', 'markdown', 'job-2');
+    registry.update('chat-2', { status: 'completed' });
+    registry.add('chat-3', 'Scrape c.com', 'markdown', 'job-3');
+
+    expect(registry.list().map(job => job.chatId).sort()).toEqual(['chat-1', 'chat-3']);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { validateJsonSchema } from '../lib/json-schema.js';
+
+const productSchema = {
+  type: 'object',
+  required: ['products'],
+  properties: {
+    products: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'price'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          price: { type: 'number', minimum: 0 },
+          inStock: { type: 'boolean' }
+        },
+        additionalProperties: false
+      }
+    }
+  }
+};
+
+describe('validateJsonSchema', () => {
+  it('should accept data matching the schema unchanged', () => {
+    const data = { products: [{ name: 'Widget', price: 9.99, inStock: true }] };
+    const validation = validateJsonSchema(data, productSchema);
+
+    expect(validation).toEqual({ valid: true, value: data, issues: [], coerced: [] });
+  });
+
+  it('should coerce loosely typed values and report where', () => {
+    const validation = validateJsonSchema(
+      { products: { name: 'Widget', price: '$1,299.00', inStock: 'yes' } },
+      productSchema
+    );
+
+    expect(validation.valid).toBe(true);
+    expect(validation.value).toEqual({ products: [{ name: 'Widget', price: 1299, inStock: true }] });
+    expect(validation.coerced).toEqual(['/products', '/products/0/price', '/products/0/inStock']);
+  });
+
+  it('should report mismatches by path', () => {
+    const validation = validateJsonSchema(
+      { products: [{ name: '', price: 'call us', color: 'red' }] },
+      productSchema
+    );
+
+    expect(validation.valid).toBe(false);
+    expect(validation.issues).toEqual([
+      { path: '/products/0/name', message: 'must be at least 1 characters' },
+      { path: '/products/0/price', message: 'expected number, got string' },
+      { path: '/products/0/color', message: 'is not allowed' }
+    ]);
+  });
+
+  it('should not coerce when coercion is disabled', () => {
+    const validation = validateJsonSchema({ products: [{ name: 'Widget', price: '5' }] }, productSchema, false);
+
+    expect(validation.valid).toBe(false);
+    expect(validation.coerced).toEqual([]);
+    expect(validation.issues).toEqual([{ path: '/products/0/price', message: 'expected number, got string' }]);
+  });
+
+  it('should report missing data against the root', () => {
+    const validation = validateJsonSchema(undefined, productSchema);
+
+    expect(validation.valid).toBe(false);
+    expect(validation.issues[0].path).toBe('/');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { Logger, LogRecord } from '../lib/logger.js';
+import { ScraperMCPServer } from '../server/index.js';
+import { registerSecret } from '../utils/index.js';
+
+/**
+ * Creates a logger that collects its records
+ * @param level The least severe level written
+ * @returns The logger and the records written so far
+ */
+function collectingLogger(level: LogRecord['level'] = 'info') {
+  const records: LogRecord[] = [];
+  const logger = new Logger({ level, write: line => records.push(JSON.parse(line)) });
+  return { logger, records };
+}
+
+describe('Logger', () => {
+  it('should write JSON records with the request context and drop those below its level', async () => {
+    const { logger, records } = collectingLogger('notice');
+
+    logger.log('info', 'dropped');
+    await logger.run({ requestId: 7, tool: 'scrape' }, async () => {
+      await Promise.resolve();
+      logger.log('warning', 'slow', { durationMs: 1200 });
+    });
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ level: 'warning', message: 'slow', requestId: 7, tool: 'scrape', durationMs: 1200 });
+    expect(Date.parse(records[0].time)).not.toBeNaN();
+  });
+
+  it('should redact API keys and signed screenshot URLs', () => {
+    const { logger, records } = collectingLogger();
+    registerSecret('sk-live-0123456789abcdef');
+
+    logger.log('error', 'Download failed for https://files.example.com/shot.png?X-Amz-Signature=abc123&X-Amz-Expires=60', {
+      apiKey: 'sk-live-0123456789abcdef',
+      page: 'https://example.com/search?q=laptops'
+    });
+
+    expect(records[0].message).toBe('Download failed for https://files.example.com/shot.png?***');
+    expect(records[0].apiKey).toBe('***cdef');
+    expect(records[0].page).toBe('https://example.com/search?q=laptops');
+  });
+
+  it('should append records to a log file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'scraperis-log-'));
+    try {
+      const file = join(dir, 'server.log');
+      const logger = new Logger({ file, write: () => undefined });
+
+      logger.log('info', 'first');
+      logger.log('error', 'second');
+      await logger.close();
+
+      const lines = (await readFile(file, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+      expect(lines.map(line => line.message)).toEqual(['first', 'second']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should honor logging/setLevel and log tool calls with their duration', async () => {
+    const { logger, records } = collectingLogger('debug');
+    const server = new ScraperMCPServer(undefined, undefined, undefined, { logger });
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const messages: Array<{ level: string; data?: unknown }> = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+      messages.push(notification.params);
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    await client.setLoggingLevel('warning');
+    await client.callTool({ name: 'scrape', arguments: { prompt: 'Scrape example.com' } });
+
+    const completed = records.find(record => record.message === 'Tool call failed');
+    expect(completed).toMatchObject({ level: 'warning', tool: 'scrape' });
+    expect(completed?.requestId).toBeDefined();
+    expect(completed?.durationMs).toBeGreaterThanOrEqual(0);
+    expect(messages.length).toBeGreaterThan(0);
+    expect(messages.every(message => ['warning', 'error'].includes(message.level))).toBe(true);
+    await client.close();
+  });
+});
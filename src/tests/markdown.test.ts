@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chunkMarkdown,
+  estimateTokens,
+  listHeadings,
+  normalizeLinks,
+  processMarkdown,
+  selectSections,
+  stripBoilerplate
+} from '../lib/markdown.js';
+
+const PAGE = [
+  'Skip to main content',
+  '',
+  '- [Home](/) | [Products](/products) | [About](/about) | [Contact](/contact)',
+  '',
+  '# Lamps',
+  '',
+  'Our [best sellers](/lamps?utm_source=mail&color=red) and ![a lamp](data:image/png;base64,AAAA).',
+  '',
+  '## Pricing',
+  '',
+  'From $20. [Compare](javascript:void(0)) or [top](#top).',
+  '',
+  '### Discounts',
+  '',
+  'Ten percent off for members.',
+  '',
+  '## Shipping',
+  '',
+  'Free over $50.',
+  '',
+  '© 2026 Example Lamps. All rights reserved.'
+].join('\n');
+
+describe('markdown', () => {
+  it('should strip navigation menus and boilerplate but keep content and code', () => {
+    const result = stripBoilerplate(`${PAGE}\n\n\`\`\`\n[a](/a) [b](/b) [c](/c)\n\`\`\``);
+
+    expect(result).not.toContain('Skip to main content');
+    expect(result).not.toContain('[Products]');
+    expect(result).not.toContain('All rights reserved');
+    expect(result).toContain('# Lamps');
+    expect(result).toContain('```\n[a](/a) [b](/b) [c](/c)\n```');
+  });
+
+  it('should resolve relative links, drop tracking parameters and inline images', () => {
+    const result = normalizeLinks(PAGE, 'https://shop.example.com/lamps/');
+
+    expect(result).toContain('[best sellers](https://shop.example.com/lamps?color=red)');
+    expect(result).toContain('[image: a lamp]');
+    expect(result).toContain('From $20. Compare or top.');
+    expect(normalizeLinks('[](https://example.com/a?fbclid=1)')).toBe('<https://example.com/a>');
+  });
+
+  it('should select sections by heading text, level or regular expression', () => {
+    expect(selectSections(PAGE, 'pricing')).toBe(
+      '## Pricing\n\nFrom $20. [Compare](javascript:void(0)) or [top](#top).\n\n### Discounts\n\nTen percent off for members.'
+    );
+    expect(selectSections(PAGE, '### /discount|shipping/')).toBe('### Discounts\n\nTen percent off for members.');
+    expect(selectSections(PAGE, 'returns')).toBeUndefined();
+    expect(listHeadings(PAGE)).toEqual(['# Lamps', '## Pricing', '### Discounts', '## Shipping']);
+  });
+
+  it('should run the pipeline and skip cleanup when asked to', () => {
+    expect(processMarkdown(PAGE, { baseUrl: 'https://shop.example.com/', selector: '## Shipping' }))
+      .toBe('## Shipping\n\nFree over $50.');
+    expect(processMarkdown(PAGE, { clean: false })).toBe(PAGE);
+    expect(processMarkdown(PAGE, { selector: 'returns' })).toBeUndefined();
+  });
+
+  it('should split markdown into ordered chunks within the budget, preferring headings', () => {
+    const section = (title: string) => `## ${title}\n\n${'word '.repeat(60).trim()}`;
+    const markdown = [section('One'), section('Two'), section('Three')].join('\n\n');
+
+    const chunks = chunkMarkdown(markdown, 100);
+
+    expect(chunks).toHaveLength(3);
+    expect(chunks.map(chunk => chunk.split('\n')[0])).toEqual(['## One', '## Two', '## Three']);
+    expect(chunks.every(chunk => estimateTokens(chunk) <= 100)).toBe(true);
+    expect(chunks.join('\n\n')).toBe(markdown);
+  });
+
+  it('should cut text without breaks into slices as a last resort', () => {
+    const chunks = chunkMarkdown('x'.repeat(1000), 100);
+
+    expect(chunks.map(chunk => chunk.length)).toEqual([400, 400, 200]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MockScraperBackend } from '../lib/mock-backend.js';
+import { ScraperAPI } from '../lib/scraper-api.js';
+
+const HEADERS = { 'Content-Type': 'application/json', 'x-api-key': 'key' };
+
+describe('MockScraperBackend', () => {
+  let backend: MockScraperBackend;
+  let base: string;
+
+  beforeEach(async () => {
+    backend = new MockScraperBackend({ jobDuration: 200 });
+    base = await backend.listen();
+  });
+
+  afterEach(async () => {
+    await backend.close();
+  });
+
+  it('should move jobs through their stages to a result in every format', async () => {
+    const started = await fetch(`${base}/extract_prompt`, {
+      method: 'POST',
+      headers: HEADERS,
+      body: JSON.stringify({ prompt: 'Get https://shop.example.com/lamps', chat_id: 'chat-1' })
+    });
+    expect(await started.json()).toMatchObject({ chat_id: 'chat-1', status: 'queued' });
+
+    const running = await fetch(`${base}/get_data?chat_id=chat-1&format=quick`, { headers: HEADERS });
+    expect(await running.json()).toMatchObject({
+      status: 'processing',
+      processing: true,
+      stage: expect.stringMatching(/^(queued|loading|extracting|rendering)$/)
+    });
+    expect((await fetch(`${base}/get_data?chat_id=chat-1&format=json`, { headers: HEADERS })).status).toBe(404);
+
+    await new Promise(resolve => setTimeout(resolve, 220));
+    const quick = await (await fetch(`${base}/get_data?chat_id=chat-1&format=quick`, { headers: HEADERS })).json();
+    expect(quick).toMatchObject({ status: 'completed', chat_id: 'chat-1', url: 'https://shop.example.com/lamps' });
+    expect(quick.markdown).toContain('[Next page](https://shop.example.com/lamps?page=2)');
+
+    const csv = await fetch(`${base}/get_data?chat_id=chat-1&format=csv`, { headers: HEADERS });
+    expect(csv.headers.get('content-type')).toContain('text/csv');
+    expect(await csv.text()).toBe(
+      'name,price,url\nItem 1,10.99,https://shop.example.com/items/1\n' +
+      'Item 2,20.99,https://shop.example.com/items/2\nItem 3,30.99,https://shop.example.com/items/3\n'
+    );
+    const screenshot = await fetch(`${base}/get_data?chat_id=chat-1&format=screenshot`, { headers: HEADERS });
+    expect(screenshot.headers.get('content-type')).toBe('image/png');
+    const image = await fetch(quick.screenshot.url);
+    expect(Buffer.from(await image.arrayBuffer()).subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  it('should generate crawl pages from the schema with links and a next page', async () => {
+    const api = new ScraperAPI('key', base, 10, { maxInterval: 20, jitter: 0 });
+    const response = await api.scrape('Get https://shop.example.com/list?page=3', 'json', undefined, {
+      schema: {
+        type: 'object',
+        properties: {
+          links: { type: 'array', items: { type: 'string' } },
+          next_page: { type: ['string', 'null'] },
+          content: { type: 'string' }
+        }
+      }
+    });
+
+    expect(response.data).toMatchObject({
+      links: ['https://shop.example.com/items/1', 'https://shop.example.com/items/2', 'https://shop.example.com/items/3'],
+      next_page: null
+    });
+    expect((response.data as Record<string, string>).content).toContain('# shop.example.com/list');
+  });
+
+  it('should answer with the API error codes', async () => {
+    const noKey = await fetch(`${base}/get_data?chat_id=chat-1&format=quick`);
+    expect(noKey.status).toBe(401);
+    expect((await fetch(`${base}/get_data?format=quick`, { headers: HEADERS })).status).toBe(400);
+    expect(await (await fetch(`${base}/get_data?chat_id=unknown&format=quick`, { headers: HEADERS })).json())
+      .toEqual({ error: 'Scraper not found' });
+    const invalid = await fetch(`${base}/extract_prompt`, { method: 'POST', headers: HEADERS, body: '{}' });
+    expect(invalid.status).toBe(400);
+
+    backend.failNext('/extract_prompt', 503, { times: 2, message: 'Down for maintenance' });
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const failed = await fetch(`${base}/extract_prompt`, { method: 'POST', headers: HEADERS, body: '{}' });
+      expect(failed.status).toBe(503);
+      expect(await failed.json()).toEqual({ error: 'Down for maintenance' });
+    }
+    expect((await fetch(`${base}/extract_prompt`, { method: 'POST', headers: HEADERS, body: '{}' })).status).toBe(400);
+    expect(backend.requests.filter(request => request.path === '/extract_prompt')).toHaveLength(4);
+  });
+});
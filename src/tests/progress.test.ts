@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ScraperAPI } from '../lib/scraper-api.js';
+import { JobProgress, JobTimings, jobStage } from '../lib/progress.js';
+
+// Define a mock type for fetch
+interface MockFetch {
+  mockResolvedValueOnce: (value: unknown) => MockFetch;
+}
+
+describe('jobStage', () => {
+  it('should map reported statuses and stages to job stages', () => {
+    expect(jobStage(undefined)).toBe('queued');
+    expect(jobStage({ status: 'queued' })).toBe('queued');
+    expect(jobStage({ status: 'processing', stage: 'Loading page' })).toBe('loading');
+    expect(jobStage({ status: 'extracting_data' })).toBe('extracting');
+    expect(jobStage({ status: 'rendering' })).toBe('rendering');
+    expect(jobStage({ processing: true })).toBe('processing');
+  });
+});
+
+describe('JobProgress', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report increasing progress with the stage the job is in', async () => {
+    const updates: Array<[number, string | undefined]> = [];
+    const progress = new JobProgress('markdown', new JobTimings(), async (value, message) => {
+      updates.push([value, message]);
+    }, 0);
+
+    vi.setSystemTime(2500);
+    await progress.update({ status: 'queued' });
+    vi.setSystemTime(5000);
+    await progress.update({ status: 'loading' });
+    vi.setSystemTime(10000);
+    await progress.update({ status: 'loading' });
+    // A stage reported out of order does not move progress back
+    vi.setSystemTime(12000);
+    await progress.update({ status: 'queued' });
+    vi.setSystemTime(20000);
+    await progress.update({ status: 'extracting' });
+    await progress.complete();
+
+    expect(updates.map(([, message]) => message)).toEqual([
+      'Queued at Scraper.is (3s elapsed)',
+      'Loading the page (1s elapsed)',
+      'Loading the page (5s elapsed)',
+      'Loading the page (7s elapsed)',
+      'Extracting the requested data (1s elapsed)',
+      'Scrape completed'
+    ]);
+    const values = updates.map(([value]) => value);
+    expect(values).toEqual([...values].sort((a, b) => a - b));
+    expect(values[0]).toBe(4.5);
+    expect(values.at(-1)).toBe(100);
+  });
+
+  it('should estimate the time left from the stage durations of earlier jobs', async () => {
+    const timings = new JobTimings();
+    const first = new JobProgress('json', timings, undefined, 0);
+    await first.update({ status: 'queued' });
+    vi.setSystemTime(4000);
+    await first.update({ status: 'extracting' });
+    vi.setSystemTime(24000);
+    await first.complete();
+    expect(timings.expected('json', 'queued')).toBe(4000);
+    expect(timings.expected('json', 'extracting')).toBe(20000);
+
+    const messages: Array<string | undefined> = [];
+    const second = new JobProgress('json', timings, async (_value, message) => {
+      messages.push(message);
+    }, 24000);
+    vi.setSystemTime(25000);
+    await second.update({ status: 'queued' });
+    vi.setSystemTime(34000);
+    await second.update({ status: 'extracting' });
+    vi.setSystemTime(60000);
+    await second.update({ status: 'extracting' });
+
+    expect(messages).toEqual([
+      'Queued at Scraper.is (about 23s left)',
+      'Extracting the requested data (about 20s left)',
+      'Extracting the requested data (taking longer than usual)'
+    ]);
+  });
+});
+
+describe('ScraperAPI progress', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    global.fetch = vi.fn() as unknown as typeof fetch;
+  });
+
+  it('should report progress from the job status while polling', async () => {
+    const api = new ScraperAPI('test-api-key', 'https://test-api.com/api', 1);
+    (global.fetch as unknown as MockFetch)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ job_id: 'job-1' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'loading' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'extracting' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'completed', markdown: '# Done' }) });
+    const updates: Array<[number, string | undefined]> = [];
+
+    await api.scrape('Scrape example.com', 'markdown', async (value, message) => {
+      updates.push([value, message]);
+    });
+
+    expect(updates.map(([, message]) => message?.replace(/ \(.*\)$/, ''))).toEqual([
+      'Loading the page',
+      'Extracting the requested data',
+      'Scrape completed'
+    ]);
+    expect(updates[0][0]).toBeGreaterThanOrEqual(10);
+    expect(updates[1][0]).toBeGreaterThanOrEqual(40);
+    expect(updates[2][0]).toBe(100);
+  });
+});
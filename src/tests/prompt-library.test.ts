@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PromptLibrary } from '../lib/prompt-library.js';
+
+describe('PromptLibrary', () => {
+  it('should expand a template into a scrape call with typed arguments', () => {
+    const rendered = new PromptLibrary().render('extract_products', {
+      url: 'https://shop.example.com/laptops',
+      fields: 'name, price, rating',
+      limit: '20'
+    });
+
+    expect(rendered.text).toContain('Call the scrape tool');
+    expect(rendered.text).toContain(JSON.stringify({
+      prompt: 'Extract the first 20 products listed on https://shop.example.com/laptops. ' +
+        'For each product return name, price and rating. Use null for missing values.',
+      format: 'json'
+    }, null, 2));
+  });
+
+  it('should drop optional sections and apply defaults', () => {
+    const rendered = new PromptLibrary().render('extract_products', { url: 'https://shop.example.com' });
+
+    expect(rendered.text).toContain('"prompt": "Extract products listed on https://shop.example.com. For each product return name, price and url.');
+  });
+
+  it('should build scrape_batch calls from url lists', () => {
+    const rendered = new PromptLibrary().render('compare_pricing', {
+      urls: 'https://a.example.com/pricing,\nhttps://b.example.com/pricing'
+    });
+
+    expect(rendered.text).toContain('Call the scrape_batch tool');
+    expect(rendered.text).toContain('"urls": [\n    "https://a.example.com/pricing",\n    "https://b.example.com/pricing"\n  ]');
+    expect(rendered.text).toContain('Then: Compare the plans');
+  });
+
+  it('should reject missing and malformed arguments', () => {
+    const library = new PromptLibrary();
+
+    expect(() => library.render('summarize_article', {})).toThrow('Missing required argument: url');
+    expect(() => library.render('summarize_article', { url: 'example.com' })).toThrow('http(s) URL');
+    expect(() => library.render('nope')).toThrow('Unknown prompt');
+  });
+
+  describe('load', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'scraperis-prompts-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should add user templates from YAML and JSON files and skip invalid ones', async () => {
+      await writeFile(join(dir, 'jobs.yaml'), [
+        'name: job_postings',
+        'description: Extract open positions',
+        'arguments:',
+        '  - name: url',
+        '    type: url',
+        '    required: true',
+        'format: csv',
+        'prompt: List every open position on {{url}} with title, location and salary'
+      ].join('\n'));
+      await writeFile(join(dir, 'override.json'), JSON.stringify([
+        { name: 'summarize_article', description: 'Custom summary', prompt: 'Get {{url}}' }
+      ]));
+      await writeFile(join(dir, 'broken.yml'), 'name: Not Valid!');
+      await writeFile(join(dir, 'notes.txt'), 'ignored');
+
+      const skipped: string[] = [];
+      const library = await PromptLibrary.load(dir, file => skipped.push(file));
+
+      expect(skipped).toEqual(['broken.yml']);
+      expect(library.get('job_postings')?.format).toBe('csv');
+      expect(library.get('summarize_article')?.description).toBe('Custom summary');
+      expect(library.list().map(template => template.name)).toContain('collect_contacts');
+    });
+
+    it('should fall back to the built-in templates without a directory', async () => {
+      const library = await PromptLibrary.load(join(dir, 'missing'));
+
+      expect(library.list()).toHaveLength(4);
+    });
+  });
+});
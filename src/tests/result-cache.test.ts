@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ResultCache } from '../lib/result-cache.js';
+import { ScraperAPI } from '../lib/scraper-api.js';
+
+describe('ResultCache', () => {
+  let dir: string;
+  let cache: ResultCache;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'scraperis-cache-'));
+    cache = new ResultCache(dir, 60000);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return stored results for the same normalized prompt and format', async () => {
+    await cache.set('owner', 'Scrape  example.com', 'markdown', { markdown: 'Test markdown' });
+
+    expect((await cache.get('owner', 'scrape example.com ', 'markdown'))?.response).toEqual({ markdown: 'Test markdown' });
+    expect(await cache.get('owner', 'Scrape example.com', 'json')).toBeUndefined();
+    expect(await cache.get('other', 'Scrape example.com', 'markdown')).toBeUndefined();
+  });
+
+  it('should miss entries older than the requested max age', async () => {
+    await cache.set('owner', 'Scrape example.com', 'markdown', { markdown: 'Test markdown' });
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 5000);
+
+    expect(await cache.get('owner', 'Scrape example.com', 'markdown', 1000)).toBeUndefined();
+    expect(await cache.get('owner', 'Scrape example.com', 'markdown')).toBeDefined();
+  });
+
+  it('should list and purge entries, discarding corrupt files', async () => {
+    const entry = await cache.set('owner', 'Scrape a.com', 'json', { data: { a: 1 } });
+    await cache.set('owner', 'Scrape b.com', 'json', { data: { b: 2 } });
+    const foreign = await cache.set('other', 'Scrape a.com', 'json', { data: { a: 3 } });
+    await writeFile(join(dir, 'abcdef.json'), '{not json');
+
+    expect((await cache.list('owner')).map(item => item.prompt).sort()).toEqual(['Scrape a.com', 'Scrape b.com']);
+    expect(await cache.purge('owner', foreign.key)).toBe(0);
+    expect(await cache.purge('owner', entry.key)).toBe(1);
+    expect(await cache.purge('owner')).toBe(1);
+    expect(await cache.list('owner')).toEqual([]);
+    expect((await cache.list('other')).map(item => item.key)).toEqual([foreign.key]);
+  });
+
+  it('should serve scrapes from the cache unless a refresh is forced', async () => {
+    const api = new ScraperAPI('test-api-key', 'https://test-api.com/api', undefined, { cache });
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ markdown: 'Fresh markdown' })
+    }) as unknown as typeof fetch;
+
+    const first = await api.scrape('Scrape example.com', 'markdown');
+    const second = await api.scrape('Scrape example.com', 'markdown');
+    const third = await api.scrape('Scrape example.com', 'markdown', undefined, { forceRefresh: true });
+
+    expect(first.cache?.hit).toBe(false);
+    expect(second).toMatchObject({ markdown: 'Fresh markdown', cache: { hit: true, key: first.cache?.key } });
+    expect(third.cache?.hit).toBe(false);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not serve one API key the results scraped with another', async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ markdown: 'Paid markdown' })
+    }) as unknown as typeof fetch;
+    const tenantA = new ScraperAPI('tenant-a-key', 'https://test-api.com/api', undefined, { cache });
+    const tenantB = new ScraperAPI('tenant-b-key', 'https://test-api.com/api', undefined, { cache });
+
+    await tenantA.scrape('Scrape example.com', 'markdown');
+    const other = await tenantB.scrape('Scrape example.com', 'markdown');
+
+    expect(other.cache?.hit).toBe(false);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect((global.fetch as unknown as { mock: { calls: [string, { headers: Record<string, string> }][] } }).mock.calls[1][1].headers['x-api-key'])
+      .toBe('tenant-b-key');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RobotsPolicy, RobotsRules } from '../lib/robots.js';
+import { UrlPolicy } from '../lib/url-policy.js';
+
+describe('robots.txt', () => {
+  describe('RobotsRules', () => {
+    it('should apply the longest matching rule of the * group', () => {
+      const rules = RobotsRules.parse([
+        'User-agent: googlebot',
+        'Disallow: /',
+        '',
+        'User-agent: *',
+        'Disallow: /search',
+        'Allow: /search/help',
+        'Disallow: /*.pdf$ # documents'
+      ].join('\n'));
+
+      expect(rules.allows('/products')).toBe(true);
+      expect(rules.allows('/search?q=lamps')).toBe(false);
+      expect(rules.allows('/search/help')).toBe(true);
+      expect(rules.allows('/files/manual.pdf')).toBe(false);
+      expect(rules.allows('/files/manual.pdf?download=1')).toBe(true);
+    });
+
+    it('should prefer the group naming our user agent', () => {
+      const rules = RobotsRules.parse('User-agent: *\nDisallow: /\n\nUser-agent: scraperis-mcp\nDisallow: /private');
+
+      expect(rules.allows('/products')).toBe(true);
+      expect(rules.allows('/private/admin')).toBe(false);
+    });
+  });
+
+  describe('RobotsPolicy', () => {
+    beforeEach(() => {
+      vi.resetAllMocks();
+    });
+
+    it('should fetch robots.txt once per site and allow everything when it is missing', async () => {
+      global.fetch = vi.fn(async () => ({ ok: false, status: 404, text: async () => '' })) as unknown as typeof fetch;
+      const policy = new RobotsPolicy();
+
+      expect(await policy.allows('https://example.com/a')).toBe(true);
+      expect(await policy.allows('https://example.com/b')).toBe(true);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(global.fetch).toHaveBeenCalledWith('https://example.com/robots.txt', expect.anything());
+    });
+
+    it('should disallow everything while the site answers with a server error', async () => {
+      global.fetch = vi.fn(async () => ({ ok: false, status: 503, text: async () => '' })) as unknown as typeof fetch;
+
+      expect(await new RobotsPolicy().allows('https://example.com/a')).toBe(false);
+    });
+
+    it('should check every redirect of robots.txt against the URL policy', async () => {
+      const redirect = (location: string) => ({ ok: false, status: 302, headers: new Headers({ location }), text: async () => '' });
+      global.fetch = vi.fn(async (url: string): Promise<unknown> => {
+        if (url === 'https://shop.example.com/robots.txt') {
+          return redirect('http://169.254.169.254/latest/meta-data/');
+        }
+        if (url === 'https://blog.example.com/robots.txt') {
+          return redirect('https://www.example.com/robots.txt');
+        }
+        return { ok: true, status: 200, text: async () => 'User-agent: *\nDisallow: /private' };
+      }) as unknown as typeof fetch;
+      const urlPolicy = new UrlPolicy({ resolve: async () => ['93.184.216.34'] });
+      const policy = new RobotsPolicy(undefined, urlPolicy);
+
+      // The redirect to the metadata address is not followed, so the file counts as unreachable
+      expect(await policy.allows('https://shop.example.com/private')).toBe(true);
+      expect(await policy.allows('https://blog.example.com/private')).toBe(false);
+      expect(vi.mocked(global.fetch).mock.calls.map(([url]) => url)).toEqual([
+        'https://shop.example.com/robots.txt',
+        'https://blog.example.com/robots.txt',
+        'https://www.example.com/robots.txt'
+      ]);
+      expect(global.fetch).toHaveBeenCalledWith('https://shop.example.com/robots.txt', expect.objectContaining({ redirect: 'manual' }));
+    });
+  });
+});
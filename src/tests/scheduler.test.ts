@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ScraperAPI } from '../lib/scraper-api.js';
+import { ScraperAbortedError, ScraperQueueFullError } from '../lib/errors.js';
+import { RequestScheduler } from '../lib/scheduler.js';
+
+// Define a mock type for fetch
+interface MockFetch {
+  mockResolvedValueOnce: (value: unknown) => MockFetch;
+}
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should pace requests over the limit and report their queue positions', async () => {
+    const scheduler = new RequestScheduler({ submit: { perSecond: 2, burst: 1 } });
+    const started: string[] = [];
+    const positions: number[] = [];
+    const run = (name: string) => async () => {
+      started.push(name);
+      return name;
+    };
+
+    const first = scheduler.schedule('submit', run('a'));
+    const second = scheduler.schedule('submit', run('b'), { onQueued: position => positions.push(position) });
+    const third = scheduler.schedule('submit', run('c'));
+    // Polls are limited separately
+    await expect(scheduler.schedule('poll', run('poll'))).resolves.toBe('poll');
+
+    expect(started).toEqual(['a', 'poll']);
+    expect(scheduler.queued('submit')).toBe(2);
+    expect(positions).toEqual([1]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toEqual(['a', 'poll', 'b']);
+    await vi.advanceTimersByTimeAsync(500);
+    await expect(Promise.all([first, second, third])).resolves.toEqual(['a', 'b', 'c']);
+  });
+
+  it('should start higher priorities first, reject requests over the queue bound and drop aborted requests', async () => {
+    const scheduler = new RequestScheduler({ submit: { perSecond: 1, burst: 1 }, maxQueue: 2 });
+    const started: string[] = [];
+    const run = (name: string) => async () => {
+      started.push(name);
+    };
+    const controller = new AbortController();
+
+    await scheduler.schedule('submit', run('now'));
+    const batch = scheduler.schedule('submit', run('batch'), { priority: -1, signal: controller.signal });
+    const interactive = scheduler.schedule('submit', run('interactive'));
+    await expect(scheduler.schedule('submit', run('overflow'))).rejects.toThrow(ScraperQueueFullError);
+
+    controller.abort();
+    await expect(batch).rejects.toThrow(ScraperAbortedError);
+    expect(scheduler.queued('submit')).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await interactive;
+    expect(started).toEqual(['now', 'interactive']);
+  });
+});
+
+describe('ScraperAPI request coalescing', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    global.fetch = vi.fn() as unknown as typeof fetch;
+  });
+
+  it('should send identical concurrent scrapes once and share the result', async () => {
+    const api = new ScraperAPI('test-api-key', 'https://test-api.com/api', 1);
+    (global.fetch as unknown as MockFetch)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ job_id: 'job-1' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'completed', markdown: '# Done' }) });
+
+    const [first, second] = await Promise.all([
+      api.scrape('Scrape example.com', 'markdown'),
+      api.scrape('Scrape example.com', 'markdown')
+    ]);
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(first).toMatchObject({ markdown: '# Done' });
+    expect(second).toEqual(first);
+  });
+
+  it('should keep a shared scrape running until every caller has cancelled', async () => {
+    const api = new ScraperAPI('test-api-key', 'https://test-api.com/api', 1);
+    (global.fetch as unknown as MockFetch)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ job_id: 'job-1' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'completed', markdown: '# Done' }) });
+    const controller = new AbortController();
+
+    const cancelled = api.scrape('Scrape example.com', 'markdown', undefined, { signal: controller.signal });
+    const kept = api.scrape('Scrape example.com', 'markdown', undefined, { signal: new AbortController().signal });
+    controller.abort();
+
+    await expect(cancelled).rejects.toThrow(ScraperAbortedError);
+    await expect(kept).resolves.toMatchObject({ markdown: '# Done' });
+  });
+});
@@ -1,5 +1,12 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ScraperAPI } from '../lib/scraper-api.js';
+import {
+  ScraperAbortedError,
+  ScraperAuthError,
+  ScraperJobFailedError,
+  ScraperMalformedResponseError,
+  ScraperTimeoutError
+} from '../lib/errors.js';
 
 // Mock fetch
 vi.mock('node-fetch', () => ({
@@ -33,6 +40,7 @@ describe('ScraperAPI', () => {
     it('should call the screenshot endpoint with the correct parameters', async () => {
       // Mock fetch response
       (global.fetch as unknown as MockFetch).mockResolvedValueOnce({
+        ok: true,
         json: async () => ({ success: true })
       });
       
@@ -54,10 +62,53 @@ describe('ScraperAPI', () => {
     });
   });
   
+  describe('screenshot options', () => {
+    it('should pass viewport, full page, device and delay options', async () => {
+      (global.fetch as unknown as MockFetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ screenshot: 'https://test.com/screenshot.jpg' })
+      });
+
+      const result = await api.screenshot('https://example.com', { device: 'mobile', fullPage: true, waitFor: 500 });
+
+      expect(result).toEqual({ url: 'https://example.com', screenshot: { url: 'https://test.com/screenshot.jpg' } });
+      expect(JSON.parse((global.fetch as unknown as { mock: { calls: [string, { body: string }][] } }).mock.calls[0][1].body)).toEqual({
+        url: 'https://example.com',
+        chat_id: 'test-chat-id',
+        viewport: { width: 390, height: 844 },
+        full_page: true,
+        device: 'mobile',
+        wait_for: 500
+      });
+    });
+
+    it('should poll for asynchronous screenshots', async () => {
+      (global.fetch as unknown as MockFetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ job_id: 'test-job-id' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ status: 'completed', screenshot: { url: 'https://test.com/screenshot.jpg' } })
+        });
+
+      const result = await api.screenshot('https://example.com');
+
+      expect(result.screenshot).toEqual({ url: 'https://test.com/screenshot.jpg' });
+      expect(global.fetch).toHaveBeenNthCalledWith(
+        2,
+        'https://test-api.com/api/get_data?chat_id=test-chat-id&format=quick',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+  });
+
   describe('scrape', () => {
     it('should return data directly if no job_id is present', async () => {
       // Mock fetch response for initial request
       (global.fetch as unknown as MockFetch).mockResolvedValueOnce({
+        ok: true,
         json: async () => ({ markdown: 'Test markdown', screenshot: { url: 'https://test.com/screenshot.png' } })
       });
       
@@ -90,14 +141,17 @@ describe('ScraperAPI', () => {
       (global.fetch as unknown as MockFetch)
         // Initial request returns job_id
         .mockResolvedValueOnce({
+          ok: true,
           json: async () => ({ job_id: 'test-job-id' })
         })
         // First poll shows processing
         .mockResolvedValueOnce({
+          ok: true,
           json: async () => ({ processing: true, status: 'processing' })
         })
         // Second poll shows completed with data
         .mockResolvedValueOnce({
+          ok: true,
           json: async () => ({ 
             processing: false, 
             status: 'completed',
@@ -138,4 +192,341 @@ describe('ScraperAPI', () => {
       );
     });
   });
-}); 
\ No newline at end of file
+
+  describe('scrape polling limits', () => {
+    let delays: number[];
+
+    beforeEach(() => {
+      delays = [];
+      vi.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void, ms?: number) => {
+        delays.push(ms ?? 0);
+        callback();
+        return 0 as unknown as NodeJS.Timeout;
+      }) as unknown as typeof setTimeout);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should give up after maxAttempts polls', async () => {
+      (global.fetch as unknown as MockFetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ job_id: 'test-job-id' })
+      });
+      for (let i = 0; i < 3; i++) {
+        (global.fetch as unknown as MockFetch).mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ processing: true, status: 'processing' })
+        });
+      }
+
+      await expect(api.scrape('Scrape example.com', 'markdown', undefined, { maxAttempts: 3 }))
+        .rejects.toBeInstanceOf(ScraperTimeoutError);
+      expect(global.fetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should stop polling once the deadline would be exceeded', async () => {
+      (global.fetch as unknown as MockFetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ job_id: 'test-job-id' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ status: 'completed' })
+        });
+
+      const error = await api.scrape('Scrape example.com', 'markdown', undefined, { timeout: 1000 })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ScraperTimeoutError);
+      expect((error as ScraperTimeoutError).attempts).toBe(1);
+      expect(delays).toEqual([]);
+    });
+
+    it('should honor Retry-After and back off between polls', async () => {
+      (global.fetch as unknown as MockFetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ job_id: 'test-job-id' })
+        })
+        .mockResolvedValueOnce({
+          headers: new Headers({ 'Retry-After': '2' }),
+          ok: true,
+          json: async () => ({ processing: true })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ processing: true })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ status: 'completed', markdown: 'Test markdown' })
+        });
+
+      await api.scrape('Scrape example.com', 'markdown', undefined, { jitter: 0, backoffFactor: 2 });
+
+      expect(delays).toEqual([2000, 10000]);
+    });
+
+    it('should not start a job when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(api.scrape('Scrape example.com', 'markdown', undefined, { signal: controller.signal }))
+        .rejects.toBeInstanceOf(ScraperAbortedError);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should stop polling when the signal is aborted mid-scrape', async () => {
+      const controller = new AbortController();
+      (global.fetch as unknown as MockFetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ job_id: 'test-job-id' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => {
+            controller.abort();
+            return { processing: true };
+          }
+        });
+
+      await expect(api.scrape('Scrape example.com', 'markdown', undefined, { signal: controller.signal }))
+        .rejects.toBeInstanceOf(ScraperAbortedError);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('error handling', () => {
+    let delays: number[];
+
+    beforeEach(() => {
+      delays = [];
+      vi.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void, ms?: number) => {
+        delays.push(ms ?? 0);
+        callback();
+        return 0 as unknown as NodeJS.Timeout;
+      }) as unknown as typeof setTimeout);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should raise an auth error on 401 without retrying', async () => {
+      (global.fetch as unknown as MockFetch).mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        text: async () => JSON.stringify({ error: 'Invalid API key' })
+      });
+
+      const error = await api.scrape('Scrape example.com', 'markdown').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ScraperAuthError);
+      expect((error as ScraperAuthError).message).toContain('Invalid API key');
+      expect((error as ScraperAuthError).toJSON()).toMatchObject({ code: 'auth_failed', status: 401, retryable: false });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry transient upstream failures', async () => {
+      (global.fetch as unknown as MockFetch)
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 503,
+          text: async () => 'Service Unavailable'
+        })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          headers: new Headers({ 'Retry-After': '3' }),
+          text: async () => ''
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ markdown: 'Test markdown' })
+        });
+
+      const result = await api.scrape('Scrape example.com', 'markdown');
+
+      expect(result).toEqual({ markdown: 'Test markdown' });
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+      expect(delays[1]).toBe(3000);
+    });
+
+    it('should raise a malformed response error on invalid JSON', async () => {
+      (global.fetch as unknown as MockFetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => {
+          throw new SyntaxError('Unexpected token < in JSON');
+        }
+      });
+
+      await expect(api.scrape('Scrape example.com', 'markdown'))
+        .rejects.toBeInstanceOf(ScraperMalformedResponseError);
+    });
+
+    it('should keep polling while the job is not found yet', async () => {
+      (global.fetch as unknown as MockFetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ job_id: 'test-job-id' })
+        })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 404,
+          text: async () => JSON.stringify({ error: 'No data found' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ status: 'completed', markdown: 'Test markdown' })
+        });
+
+      const result = await api.scrape('Scrape example.com', 'markdown');
+
+      expect(result.markdown).toBe('Test markdown');
+    });
+
+    it('should raise a job failed error when the job fails', async () => {
+      (global.fetch as unknown as MockFetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ job_id: 'test-job-id' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ status: 'failed' })
+        });
+
+      const error = await api.scrape('Scrape example.com', 'markdown').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ScraperJobFailedError);
+      expect((error as ScraperJobFailedError).jobId).toBe('test-job-id');
+    });
+  });
+
+  describe('result formats', () => {
+    it('should fetch json results in the requested format', async () => {
+      (global.fetch as unknown as MockFetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ job_id: 'test-job-id' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ status: 'completed', markdown: 'Test markdown' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({ 'Content-Type': 'application/json' }),
+          json: async () => ([{ name: 'Product A' }, { name: 'Product B' }])
+        });
+
+      const result = await api.scrape('Scrape example.com', 'json');
+
+      expect(result.data).toEqual([{ name: 'Product A' }, { name: 'Product B' }]);
+      expect(result.contentType).toBe('application/json');
+      expect(global.fetch).toHaveBeenNthCalledWith(
+        3,
+        'https://test-api.com/api/get_data?chat_id=test-chat-id&format=json',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should parse csv results as text', async () => {
+      (global.fetch as unknown as MockFetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ job_id: 'test-job-id' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ status: 'completed' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({ 'Content-Type': 'text/csv; charset=utf-8' }),
+          text: async () => 'name,price\nProduct A,10\n'
+        });
+
+      const result = await api.scrape('Scrape example.com', 'csv');
+
+      expect(result.csv).toBe('name,price\nProduct A,10\n');
+    });
+
+    it('should report failed exports as malformed responses', async () => {
+      (global.fetch as unknown as MockFetch).mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ 'Content-Type': 'text/csv' }),
+        text: async () => 'error'
+      });
+
+      await expect(api.fetchResult('test-chat-id', 'csv'))
+        .rejects.toBeInstanceOf(ScraperMalformedResponseError);
+    });
+  });
+
+  describe('job lifecycle', () => {
+    it('should start a job without polling', async () => {
+      (global.fetch as unknown as MockFetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ job_id: 'test-job-id' })
+      });
+
+      const started = await api.startScrape('Scrape example.com', 'markdown');
+
+      expect(started).toEqual({ chatId: 'test-chat-id', jobId: 'test-job-id', data: { job_id: 'test-job-id' } });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should forward an output schema to extract_prompt', async () => {
+      (global.fetch as unknown as MockFetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ job_id: 'test-job-id' })
+      });
+      const schema = { type: 'object', properties: { title: { type: 'string' } } };
+
+      await api.startScrape('Scrape example.com', 'json', { schema });
+
+      expect(JSON.parse((global.fetch as unknown as { mock: { calls: [string, { body: string }][] } }).mock.calls[0][1].body)).toEqual({
+        prompt: 'Scrape example.com',
+        chat_id: 'test-chat-id',
+        html_only: false,
+        schema
+      });
+    });
+
+    it('should report a job without a record yet as pending', async () => {
+      (global.fetch as unknown as MockFetch).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: async () => ''
+      });
+
+      expect(await api.getStatus('test-chat-id')).toEqual({ status: 'pending' });
+    });
+
+    it('should encode the chat id of status polls', async () => {
+      (global.fetch as unknown as MockFetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ processing: true, status: 'processing' })
+      });
+
+      await api.getStatus('a&format=json#b');
+
+      expect((global.fetch as unknown as { mock: { calls: [string][] } }).mock.calls[0][0])
+        .toBe('https://test-api.com/api/get_data?chat_id=a%26format%3Djson%23b&format=quick');
+    });
+
+    it('should return no result while the job is processing', async () => {
+      (global.fetch as unknown as MockFetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ processing: true, status: 'processing' })
+      });
+
+      expect(await api.getResult('test-chat-id', 'markdown')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ScreenshotStore, SCREENSHOT_URI_PREFIX } from '../lib/screenshot-store.js';
+
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+
+describe('ScreenshotStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should store screenshots under stable URIs with sniffed MIME types', () => {
+    const store = new ScreenshotStore();
+
+    const jpeg = store.add(JPEG, 'https://example.com', 'image/png');
+    const png = store.add(PNG);
+
+    expect(jpeg.uri).toBe(`${SCREENSHOT_URI_PREFIX}${jpeg.id}`);
+    expect(jpeg.mimeType).toBe('image/jpeg');
+    expect(png.mimeType).toBe('image/png');
+    expect(store.get(jpeg.uri)?.bytes).toEqual(JPEG);
+    expect(store.get('scraperis_screenshot://https://example.com/shot.png')).toBeUndefined();
+  });
+
+  it('should evict the least recently used screenshots beyond the size limit', () => {
+    vi.useFakeTimers();
+    const store = new ScreenshotStore(JPEG.length * 2);
+
+    const first = store.add(JPEG);
+    vi.advanceTimersByTime(10);
+    const second = store.add(JPEG);
+    vi.advanceTimersByTime(10);
+    store.get(first.uri);
+    vi.advanceTimersByTime(10);
+    store.add(JPEG);
+
+    expect(store.get(second.uri)).toBeUndefined();
+    expect(store.get(first.uri)).toBeDefined();
+    expect(store.list()).toHaveLength(2);
+  });
+
+  it('should expire screenshots after the TTL', () => {
+    vi.useFakeTimers();
+    const store = new ScreenshotStore(undefined, 1000);
+
+    const entry = store.add(JPEG);
+    vi.advanceTimersByTime(1001);
+
+    expect(store.get(entry.uri)).toBeUndefined();
+    expect(store.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { buildTools, parseToolArguments } from '../server/tools.js';
+import { ToolInputError } from '../lib/errors.js';
+
+describe('tool schemas', () => {
+  it('should derive tool definitions from the argument schemas', () => {
+    const scrape = buildTools().find(tool => tool.name === 'scrape');
+
+    expect(scrape?.inputSchema).toMatchObject({
+      type: 'object',
+      required: ['prompt'],
+      properties: {
+        format: { type: 'string', enum: ['markdown', 'html', 'screenshot', 'json', 'quick', 'csv', 'xml'] }
+      }
+    });
+    expect(scrape?.inputSchema).not.toHaveProperty('$schema');
+  });
+
+  it('should only offer enabled tools, with replacement descriptions', () => {
+    const tools = buildTools({ enabled: ['scrape', 'screenshot'], descriptions: { scrape: 'Scrape a page' } });
+
+    expect(tools.map(tool => tool.name)).toEqual(['scrape', 'screenshot']);
+    expect(tools[0].description).toBe('Scrape a page');
+  });
+
+  it('should apply defaults to valid arguments', () => {
+    expect(parseToolArguments('scrape_batch', { urls: ['https://example.com'], instruction: 'Extract prices' }))
+      .toEqual({ urls: ['https://example.com'], instruction: 'Extract prices', format: 'json', concurrency: 5 });
+  });
+
+  it('should list every offending field', () => {
+    let error: unknown;
+    try {
+      parseToolArguments('scrape', { prompt: 42, format: 'pdf' });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ToolInputError);
+    expect((error as ToolInputError).code).toBe('invalid_arguments');
+    expect((error as ToolInputError).issues.map(issue => issue.field)).toEqual(['prompt', 'format']);
+  });
+
+  it('should validate cross-field batch rules', () => {
+    expect(() => parseToolArguments('scrape_batch', { urls: ['https://example.com'] })).toThrow('instruction');
+    expect(() => parseToolArguments('scrape_batch', {})).toThrow('Provide either prompts or urls');
+  });
+});
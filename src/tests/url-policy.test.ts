@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { isPrivateAddress, UrlPolicy } from '../lib/url-policy.js';
+import { UrlPolicyError } from '../lib/errors.js';
+import { ScraperAPI } from '../lib/scraper-api.js';
+
+const ADDRESSES: Record<string, string[]> = {
+  'shop.example.com': ['93.184.216.34'],
+  'intranet.example.com': ['10.1.2.3'],
+  'mixed.example.com': ['93.184.216.34', 'fd00::1']
+};
+
+/**
+ * Resolves the host names of the tests without DNS
+ * @param hostname The host name
+ * @returns Promise with its addresses
+ */
+async function resolve(hostname: string): Promise<string[]> {
+  const addresses = ADDRESSES[hostname];
+  if (!addresses) {
+    throw new Error(`getaddrinfo ENOTFOUND ${hostname}`);
+  }
+  return addresses;
+}
+
+/**
+ * Gets the reason a policy refuses a URL
+ * @param check The check to run
+ * @returns Promise with the reason, or undefined if the URL is allowed
+ */
+async function reason(check: Promise<void>): Promise<string | undefined> {
+  try {
+    await check;
+    return undefined;
+  } catch (error) {
+    expect(error).toBeInstanceOf(UrlPolicyError);
+    return (error as UrlPolicyError).reason;
+  }
+}
+
+describe('UrlPolicy', () => {
+  it('should apply the scheme and domain lists, blocked domains first', async () => {
+    const policy = new UrlPolicy({
+      allowedDomains: ['*.example.com', 'Example.org'],
+      blockedDomains: ['admin.example.com'],
+      resolve
+    });
+
+    expect(await reason(policy.check('https://shop.example.com/lamps'))).toBeUndefined();
+    expect(await reason(policy.check('http://EXAMPLE.org./about'))).toBeUndefined();
+    expect(await reason(policy.check('https://example.com/'))).toBe('domain');
+    expect(await reason(policy.check('https://admin.example.com/'))).toBe('domain');
+    expect(await reason(policy.check('https://shop.example.com.evil.net/'))).toBe('domain');
+    expect(await reason(policy.check('ftp://shop.example.com/prices.csv'))).toBe('scheme');
+    expect(await reason(policy.check('not a url'))).toBe('invalid_url');
+
+    expect(await reason(new UrlPolicy({ allowedSchemes: ['ftp'], resolve }).check('ftp://shop.example.com/'))).toBeUndefined();
+  });
+
+  it('should block loopback, private and link-local hosts unless they are allowed', async () => {
+    const policy = new UrlPolicy({ resolve });
+
+    for (const url of [
+      'http://localhost:8080/admin',
+      'http://api.localhost/',
+      'http://127.0.0.1/',
+      'http://0x7f.1/',
+      'http://[::1]/',
+      'http://[::ffff:127.0.0.1]/',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://192.168.1.1/',
+      'http://intranet.example.com/',
+      'http://mixed.example.com/'
+    ]) {
+      expect(await reason(policy.check(url)), url).toBe('private_network');
+    }
+    expect(await reason(policy.check('https://shop.example.com/'))).toBeUndefined();
+    // Hosts that do not resolve here are left to Scraper.is
+    expect(await reason(policy.check('https://unknown.example.net/'))).toBeUndefined();
+    await expect(policy.check('http://intranet.example.com/wiki')).rejects.toThrow('intranet.example.com resolves to 10.1.2.3');
+
+    const open = new UrlPolicy({ allowPrivateNetworks: true, resolve });
+    expect(await reason(open.check('http://localhost:8080/admin'))).toBeUndefined();
+    expect(await reason(open.check('http://intranet.example.com/'))).toBeUndefined();
+
+    expect(isPrivateAddress('100.64.0.1')).toBe(true);
+    expect(isPrivateAddress('fe80::1')).toBe(true);
+    expect(isPrivateAddress('8.8.8.8')).toBe(false);
+    expect(isPrivateAddress('2606:4700::1111')).toBe(false);
+  });
+
+  it('should check every URL in a prompt and require one when only some domains are allowed', async () => {
+    const policy = new UrlPolicy({ resolve });
+    expect(await reason(policy.checkPrompt('Compare https://shop.example.com/lamps and https://shop.example.com/desks.'))).toBeUndefined();
+    expect(await reason(policy.checkPrompt('Get prices from https://shop.example.com, then http://127.0.0.1:3000/admin'))).toBe('private_network');
+    expect(await reason(policy.checkPrompt('Summarize file:///etc/passwd'))).toBe('scheme');
+    expect(await reason(policy.checkPrompt('Get the top stories from Hacker News'))).toBeUndefined();
+
+    const restricted = new UrlPolicy({ allowedDomains: ['shop.example.com'], resolve });
+    expect(await reason(restricted.checkPrompt('Get the top stories from Hacker News'))).toBe('missing_url');
+    expect(await reason(restricted.checkPrompt('Get prices from <https://shop.example.com/lamps>'))).toBeUndefined();
+  });
+
+  it('should check every redirect of a screenshot download, trusting only the API itself', async () => {
+    const requests: string[] = [];
+    const server = createServer((req, res) => {
+      requests.push(req.url ?? '');
+      res.writeHead(302, { location: 'http://intranet.example.com/secret.png' }).end();
+    });
+    await new Promise<void>(done => server.listen(0, '127.0.0.1', done));
+    const apiBase = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+
+    try {
+      const api = new ScraperAPI('key', apiBase, 10, { maxRetries: 0, urlPolicy: new UrlPolicy({ resolve }) });
+      await expect(api.downloadScreenshot(`${apiBase}/files/shot.png`)).rejects.toMatchObject({
+        code: 'url_blocked',
+        url: 'http://intranet.example.com/secret.png'
+      });
+      expect(requests).toEqual(['/api/files/shot.png']);
+
+      await expect(api.downloadScreenshot('http://192.168.1.20/shot.png')).rejects.toBeInstanceOf(UrlPolicyError);
+      await expect(api.scrape('Get http://localhost:9200/_cat/indices', 'markdown')).rejects.toMatchObject({ reason: 'private_network' });
+      await expect(api.screenshot('http://[::1]:8080/')).rejects.toMatchObject({ reason: 'private_network' });
+      expect(requests).toHaveLength(1);
+    } finally {
+      await new Promise(done => server.close(done));
+    }
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ScraperAPI } from '../lib/scraper-api.js';
+import { ScraperBudgetError } from '../lib/errors.js';
+import { UsageLedger } from '../lib/usage-ledger.js';
+
+// Define a mock type for fetch
+interface MockFetch {
+  mockResolvedValueOnce: (value: unknown) => MockFetch;
+}
+
+describe('UsageLedger', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    global.fetch = vi.fn() as unknown as typeof fetch;
+  });
+
+  it('should record scrapes with their format, polls and credits', async () => {
+    const ledger = new UsageLedger();
+    const api = new ScraperAPI('test-api-key', 'https://test-api.com/api', 1, { usage: ledger.session('s1') });
+    (global.fetch as unknown as MockFetch)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ job_id: 'job-1' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ processing: true }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'completed', markdown: '# Done' }) })
+      .mockResolvedValueOnce({ ok: false, status: 401, headers: new Headers(), text: async () => 'bad key' });
+
+    await api.scrape('Scrape example.com', 'markdown');
+    await expect(api.getStatus('job-2')).rejects.toThrow('rejected the API key');
+
+    const [failed, scrape] = ledger.recent(10);
+    expect(scrape).toMatchObject({
+      operation: 'scrape',
+      endpoint: '/extract_prompt',
+      format: 'markdown',
+      polls: 2,
+      success: true,
+      credits: 1,
+      session: 's1'
+    });
+    expect(failed).toMatchObject({ operation: 'get_status', success: false, error: 'auth_failed', credits: 0 });
+    expect(ledger.totals()).toMatchObject({ calls: 2, failures: 1, credits: 1, polls: 3 });
+  });
+
+  it('should refuse new jobs once the session or daily budget is used up', async () => {
+    const ledger = new UsageLedger(undefined, 3);
+    ledger.record({ operation: 'scrape', endpoint: '/extract_prompt', durationMs: 5, polls: 1, success: true, credits: 1 }, 'other');
+    const meter = ledger.session('s1', 1);
+    const api = new ScraperAPI('test-api-key', 'https://test-api.com/api', 1, { usage: meter });
+    (global.fetch as unknown as MockFetch)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ job_id: 'job-1' }) });
+
+    await api.startScrape('Scrape example.com', 'json');
+    await expect(api.startScrape('Scrape example.org', 'json')).rejects.toThrow(ScraperBudgetError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    ledger.record({ operation: 'scrape', endpoint: '/extract_prompt', durationMs: 5, polls: 1, success: true, credits: 1 }, 'other');
+    expect(() => ledger.session('s2').checkBudget()).toThrow('daily credit budget of 3 is used up');
+    expect(ledger.totals({ session: 's1' })).toMatchObject({ calls: 2, failures: 1, credits: 1 });
+  });
+
+  it('should count reserved credits against the budgets until they are released', () => {
+    const ledger = new UsageLedger(undefined, 2);
+    const meter = ledger.session('s1', 1);
+
+    const release = meter.reserve();
+    expect(() => meter.reserve()).toThrow(ScraperBudgetError);
+    const other = ledger.session('s2').reserve();
+    expect(() => ledger.session('s3').checkBudget()).toThrow('daily credit budget of 2 is used up');
+
+    release();
+    release();
+    other();
+    expect(() => meter.reserve()).not.toThrow();
+  });
+
+  describe('file', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'scraperis-usage-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should persist records and drop expired and malformed lines on open', async () => {
+      const file = join(dir, 'state', 'usage.jsonl');
+      const ledger = await UsageLedger.open(file);
+      ledger.record({ operation: 'screenshot', endpoint: '/screenshot', format: 'screenshot', durationMs: 80, polls: 0, success: true, credits: 1 });
+      await ledger.flush();
+
+      const expired = { time: Date.now() - 365 * 24 * 60 * 60 * 1000, operation: 'scrape', endpoint: '/extract_prompt', durationMs: 1, polls: 0, success: true, credits: 1 };
+      await writeFile(file, `${await readFile(file, 'utf8')}${JSON.stringify(expired)}\n{"time":`, 'utf8');
+
+      const reopened = await UsageLedger.open(file);
+      expect(reopened.totals()).toMatchObject({ calls: 1, credits: 1, byOperation: { screenshot: { calls: 1, credits: 1 } } });
+      expect((await readFile(file, 'utf8')).trim().split('\n')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PageWatcher, WatchEvent } from '../lib/watcher.js';
+import { WatchStore } from '../lib/watch-store.js';
+import { ScraperJobFailedError } from '../lib/errors.js';
+import { ScraperAPI } from '../lib/scraper-api.js';
+import { ScraperResponse } from '../types/index.js';
+
+/**
+ * Creates an API whose scrapes return the given responses in order
+ * @param responses The responses, or errors to throw
+ * @returns The API and its scrape mock
+ */
+function fakeApi(responses: Array<ScraperResponse | Error>) {
+  const scrape = vi.fn(async () => {
+    const next = responses.shift();
+    if (next instanceof Error) {
+      throw next;
+    }
+    return next as ScraperResponse;
+  });
+  return { api: { scrape } as unknown as ScraperAPI, scrape };
+}
+
+describe('PageWatcher', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should diff markdown snapshots and notify listeners of changes', async () => {
+    const { api, scrape } = fakeApi([
+      { markdown: '# Acme\n\n## Pricing\n\nPro: $20\n\n## Blog\n\nPost 1' },
+      { markdown: '# Acme\n\n## Pricing\n\nPro: $20\n\n## Blog\n\nPost 2' },
+      { markdown: '# Acme\n\n## Pricing\n\nPro: $25\n\n## Blog\n\nPost 2' }
+    ]);
+    const watcher = new PageWatcher(new WatchStore(), () => api);
+    const events: WatchEvent[] = [];
+    watcher.subscribe(event => events.push(event));
+
+    const watch = watcher.add({ prompt: 'Get acme.com', format: 'markdown', selector: 'Pricing', intervalMinutes: 60, owner: 'a' });
+    expect((await watcher.check(watch.id, 'a')).change).toBeUndefined();
+    expect((await watcher.check(watch.id, 'a')).change).toBeUndefined();
+    const { change } = await watcher.check(watch.id, 'a');
+    watcher.stop();
+
+    expect(change).toMatchObject({ summary: '+1 -1 lines', diff: '@@ -1,3 +1,3 @@\n ## Pricing\n \n-Pro: $20\n+Pro: $25' });
+    expect(events.map(event => event.type)).toEqual(['added', 'changed']);
+    expect(watch.snapshots).toHaveLength(3);
+    expect(watch.changes).toEqual([change]);
+    expect(scrape).toHaveBeenCalledWith('Get acme.com', 'markdown', undefined, expect.objectContaining({ forceRefresh: true, priority: -1 }));
+  });
+
+  it('should check due watches on its timer and record failures', async () => {
+    vi.useFakeTimers();
+    const { api, scrape } = fakeApi([
+      { data: { price: 10 } },
+      new ScraperJobFailedError('Scraper error: page not reachable', 'job-1'),
+      { data: { price: 12 } }
+    ]);
+    const watcher = new PageWatcher(new WatchStore(), () => api, 1000);
+    const watch = watcher.add({ prompt: 'Get the price from acme.com', format: 'json', intervalMinutes: 5 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(scrape).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+    expect(watch.lastError).toBe('Scraper error: page not reachable');
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+    watcher.stop();
+
+    expect(scrape).toHaveBeenCalledTimes(3);
+    expect(watch.lastError).toBeUndefined();
+    expect(watch.changes[0]).toMatchObject({
+      summary: '1 changed, 0 added, 0 removed fields',
+      fields: [{ path: '/price', type: 'changed', before: 10, after: 12 }]
+    });
+  });
+
+  it('should only show and change a watch for the API key it was created with', async () => {
+    const { api } = fakeApi([]);
+    Object.assign(api, { keyOwner: 'default' });
+    const watcher = new PageWatcher(new WatchStore(), () => api);
+    const owned = watcher.add({ prompt: 'Get acme.com', format: 'markdown', intervalMinutes: 60, owner: 'a' });
+    // Watches saved before owners were recorded belong to the key of their profile
+    const legacy = watcher.add({ prompt: 'Get acme.org', format: 'markdown', intervalMinutes: 60 });
+    watcher.stop();
+
+    expect(watcher.list('a')).toEqual([owned]);
+    expect(watcher.list('default')).toEqual([legacy]);
+    expect(watcher.get(owned.id, 'b')).toBeUndefined();
+    expect(watcher.resolve(WatchStore.uri(owned.id), 'b')).toBeUndefined();
+    await expect(watcher.check(owned.id, 'b')).rejects.toThrow('Unknown watch');
+    expect(watcher.remove(owned.id, 'b')).toBeUndefined();
+    expect(watcher.remove(owned.id, 'a')).toBe(owned);
+  });
+
+  it('should limit the number of watches per API key', () => {
+    const { api } = fakeApi([]);
+    const watcher = new PageWatcher(new WatchStore(), () => api);
+    for (let i = 0; i < 20; i++) {
+      watcher.add({ prompt: `Get acme.com/${i}`, format: 'markdown', intervalMinutes: 60, owner: 'a' });
+    }
+
+    expect(() => watcher.add({ prompt: 'Get acme.com/20', format: 'markdown', intervalMinutes: 60, owner: 'a' }))
+      .toThrow('Cannot watch more than 20 pages per API key');
+    expect(watcher.add({ prompt: 'Get acme.org', format: 'markdown', intervalMinutes: 60, owner: 'b' }).owner).toBe('b');
+    watcher.stop();
+  });
+
+  it('should save watches to their file and load them again', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'scraperis-watches-'));
+    try {
+      const file = join(dir, 'watches.json');
+      const store = await WatchStore.open(file);
+      const watch = store.add({ prompt: 'Get acme.com', format: 'markdown', intervalMinutes: 60 });
+      store.recordSnapshot(watch.id, { time: Date.now(), markdown: '# Acme' });
+      await store.flush();
+
+      const reopened = await WatchStore.open(file);
+      expect(reopened.get(watch.id)).toMatchObject({ prompt: 'Get acme.com', snapshots: [{ markdown: '# Acme' }] });
+      expect(reopened.resolve(WatchStore.uri(watch.id))?.id).toBe(watch.id);
+
+      await writeFile(file, '{"watches": [', 'utf8');
+      const onError = vi.fn();
+      expect((await WatchStore.open(file, onError)).list()).toEqual([]);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(await readFile(`${file}.corrupt`, 'utf8')).toBe('{"watches": [');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,30 +1,637 @@
 import { z } from 'zod';
 
+// Limits
+/** Maximum number of items accepted in one batch */
+export const MAX_BATCH_SIZE = 200;
+/** Maximum number of scrapes a batch may run concurrently */
+export const MAX_BATCH_CONCURRENCY = 20;
+/** Maximum number of pages one crawl may scrape */
+export const MAX_CRAWL_PAGES = 100;
+/** Maximum link depth a crawl may follow */
+export const MAX_CRAWL_DEPTH = 5;
+/** Smallest token budget a result may be chunked to */
+export const MIN_MAX_TOKENS = 100;
+/** Minutes between the checks of a watched page, at least and at most */
+export const MIN_WATCH_INTERVAL = 5;
+export const MAX_WATCH_INTERVAL = 7 * 24 * 60;
+
 // Schema definitions
+export const ScrapeFormatSchema = z.enum(['markdown', 'html', 'screenshot', 'json', 'quick', 'csv', 'xml']);
+
+export const ToolNameSchema = z.enum([
+  'scrape',
+  'start_scrape',
+  'get_scrape_status',
+  'get_scrape_result',
+  'cancel_scrape',
+  'scrape_batch',
+  'crawl',
+  'manage_cache',
+  'screenshot',
+  'get_usage',
+  'get_chunk',
+  'watch_page',
+  'list_watches',
+  'get_changes',
+  'unwatch',
+  'search_history',
+  'export',
+]);
+
+export const LogLevelSchema = z.enum(['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency']);
+
+const ProfileSchema = z.string().min(1).optional()
+  .describe('Named API key profile to bill this call to (see the server key file); defaults to the session key');
+
+export const ExportFormatSchema = z.enum(['csv', 'jsonl', 'xlsx', 'markdown']);
+
+export const ExportTargetSchema = z.object({
+  format: ExportFormatSchema
+    .describe('File format: csv, jsonl or xlsx for structured data (nested fields become dotted columns), markdown for text'),
+  path: z.string().min(1).max(255).optional()
+    .describe("File path relative to the server's export directory, e.g. 'pricing/acme.csv'; defaults to a name from the prompt and time"),
+  overwrite: z.boolean().default(false).describe('Replace the file if it already exists'),
+});
+
 export const ScraperOperationSchema = z.object({
-  prompt: z.string(),
-  format: z.enum(['markdown', 'html', 'screenshot', 'json', 'quick']),
+  prompt: z.string().min(1).describe('The prompt describing what to scrape, including the URL'),
+  format: ScrapeFormatSchema.optional()
+    .describe("The format to return the content in (defaults to json with a schema, otherwise the server's default format)"),
+  inline_image: z.boolean().optional()
+    .describe('For the screenshot format, also return the image itself in the result instead of only a resource URI'),
+  max_age: z.number().min(0).optional()
+    .describe('Maximum age in seconds of a cached result that may be returned instead of scraping again'),
+  force_refresh: z.boolean().optional().describe('Ignore cached results and scrape again'),
+  profile: ProfileSchema,
+  schema: z.record(z.unknown()).optional()
+    .describe('JSON Schema the extracted data must follow (json format only); the result is validated against it'),
+  max_tokens: z.number().int().min(MIN_MAX_TOKENS).optional()
+    .describe('Maximum size of the returned markdown or HTML in tokens (about 4 characters each); longer results are split into chunks'),
+  overflow: z.enum(['chunk', 'truncate']).default('chunk')
+    .describe('With max_tokens, whether the remaining chunks stay readable with get_chunk (chunk) or are dropped (truncate)'),
+  selector: z.string().min(1).optional()
+    .describe("Keep only the markdown sections whose heading contains this text, e.g. 'Pricing'; '## Pricing' only matches level-2 headings and /regex/ is supported"),
+  clean: z.boolean().default(true)
+    .describe('Strip navigation menus and boilerplate from markdown and normalize its links and images'),
+  export: ExportTargetSchema.optional()
+    .describe('Also write the result to a file in the export directory'),
+}).refine(value => !value.schema || !value.format || value.format === 'json', {
+  message: 'A schema can only be used with the json format',
+  path: ['schema'],
 });
 
+export const DevicePresetSchema = z.enum(['desktop', 'laptop', 'tablet', 'mobile']);
+
 export const ScreenshotOperationSchema = z.object({
-  url: z.string(),
+  url: z.string().url().refine(value => /^https?:\/\//i.test(value), 'URL must use http or https')
+    .describe('The http(s) URL to take a screenshot of'),
+  viewport: z.object({
+    width: z.number().int().min(320).max(3840),
+    height: z.number().int().min(240).max(2160),
+  }).optional().describe('Viewport size in CSS pixels; overrides the device preset'),
+  full_page: z.boolean().optional()
+    .describe('Capture the full scrollable page instead of only the visible area (default false)'),
+  device: DevicePresetSchema.optional().describe('Device to emulate'),
+  wait_for: z.number().int().min(0).max(30000).optional()
+    .describe('Milliseconds to wait after the page loads before capturing'),
+  profile: ProfileSchema,
+});
+
+export const StartScrapeOperationSchema = z.object({
+  prompt: z.string().min(1).describe('The prompt describing what to scrape, including the URL'),
+  format: ScrapeFormatSchema.optional()
+    .describe("The default format to return the result in (defaults to the server's default format)"),
+  profile: ProfileSchema,
+});
+
+export const ScrapeStatusOperationSchema = z.object({
+  chat_id: z.string().min(1).optional().describe('The chat_id returned by start_scrape'),
+});
+
+export const ScrapeResultOperationSchema = z.object({
+  chat_id: z.string().min(1).describe('The chat_id returned by start_scrape'),
+  format: ScrapeFormatSchema.optional()
+    .describe('The format to return the result in (defaults to the format the job was started with)'),
+  wait: z.boolean().optional().describe('Wait for the job to finish instead of returning its status'),
+});
+
+export const CancelScrapeOperationSchema = z.object({
+  chat_id: z.string().min(1).describe('The chat_id returned by start_scrape'),
+});
+
+export const BatchOperationSchema = z.object({
+  prompts: z.array(z.string().min(1)).max(MAX_BATCH_SIZE).optional()
+    .describe('Prompts to scrape, each including its URL'),
+  urls: z.array(z.string().url()).max(MAX_BATCH_SIZE).optional()
+    .describe('URLs to apply the instruction to'),
+  instruction: z.string().min(1).optional()
+    .describe("What to extract from each URL, e.g. 'Extract product names and prices'"),
+  format: z.enum(['json', 'csv', 'markdown']).default('json')
+    .describe('The format of the merged result'),
+  concurrency: z.number().int().min(1).max(MAX_BATCH_CONCURRENCY).default(5)
+    .describe('Maximum number of pages scraped at the same time'),
+  profile: ProfileSchema,
+}).superRefine((value, ctx) => {
+  if (!value.prompts?.length && !value.urls?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['prompts'], message: 'Provide either prompts or urls' });
+  }
+  if (value.urls?.length && !value.instruction) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['instruction'], message: 'Required when urls are given' });
+  }
+});
+
+export const CrawlOperationSchema = z.object({
+  url: z.string().url().refine(value => /^https?:\/\//i.test(value), 'URL must use http or https')
+    .describe('The http(s) URL to start crawling at'),
+  instruction: z.string().min(1).optional()
+    .describe("What to extract from each page, e.g. 'Extract product names and prices' (defaults to the main content)"),
+  format: z.enum(['json', 'csv', 'markdown']).default('markdown')
+    .describe('The format of the combined result'),
+  include: z.array(z.string().min(1)).max(50).optional()
+    .describe("Only follow links matching one of these glob patterns, e.g. '/blog/*' (paths) or 'https://example.com/docs/*'"),
+  exclude: z.array(z.string().min(1)).max(50).optional()
+    .describe('Never follow links matching one of these glob patterns'),
+  next_page: z.string().min(1).optional()
+    .describe("How to find the next page of a paginated listing, e.g. 'the Next button'; followed without using up depth"),
+  max_depth: z.number().int().min(0).max(MAX_CRAWL_DEPTH).default(1)
+    .describe('How many links away from the start page to follow (0 follows only next_page)'),
+  max_pages: z.number().int().min(1).max(MAX_CRAWL_PAGES).default(10)
+    .describe('Maximum number of pages to scrape; each page costs one credit'),
+  same_domain: z.boolean().default(true)
+    .describe('Only follow links on the host of the start page'),
+  concurrency: z.number().int().min(1).max(MAX_BATCH_CONCURRENCY).default(3)
+    .describe('Maximum number of pages scraped at the same time'),
+  profile: ProfileSchema,
+});
+
+export const GetChunkOperationSchema = z.object({
+  document_id: z.string().min(1).describe('The document_id returned with a chunked result'),
+  chunk: z.number().int().min(1).describe('The 1-based number of the chunk to return'),
+});
+
+export const WatchPageOperationSchema = z.object({
+  prompt: z.string().min(1).describe('The prompt describing what to scrape, including the URL'),
+  name: z.string().min(1).max(100).optional().describe("A short label for the watch, e.g. 'Acme pricing'"),
+  format: z.enum(['markdown', 'json']).optional()
+    .describe('Compare the page as markdown text or as extracted JSON fields (defaults to json with a schema, otherwise markdown)'),
+  schema: z.record(z.unknown()).optional()
+    .describe('JSON Schema of the extracted data (json format only), so changes are reported per field'),
+  selector: z.string().min(1).optional()
+    .describe("Only compare the markdown sections whose heading contains this text, e.g. 'Pricing'"),
+  interval_minutes: z.number().int().min(MIN_WATCH_INTERVAL).max(MAX_WATCH_INTERVAL).default(60)
+    .describe('Minutes between checks; each check costs one credit'),
+  profile: ProfileSchema,
+}).refine(value => !value.schema || !value.format || value.format === 'json', {
+  message: 'A schema can only be used with the json format',
+  path: ['schema'],
+});
+
+export const ListWatchesOperationSchema = z.object({});
+
+export const GetChangesOperationSchema = z.object({
+  watch_id: z.string().min(1).describe('The watch_id returned by watch_page'),
+  limit: z.number().int().min(1).max(50).default(5).describe('Number of most recent changes to return'),
+  check_now: z.boolean().optional().describe('Check the page now instead of waiting for the next scheduled check'),
+});
+
+export const UnwatchOperationSchema = z.object({
+  watch_id: z.string().min(1).describe('The watch_id returned by watch_page'),
+});
+
+export const SearchHistoryOperationSchema = z.object({
+  query: z.string().min(1).optional()
+    .describe('Words that must all appear in the prompt, URL or content of a result, ignoring case; omit to list recent results'),
+  format: ScrapeFormatSchema.optional().describe('Only results in this format'),
+  since: z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Use an ISO date such as 2026-01-31').optional()
+    .describe('Only results received on or after this ISO date or time'),
+  limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of results to return'),
+});
+
+export const ExportOperationSchema = ExportTargetSchema.extend({
+  chat_id: z.string().min(1).describe('The chat_id of a stored result, as listed by search_history'),
+});
+
+export const ManageCacheOperationSchema = z.object({
+  action: z.enum(['list', 'purge']).describe('Whether to list the cache entries or delete them'),
+  key: z.string().min(1).optional().describe('Only purge the entry with this key'),
+  older_than: z.number().min(0).optional().describe('Only purge entries older than this many seconds'),
+  profile: ProfileSchema.describe('Named API key profile whose cached results to manage; defaults to the session key'),
 });
 
+export const UsageOperationSchema = z.object({
+  period: z.enum(['session', 'today', 'all']).default('today')
+    .describe('Whether to report this session, the current UTC day or all recorded usage'),
+  limit: z.number().int().min(0).max(200).default(20)
+    .describe('Number of most recent calls to include'),
+});
+
+export const KeyFileSchema = z.object({
+  /** Profile used when a request names none */
+  default: z.string().min(1).optional(),
+  /** API keys by profile name */
+  profiles: z.record(z.string().min(1)),
+}).refine(value => !value.default || value.default in value.profiles, {
+  message: 'The default profile must be one of the profiles',
+  path: ['default'],
+});
+
+export const PromptArgumentSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Use lowercase letters, digits and underscores'),
+  description: z.string().optional(),
+  /** url and url_list values must be http(s) URLs; list values are comma or newline separated */
+  type: z.enum(['text', 'url', 'list', 'url_list']).default('text'),
+  required: z.boolean().default(false),
+  default: z.string().optional(),
+});
+
+export const PromptTemplateSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'Use lowercase letters, digits, dashes and underscores'),
+  description: z.string().min(1),
+  arguments: z.array(PromptArgumentSchema).default([]),
+  /** The tool the expanded prompt asks the assistant to call */
+  tool: z.enum(['scrape', 'scrape_batch']).default('scrape'),
+  format: ScrapeFormatSchema.default('markdown'),
+  /** The scrape prompt (or batch instruction), with {{argument}} placeholders and {{#argument}}...{{/argument}} sections */
+  prompt: z.string().min(1),
+  /** What the assistant should do with the scraped result */
+  instructions: z.string().optional(),
+}).superRefine((value, ctx) => {
+  if (value.tool === 'scrape_batch') {
+    if (!value.arguments.some(argument => argument.name === 'urls' && argument.type === 'url_list')) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['arguments'],
+        message: 'scrape_batch templates need a url_list argument named urls',
+      });
+    }
+    if (!['json', 'csv', 'markdown'].includes(value.format)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['format'], message: 'scrape_batch supports json, csv or markdown' });
+    }
+  }
+});
+
+export const ServerConfigSchema = z.object({
+  /** Default Scraper.is API key */
+  apiKey: z.string().min(1).optional(),
+  apiBase: z.string().url().default('https://scraper.is/api'),
+  /** Initial delay between status polls in milliseconds */
+  pollInterval: z.coerce.number().int().min(100).default(5000),
+  /** Overall deadline of a scrape in milliseconds */
+  timeout: z.coerce.number().int().positive().optional(),
+  /** Maximum number of status polls per scrape */
+  maxPolls: z.coerce.number().int().positive().optional(),
+  /** Format used when a scrape does not name one */
+  defaultFormat: ScrapeFormatSchema.default('markdown'),
+  transport: z.enum(['stdio', 'http']).default('stdio'),
+  host: z.string().min(1).default('127.0.0.1'),
+  port: z.coerce.number().int().min(0).max(65535).default(3000),
+  /** Bearer token HTTP clients must send */
+  authToken: z.string().min(1).optional(),
+  logLevel: LogLevelSchema.default('info'),
+  /** File JSON log records are appended to, in addition to stderr */
+  logFile: z.string().min(1).optional(),
+  /** File every Scraper.is call is recorded in */
+  usageFile: z.string().min(1),
+  /** File watched pages and their snapshots are kept in */
+  watchFile: z.string().min(1),
+  /** Directory completed scrapes are kept in */
+  historyDir: z.string().min(1),
+  /** Number of completed scrapes kept; 0 turns the history off */
+  historyLimit: z.coerce.number().int().min(0).default(1000),
+  /** Directory exported files are written to; exports cannot leave it */
+  exportDir: z.string().min(1),
+  /** Credits all sessions may spend per UTC day */
+  dailyBudget: z.coerce.number().int().positive().optional(),
+  /** Credits one session may spend */
+  sessionBudget: z.coerce.number().int().positive().optional(),
+  /** Scrapes and screenshots started per second across all sessions; 0 for no limit */
+  submitRate: z.coerce.number().min(0).default(2),
+  /** Status and result requests per second across all sessions; 0 for no limit */
+  pollRate: z.coerce.number().min(0).default(5),
+  /** Maximum number of requests of each kind waiting for a slot */
+  maxQueue: z.coerce.number().int().positive().default(100),
+  /** Host name patterns that may be scraped, with * wildcards; every host when unset */
+  allowedDomains: z.array(z.string().min(1)).optional(),
+  /** Host name patterns that may never be scraped, with * wildcards */
+  blockedDomains: z.array(z.string().min(1)).default([]),
+  /** URL schemes that may be scraped */
+  allowedSchemes: z.array(z.string().regex(/^[a-z][a-z0-9+.-]*$/i, 'must be a URL scheme such as https')).min(1)
+    .default(['http', 'https']),
+  /** Allow scraping and downloading from loopback, private and link-local addresses */
+  allowPrivateNetworks: z.union([z.boolean(), z.enum(['true', 'false']).transform(value => value === 'true')]).default(false),
+  /** Tools to offer; all tools when unset */
+  enableTools: z.array(ToolNameSchema).min(1).optional(),
+  /** Replacement tool descriptions by tool name */
+  toolDescriptions: z.record(ToolNameSchema, z.string().min(1)).default({}),
+  cacheDir: z.string().min(1),
+  /** Seconds a cached result is reused by default */
+  cacheTtl: z.coerce.number().min(0).default(3600),
+  keyFile: z.string().min(1),
+  promptsDir: z.string().min(1),
+}).strict();
+
 // Type definitions
+export type ScrapeFormat = z.infer<typeof ScrapeFormatSchema>;
+export type ToolName = z.infer<typeof ToolNameSchema>;
+export type LogLevel = z.infer<typeof LogLevelSchema>;
+export type ServerConfig = z.infer<typeof ServerConfigSchema>;
 export type ScraperOperation = z.infer<typeof ScraperOperationSchema>;
 export type ScreenshotOperation = z.infer<typeof ScreenshotOperationSchema>;
+export type DevicePreset = z.infer<typeof DevicePresetSchema>;
+export type StartScrapeOperation = z.infer<typeof StartScrapeOperationSchema>;
+export type ScrapeStatusOperation = z.infer<typeof ScrapeStatusOperationSchema>;
+export type ScrapeResultOperation = z.infer<typeof ScrapeResultOperationSchema>;
+export type CancelScrapeOperation = z.infer<typeof CancelScrapeOperationSchema>;
+export type BatchOperation = z.infer<typeof BatchOperationSchema>;
+export type CrawlOperation = z.infer<typeof CrawlOperationSchema>;
+export type GetChunkOperation = z.infer<typeof GetChunkOperationSchema>;
+export type WatchPageOperation = z.infer<typeof WatchPageOperationSchema>;
+export type ListWatchesOperation = z.infer<typeof ListWatchesOperationSchema>;
+export type GetChangesOperation = z.infer<typeof GetChangesOperationSchema>;
+export type UnwatchOperation = z.infer<typeof UnwatchOperationSchema>;
+export type SearchHistoryOperation = z.infer<typeof SearchHistoryOperationSchema>;
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+export type ExportTarget = z.infer<typeof ExportTargetSchema>;
+export type ExportOperation = z.infer<typeof ExportOperationSchema>;
+export type ManageCacheOperation = z.infer<typeof ManageCacheOperationSchema>;
+export type UsageOperation = z.infer<typeof UsageOperationSchema>;
+export type KeyFile = z.infer<typeof KeyFileSchema>;
+export type PromptArgument = z.infer<typeof PromptArgumentSchema>;
+export type PromptTemplate = z.infer<typeof PromptTemplateSchema>;
+/** A template as written in a file, before defaults are applied */
+export type PromptTemplateInput = z.input<typeof PromptTemplateSchema>;
 
 export interface ScraperResponse {
   job_id?: string;
+  chat_id?: string;
   markdown?: string;
+  html?: string;
+  csv?: string;
+  xml?: string;
   screenshot?: {
-    url: string;
-  };
-  data?: Record<string, unknown>;
+    /** Signed URL of the screenshot (quick format) */
+    url?: string;
+    /** Base64-encoded image bytes (screenshot format) */
+    data?: string;
+    mimeType?: string;
+  } | null;
+  data?: Record<string, unknown> | unknown[];
   status?: string;
+  /** Stage of a running job (such as loading or extracting), when the status does not name it */
+  stage?: string;
   processing?: boolean;
   error?: string;
   url?: string;
+  timestamp?: string;
+  /** Content-Type of the get_data response the payload was parsed from */
+  contentType?: string;
+  /** Whether the result was served from the local result cache */
+  cache?: {
+    hit: boolean;
+    key: string;
+    /** ISO timestamp of when the cached result was stored */
+    storedAt: string;
+  };
+}
+
+export interface PollingOptions {
+  /** Overall deadline for a scrape job in milliseconds */
+  timeout: number;
+  /** Maximum number of status polls before giving up */
+  maxAttempts: number;
+  /** Upper bound for the delay between polls in milliseconds */
+  maxInterval: number;
+  /** Multiplier applied to the delay after each poll */
+  backoffFactor: number;
+  /** Fraction (0-1) of each delay to randomize */
+  jitter: number;
+  /** Maximum retries of a single request after a transient failure (429, 5xx, network) */
+  maxRetries: number;
+}
+
+export interface ScrapeOptions extends Partial<PollingOptions> {
+  /** Signal used to cancel the scrape */
+  signal?: AbortSignal;
+  /** Maximum age in milliseconds of a cached result that may be returned instead of scraping */
+  maxAge?: number;
+  /** Skip the cache lookup and scrape again (the fresh result is still cached) */
+  forceRefresh?: boolean;
+  /** JSON Schema the extracted data should follow, forwarded to /extract_prompt */
+  schema?: Record<string, unknown>;
+  /** Requests with a higher priority leave the client-side queue first (default 0) */
+  priority?: number;
+}
+
+/**
+ * Receives the progress of a scrape, with an optional message describing it
+ */
+export type ProgressCallback = (progress: number, message?: string) => Promise<void>;
+
+export interface ScreenshotOptions {
+  /** Browser viewport size in CSS pixels; overrides the device preset's viewport */
+  viewport?: { width: number; height: number };
+  /** Capture the full scrollable page instead of only the viewport */
+  fullPage?: boolean;
+  /** Device to emulate */
+  device?: DevicePreset;
+  /** Milliseconds to wait after page load before capturing */
+  waitFor?: number;
+  /** Signal used to cancel the screenshot */
+  signal?: AbortSignal;
+}
+
+export type ScrapeJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface StartedScrape {
+  /** The chat ID the job was submitted with, used to poll for results */
+  chatId: string;
+  /** The job ID, absent if the API answered synchronously */
+  jobId?: string;
+  /** The raw /extract_prompt response */
+  data: ScraperResponse;
+}
+
+export interface ScrapeStatus {
+  status: ScrapeJobStatus;
+  /** The quick status payload, absent while the job has no record yet */
+  data?: ScraperResponse;
+}
+
+export interface ScrapeJob {
+  chatId: string;
+  jobId?: string;
+  prompt: string;
+  format: ScrapeFormat;
+  status: ScrapeJobStatus;
+  createdAt: number;
+  updatedAt: number;
+  /** Number of status checks made for this job */
+  polls: number;
+  error?: string;
+  /** The result, when the API answered the submission with it */
+  result?: ScraperResponse;
+}
+
+/** The kinds of Scraper.is calls recorded in the usage ledger */
+export type MeteredOperation = 'scrape' | 'start_scrape' | 'screenshot' | 'get_status' | 'get_result';
+
+export interface UsageRecord {
+  /** Epoch milliseconds when the call finished */
+  time: number;
+  operation: MeteredOperation;
+  /** The API endpoint the call started with, or cache for results served from the result cache */
+  endpoint: string;
+  format?: ScrapeFormat;
+  durationMs: number;
+  /** Number of status polls made */
+  polls: number;
+  success: boolean;
+  /** Error code of a failed call */
+  error?: string;
+  /** Credits spent: one per job started at Scraper.is, none for cache hits and status checks */
+  credits: number;
+  /** The session that made the call */
+  session?: string;
+  /** Owner of the API key the call was made with */
+  owner?: string;
+}
+
+export type BatchFormat = BatchOperation['format'];
+
+export interface BatchItem {
+  /** Position of the item in the batch */
+  index: number;
+  prompt: string;
+  /** The URL the prompt was built from, when the batch was given a URL list */
+  url?: string;
+}
+
+export interface BatchItemResult extends BatchItem {
+  status: 'success' | 'error';
+  result?: ScraperResponse;
+  error?: {
+    code: string;
+    message: string;
+    retryable: boolean;
+  };
+}
+
+export interface MarkdownOptions {
+  /** URL of the page, to resolve relative links and images against */
+  baseUrl?: string;
+  /** Strip navigation and boilerplate and normalize links and images (default true) */
+  clean?: boolean;
+  /** Keep only the sections whose heading matches */
+  selector?: string;
+}
+
+export interface CrawlOptions {
+  /** The page to start at */
+  url: string;
+  /** What to extract from each page; the main content when unset */
+  instruction?: string;
+  format: BatchFormat;
+  /** Glob patterns a followed link must match one of; patterns starting with / are matched against the path */
+  include?: string[];
+  /** Glob patterns no followed link may match */
+  exclude?: string[];
+  /** Describes the link to the next page of a paginated listing */
+  nextPage?: string;
+  /** How many links away from the start page to follow */
+  maxDepth: number;
+  /** Maximum number of pages to scrape */
+  maxPages: number;
+  /** Only follow links on the host of the start page */
+  sameDomain: boolean;
+  /** Maximum number of concurrent scrapes */
+  concurrency: number;
+}
+
+export interface CrawlPage extends BatchItemResult {
+  url: string;
+  /** Number of links followed from the start page; next pages share the depth of their listing */
+  depth: number;
+}
+
+export interface CrawlResult {
+  /** The scraped pages, in crawl order */
+  pages: CrawlPage[];
+  /** URLs robots.txt did not allow crawling */
+  blocked: string[];
+  /** URLs found but not scraped because the page limit was reached */
+  unvisited: string[];
+}
+
+export interface WatchOptions {
+  prompt: string;
+  name?: string;
+  /** Whether snapshots are compared as markdown lines or as extracted fields */
+  format: 'markdown' | 'json';
+  /** JSON Schema of the extracted data, for the json format */
+  schema?: Record<string, unknown>;
+  /** Keep only the markdown sections whose heading matches */
+  selector?: string;
+  /** Minutes between checks */
+  intervalMinutes: number;
+  /** API key profile the checks are billed to; the default key when unset */
+  profile?: string;
+  /** Owner of the API key the watch was created with; only callers with the same key can see or change it */
+  owner?: string;
+}
+
+export interface WatchSnapshot {
+  /** Epoch milliseconds when the page was scraped */
+  time: number;
+  /** The processed markdown, for the markdown format */
+  markdown?: string;
+  /** The extracted data, for the json format */
+  data?: unknown;
+}
+
+export interface FieldChange {
+  /** JSON Pointer-style path of the field, e.g. /products/0/price */
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface WatchChange {
+  /** Epoch milliseconds of the check that found the change */
+  time: number;
+  /** One-line description, e.g. '+3 -1 lines' */
+  summary: string;
+  /** Unified diff of the markdown, for the markdown format */
+  diff?: string;
+  /** Changed fields, for the json format */
+  fields?: FieldChange[];
+}
+
+export interface Watch extends WatchOptions {
+  id: string;
+  createdAt: number;
+  /** Epoch milliseconds of the last check, successful or not */
+  lastCheckedAt?: number;
+  /** Epoch milliseconds when the page is checked next */
+  nextCheckAt: number;
+  /** Error of the last check, cleared by the next successful one */
+  lastError?: string;
+  /** The most recent snapshots, oldest first */
+  snapshots: WatchSnapshot[];
+  /** The detected changes, oldest first */
+  changes: WatchChange[];
+}
+
+export interface ExportedFile {
+  /** Absolute path of the written file */
+  path: string;
+  format: ExportFormat;
+  /** Size of the file in bytes */
+  bytes: number;
+  /** Number of records written, for csv, jsonl and xlsx */
+  rows?: number;
+  /** The first records or lines of the file, as text */
+  preview: string;
 }
 
 export interface ToolResponse {
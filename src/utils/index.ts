@@ -1,33 +1,65 @@
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { nanoid } from 'nanoid';
 
 /**
- * Validates that an environment variable is set
- * @param key The environment variable key to validate
- * @throws Error if the environment variable is not set
+ * Secrets that must never appear in log output
  */
-export const validateENV = (key: string): void => {
-  if (!process.env[key]) {
-    console.error(`${key} is not set`);
-    process.exit(1);
+const secrets = new Set<string>();
+
+/**
+ * Keys sent by clients with their requests, least recently seen first
+ */
+const requestSecrets = new Set<string>();
+
+/**
+ * How many client-sent keys are redacted at once; the least recently seen is forgotten first
+ */
+const MAX_REQUEST_SECRETS = 64;
+
+/**
+ * Registers a configured secret, such as the default API key or a profile's key, to be redacted from log output
+ * @param secret The secret value
+ */
+export function registerSecret(secret: string): void {
+  // Very short values would redact unrelated text and are not real keys
+  if (secret.length >= 8) {
+    secrets.add(secret);
   }
-};
+}
 
 /**
- * Sends a logging message to the server and console
- * @param server The MCP server instance
- * @param level The log level ('error' or 'info')
- * @param message The message to log
+ * Registers a key a client sent with a request to be redacted from log output. Any client can send a new key with
+ * every request, so only the most recently seen keys are kept.
+ * @param secret The secret value
  */
-export function sendLoggingMessage(
-  server: Server,
-  level: 'error' | 'info', 
-  message: string
-): void {
-  console.error(`[${new Date().toISOString()}] level: ${level} \n message: ${message}`);
-  server.sendLoggingMessage({
-    level: level,
-    data: `[${new Date().toISOString()}] ${message}`,
+export function registerRequestSecret(secret: string): void {
+  if (secret.length < 8 || secrets.has(secret)) {
+    return;
+  }
+  requestSecrets.delete(secret);
+  requestSecrets.add(secret);
+  if (requestSecrets.size > MAX_REQUEST_SECRETS) {
+    requestSecrets.delete(requestSecrets.values().next().value as string);
+  }
+}
+
+/**
+ * Query parameters that make a URL a signed, bearer-style link
+ */
+const SIGNED_URL_PARAMS = /^(x-amz-(signature|credential|security-token)|x-goog-(signature|credential)|signature|sig|se|token|access_token|expires)$/i;
+
+/**
+ * Replaces registered secrets and the signatures of signed URLs in a text with a masked form
+ * @param text The text to redact
+ * @returns The text with every secret replaced by its last four characters and every signed query string removed
+ */
+export function redactSecrets(text: string): string {
+  let redacted = text;
+  for (const secret of [...secrets, ...requestSecrets]) {
+    redacted = redacted.split(secret).join(`***${secret.slice(-4)}`);
+  }
+  return redacted.replace(/(https?:\/\/[^\s"'?#]+)\?([^\s"'#]+)/gi, (url, base: string, query: string) => {
+    const signed = query.split('&').some(param => SIGNED_URL_PARAMS.test(param.split('=')[0]));
+    return signed ? `${base}?***` : url;
   });
 }
 
@@ -42,8 +74,147 @@ export function generateChatId(): string {
 /**
  * Sleep utility function
  * @param ms Milliseconds to sleep
- * @returns Promise that resolves after the specified time
+ * @param signal Optional AbortSignal that ends the sleep early
+ * @returns Promise that resolves after the specified time, or as soon as the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Computes an exponential backoff delay with jitter
+ * @param attempt The 1-based attempt number
+ * @param baseDelay The delay in milliseconds for the first attempt
+ * @param maxDelay The upper bound for the delay in milliseconds
+ * @param factor The multiplier applied for each subsequent attempt
+ * @param jitter Fraction (0-1) of the delay to randomize
+ * @returns The delay in milliseconds
+ */
+export function backoffDelay(
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number,
+  factor: number,
+  jitter: number
+): number {
+  const delay = Math.min(maxDelay, baseDelay * Math.pow(factor, Math.max(0, attempt - 1)));
+  const spread = delay * Math.min(Math.max(jitter, 0), 1);
+  return Math.round(delay - spread + Math.random() * spread * 2);
+}
+
+/**
+ * Parses a Retry-After header value
+ * @param value The header value, either delta-seconds or an HTTP date
+ * @returns The delay in milliseconds, or undefined if the value is missing or invalid
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-} 
\ No newline at end of file
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether an HTTP status is a redirect that carries a Location
+ * @param status The HTTP status code
+ * @returns True for 301, 302, 303, 307 and 308
+ */
+export function isRedirect(status: number): boolean {
+  return [301, 302, 303, 307, 308].includes(status);
+}
+
+/**
+ * Combines several AbortSignals into one that aborts as soon as any of them does
+ * @param signals The signals to combine; undefined entries are ignored
+ * @returns The combined signal
+ */
+export function anySignal(...signals: Array<AbortSignal | undefined>): AbortSignal {
+  const controller = new AbortController();
+  for (const signal of signals) {
+    if (!signal) {
+      continue;
+    }
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+  return controller.signal;
+}
+
+/**
+ * Maps items through an async worker with at most `concurrency` calls in flight
+ * @param items The items to process
+ * @param concurrency Maximum number of concurrent calls
+ * @param worker The async function applied to each item
+ * @returns Promise with the results, in the order of the input items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+  
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, run));
+  return results;
+}
+
+/**
+ * Detects the MIME type of an image from its magic bytes
+ * @param bytes The image bytes
+ * @param fallback The MIME type to use when the format is not recognized
+ * @returns The detected MIME type
+ */
+export function sniffImageMimeType(bytes: Uint8Array, fallback: string = 'application/octet-stream'): string {
+  const startsWith = (...signature: number[]) => signature.every((byte, i) => bytes[i] === byte);
+  
+  if (startsWith(0xff, 0xd8, 0xff)) {
+    return 'image/jpeg';
+  }
+  if (startsWith(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)) {
+    return 'image/png';
+  }
+  if (startsWith(0x47, 0x49, 0x46, 0x38)) {
+    return 'image/gif';
+  }
+  // RIFF....WEBP
+  if (startsWith(0x52, 0x49, 0x46, 0x46) && bytes[8] === 0x57 && bytes[9] === 0x45 && bytes[10] === 0x42 && bytes[11] === 0x50) {
+    return 'image/webp';
+  }
+  return fallback;
+}